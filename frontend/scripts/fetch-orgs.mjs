@@ -0,0 +1,48 @@
+/**
+ * fetch-orgs.mjs
+ *
+ * Downloads the accepted organizations of one or more GSoC program years into
+ * src/data/allOrgs<YEAR>.json. Run it once per new year (or to add earlier
+ * years for year-over-year comparison):
+ *
+ *     node scripts/fetch-orgs.mjs 2024 2025
+ *
+ * WHY: The directory computes new, returning and dropped orgs and each org's
+ * participation history by comparing slugs across every allOrgs<YEAR>.json
+ * (see src/components/orgs/orgDatasets.ts), so those features need at least
+ * two years on disk. The files keep the program API's fields unchanged.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dataDir   = join(__dirname, '..', 'src/data');
+const apiUrl    = year => `https://summerofcode.withgoogle.com/api/program/${year}/organizations/`;
+
+const years = process.argv.slice(2).map(Number);
+if (years.length === 0 || years.some(year => !Number.isInteger(year) || year < 2005)) {
+    console.error('Usage: node scripts/fetch-orgs.mjs <year> [<year> ...]');
+    process.exit(1);
+}
+
+mkdirSync(dataDir, { recursive: true });
+
+for (const year of years) {
+    const response = await fetch(apiUrl(year));
+    if (!response.ok) {
+        console.error(`✗ GSoC ${year}: ${response.status} ${response.statusText}`);
+        process.exit(1);
+    }
+
+    const orgs = await response.json();
+    if (!Array.isArray(orgs) || orgs.length === 0) {
+        console.error(`✗ GSoC ${year}: no organizations published`);
+        process.exit(1);
+    }
+
+    orgs.sort((a, b) => a.name.localeCompare(b.name));
+    writeFileSync(join(dataDir, `allOrgs${year}.json`), JSON.stringify(orgs, null, 2) + '\n');
+    console.log(`✓ Fetched GSoC ${year} → src/data/allOrgs${year}.json  (${orgs.length} orgs)`);
+}
@@ -2,18 +2,20 @@
  * prerender-orgs.mjs
  *
  * Generates dist/orgs/index.html — a static, pre-rendered version of the GSoC
- * 2026 Organizations page. Runs automatically as a `postbuild` step.
+ * Organizations page for the latest year in src/data — plus
+ * dist/orgs/<slug>/index.html for every org's detail page. Runs automatically
+ * as a `postbuild` step.
  *
  * WHY: Google's JS rendering pipeline can take days/weeks to index SPA content.
  * By baking all 185 org names, descriptions, and ideas-list links into real HTML,
  * Googlebot sees full content instantly on the first crawl — no JS required.
  *
- * RESULT: When users visit gsoc.app/orgs, CloudFront serves this static file (if
- * the CloudFront Function URI rewrite is configured). The React app then hydrates
- * and takes over seamlessly.
+ * RESULT: When users visit gsoc.app/orgs (or /orgs/<slug>), CloudFront serves the
+ * static file (if the CloudFront Function URI rewrite is configured). The React
+ * app then hydrates and takes over seamlessly.
  */
 
-import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -23,9 +25,28 @@ const distDir   = join(rootDir, 'dist');
 const orgsDir   = join(distDir, 'orgs');
 
 // ── Data ─────────────────────────────────────────────────────────────────────
-const allOrgs  = JSON.parse(readFileSync(join(rootDir, 'src/data/allOrgs2026.json'), 'utf-8'));
-const newOrgs  = JSON.parse(readFileSync(join(rootDir, 'src/data/newOrgs2026.json'), 'utf-8'));
-const newSlugs = new Set(newOrgs.map(o => o.slug));
+// Same rules as src/components/orgs/orgDatasets.ts: every allOrgs<YEAR>.json is
+// a program year; "new" means absent from all earlier years, and only the
+// earliest year falls back to its newOrgs<YEAR>.json seed list.
+const dataDir  = join(rootDir, 'src/data');
+const readJson = file => JSON.parse(readFileSync(join(dataDir, file), 'utf-8'));
+const dataFiles = readdirSync(dataDir);
+const yearsOf  = prefix => dataFiles
+    .map(file => file.match(new RegExp(`^${prefix}(\\d{4})\\.json$`))?.[1])
+    .filter(Boolean)
+    .map(Number)
+    .sort((a, b) => b - a);
+
+const years    = yearsOf('allOrgs');
+const year     = years[0];
+const allOrgs  = readJson(`allOrgs${year}.json`);
+const earlierSlugs = new Set(
+    years.slice(1).flatMap(y => readJson(`allOrgs${y}.json`).map(o => o.slug))
+);
+const newSlugs = years.length > 1
+    ? new Set(allOrgs.filter(o => !earlierSlugs.has(o.slug)).map(o => o.slug))
+    : new Set(yearsOf('newOrgs').includes(year) ? readJson(`newOrgs${year}.json`).map(o => o.slug) : []);
+const newOrgs  = allOrgs.filter(o => newSlugs.has(o.slug));
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 function esc(str = '') {
@@ -36,24 +57,46 @@ function esc(str = '') {
         .replace(/"/g, '&quot;');
 }
 
+// Mirrors toOrganizationSchema() in src/components/orgs/orgData.ts
+function organizationSchema(org) {
+    return {
+        '@type': 'Organization',
+        name: org.name,
+        description: org.tagline || org.description,
+        url: org.website_url ?? `https://summerofcode.withgoogle.com/programs/${year}/organizations/${org.slug}`,
+        ...(org.logo_url ? { logo: org.logo_url } : {}),
+    };
+}
+
+// Patches <title>, description, canonical, and OG/Twitter tags of the built index.html
+function patchMeta(html, { title, description, url, shortDescription = description }) {
+    return html
+        .replace(/<title>[^<]*<\/title>/, `<title>${esc(title)}</title>`)
+        .replace(
+            /<meta name="description"\s+content="[^"]*"\s*\/>/,
+            `<meta name="description" content="${esc(description)}" />`
+        )
+        .replace(/<link rel="canonical" href="[^"]*"\s*\/>/, `<link rel="canonical" href="${url}" />`)
+        .replace(/(<meta property="og:url"\s+content=")[^"]*(")/,           `$1${url}$2`)
+        .replace(/(<meta property="og:title"\s+content=")[^"]*(")/,         `$1${esc(title)}$2`)
+        .replace(/(<meta property="og:description"\s+content=")[^"]*(")/,   `$1${esc(shortDescription)}$2`)
+        .replace(/(<meta name="twitter:url"\s+content=")[^"]*(")/,          `$1${url}$2`)
+        .replace(/(<meta name="twitter:title"\s+content=")[^"]*(")/,        `$1${esc(title)}$2`)
+        .replace(/(<meta name="twitter:description"\s+content=")[^"]*(")/,  `$1${esc(shortDescription)}$2`);
+}
+
 // ── Schema.org ItemList ───────────────────────────────────────────────────────
 const itemListSchema = {
     '@context': 'https://schema.org',
     '@type': 'ItemList',
-    name: 'GSoC 2026 Participating Organizations',
-    description: `All ${allOrgs.length} organizations participating in Google Summer of Code 2026, including ${newOrgs.length} new organizations.`,
+    name: `GSoC ${year} Participating Organizations`,
+    description: `All ${allOrgs.length} organizations participating in Google Summer of Code ${year}, including ${newOrgs.length} new organizations.`,
     url: 'https://gsoc.app/orgs',
     numberOfItems: allOrgs.length,
     itemListElement: allOrgs.map((org, idx) => ({
         '@type': 'ListItem',
         position: idx + 1,
-        item: {
-            '@type': 'Organization',
-            name: org.name,
-            description: org.tagline || org.description,
-            url: org.website_url ?? `https://summerofcode.withgoogle.com/programs/2026/organizations/${org.slug}`,
-            ...(org.logo_url ? { logo: org.logo_url } : {}),
-        },
+        item: organizationSchema(org),
     })),
 };
 
@@ -66,7 +109,7 @@ const orgsHtml = allOrgs.map(org => {
 
     return `
   <article itemscope itemtype="https://schema.org/Organization" style="border:1px solid #30363d;border-radius:8px;padding:1rem;margin-bottom:1rem">
-    <h2 itemprop="name" style="margin:0 0 .25rem">${esc(org.name)}${isNew ? ' <span style="color:#3fb950;font-size:.75rem;font-weight:600">[New 2026]</span>' : ''}</h2>
+    <h2 itemprop="name" style="margin:0 0 .25rem"><a href="/orgs/${esc(org.slug)}">${esc(org.name)}</a>${isNew ? ` <span style="color:#3fb950;font-size:.75rem;font-weight:600">[New ${year}]</span>` : ''}</h2>
     ${org.website_url ? `<link itemprop="url" href="${esc(org.website_url)}">` : ''}
     ${blurb          ? `<p  itemprop="description" style="margin:.25rem 0;color:#8b949e">${blurb}</p>` : ''}
     ${techs          ? `<p  style="font-size:.8rem;color:#79c0ff">Tech: ${techs}</p>` : ''}
@@ -81,45 +124,22 @@ const orgsHtml = allOrgs.map(org => {
 }).join('\n');
 
 // ── Patch dist/index.html → dist/orgs/index.html ─────────────────────────────
-let html = readFileSync(join(distDir, 'index.html'), 'utf-8');
-
-// 1. Title
-html = html.replace(
-    /<title>[^<]*<\/title>/,
-    `<title>GSoC 2026 Organizations — ${allOrgs.length} Orgs | gsoc.app</title>`
-);
-
-// 2. Meta description
-html = html.replace(
-    /<meta name="description"\s+content="[^"]*"\s*\/>/,
-    `<meta name="description" content="Browse all ${allOrgs.length} organizations participating in Google Summer of Code 2026, including ${newOrgs.length} new ones. Find ideas lists, tech stacks, and contact information on gsoc.app." />`
-);
+const baseHtml = readFileSync(join(distDir, 'index.html'), 'utf-8');
 
-// 3. Canonical
-html = html.replace(
-    /<link rel="canonical" href="[^"]*"\s*\/>/,
-    '<link rel="canonical" href="https://gsoc.app/orgs" />'
-);
+let html = patchMeta(baseHtml, {
+    title: `GSoC ${year} Organizations — ${allOrgs.length} Orgs | gsoc.app`,
+    description: `Browse all ${allOrgs.length} organizations participating in Google Summer of Code ${year}, including ${newOrgs.length} new ones. Find ideas lists, tech stacks, and contact information on gsoc.app.`,
+    shortDescription: `Browse all ${allOrgs.length} GSoC ${year} organizations including ${newOrgs.length} new ones.`,
+    url: 'https://gsoc.app/orgs',
+});
 
-// 4. OG url + title + description
-html = html
-    .replace(/(<meta property="og:url"\s+content=")[^"]*(")/,    `$1https://gsoc.app/orgs$2`)
-    .replace(/(<meta property="og:title"\s+content=")[^"]*(")/,  `$1GSoC 2026 Organizations — ${allOrgs.length} Orgs | gsoc.app$2`)
-    .replace(/(<meta property="og:description"\s+content=")[^"]*(")/,
-        `$1Browse all ${allOrgs.length} GSoC 2026 organizations including ${newOrgs.length} new ones.$2`)
-    .replace(/(<meta name="twitter:url"\s+content=")[^"]*(")/,   `$1https://gsoc.app/orgs$2`)
-    .replace(/(<meta name="twitter:title"\s+content=")[^"]*(")/,
-        `$1GSoC 2026 Organizations — ${allOrgs.length} Orgs | gsoc.app$2`)
-    .replace(/(<meta name="twitter:description"\s+content=")[^"]*(")/,
-        `$1Browse all ${allOrgs.length} GSoC 2026 organizations including ${newOrgs.length} new ones.$2`);
-
-// 5. Inject ItemList JSON-LD + noscript fallback before </body>
+// Inject ItemList JSON-LD + noscript fallback before </body>
 const injection = `
   <script type="application/ld+json">${JSON.stringify(itemListSchema)}</script>
   <noscript>
     <div style="padding:2rem;max-width:1100px;margin:0 auto;font-family:system-ui,sans-serif;background:#0d1117;color:#c9d1d9">
-      <h1>GSoC 2026 Organizations (${allOrgs.length} total, ${newOrgs.length} new)</h1>
-      <p>Google Summer of Code 2026 participating organizations. Enable JavaScript for the full interactive experience.</p>
+      <h1>GSoC ${year} Organizations (${allOrgs.length} total, ${newOrgs.length} new)</h1>
+      <p>Google Summer of Code ${year} participating organizations. Enable JavaScript for the full interactive experience.</p>
       <hr style="border-color:#30363d">
       ${orgsHtml}
     </div>
@@ -132,3 +152,50 @@ mkdirSync(orgsDir, { recursive: true });
 writeFileSync(join(orgsDir, 'index.html'), html, 'utf-8');
 
 console.log(`✓ Prerendered /orgs → dist/orgs/index.html  (${allOrgs.length} orgs, ${newOrgs.length} new)`);
+
+// ── Per-org detail pages: dist/orgs/<slug>/index.html ─────────────────────────
+for (const org of allOrgs) {
+    const url     = `https://gsoc.app/orgs/${org.slug}`;
+    const title   = `${org.name} — GSoC ${year} Organization | gsoc.app`;
+    const summary = org.tagline || org.description || `${org.name} is participating in Google Summer of Code ${year}.`;
+
+    const schema = {
+        '@context': 'https://schema.org',
+        ...organizationSchema(org),
+        ...(org.source_code ? { sameAs: [org.source_code] } : {}),
+        ...(org.tech_tags?.length ? { knowsAbout: org.tech_tags } : {}),
+    };
+
+    const links = [
+        [org.ideas_link, 'Ideas list'],
+        [org.source_code, 'Source code'],
+        [org.contributor_guidance_url, 'Contributor guide'],
+        [org.website_url, 'Website'],
+    ].filter(([href]) => href).map(([href, label]) => `<a href="${esc(href)}" rel="noopener noreferrer">${label}</a>`).join(' · ');
+
+    const contacts = (org.contact_links || [])
+        .map(link => `<li>${esc(link.name)}: ${esc(link.value)}</li>`)
+        .join('');
+
+    const page = patchMeta(baseHtml, { title, description: summary, url }).replace('</body>', `
+  <script type="application/ld+json">${JSON.stringify(schema)}</script>
+  <noscript>
+    <div style="padding:2rem;max-width:900px;margin:0 auto;font-family:system-ui,sans-serif;background:#0d1117;color:#c9d1d9">
+      <p><a href="/orgs">All GSoC ${year} organizations</a></p>
+      <h1>${esc(org.name)}${newSlugs.has(org.slug) ? ` <span style="color:#3fb950;font-size:.75rem;font-weight:600">[New ${year}]</span>` : ''}</h1>
+      ${org.tagline     ? `<p>${esc(org.tagline)}</p>` : ''}
+      ${org.description ? `<p style="color:#8b949e">${esc(org.description)}</p>` : ''}
+      ${org.tech_tags?.length  ? `<p>Technologies: ${org.tech_tags.map(esc).join(', ')}</p>` : ''}
+      ${org.topic_tags?.length ? `<p>Topics: ${org.topic_tags.map(esc).join(', ')}</p>` : ''}
+      ${contacts ? `<h2>Contact</h2><ul>${contacts}</ul>` : ''}
+      <p>${links}</p>
+    </div>
+  </noscript>
+</body>`);
+
+    const orgDir = join(orgsDir, org.slug);
+    mkdirSync(orgDir, { recursive: true });
+    writeFileSync(join(orgDir, 'index.html'), page, 'utf-8');
+}
+
+console.log(`✓ Prerendered /orgs/:slug → dist/orgs/<slug>/index.html  (${allOrgs.length} pages)`);
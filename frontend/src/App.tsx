@@ -2,25 +2,40 @@ import { ArrowLeft, ArrowRight, Building2, ChevronDown, ChevronUp, Download, Git
 import React, { Suspense } from 'react';
 import { Helmet } from 'react-helmet-async';
 import { NavigateFunction, useLocation, useNavigate } from 'react-router-dom';
-import { ErrorBoundary, Loader, ToastAction, ToastContainer, ToastData, createToast } from './components/common';
+import { BotFilter, ErrorBoundary, Loader, TimeZoneSelect, ToastAction, ToastContainer, ToastData, createToast } from './components/common';
 import { ContributorList, ContributorModal } from './components/contributors';
-import { RepositoryStats } from './components/repository';
+import { OrganizationStats } from './components/organization';
+import { NeedsAttention, RepositoryStats } from './components/repository';
 import { UserAnalytics } from './components/user';
-import { ExportService, GitHubService, StorageService, Theme, ThemeService } from './services';
-import { ContributorStats, RepositoryStats as RepositoryStatsType, TimeFilter, UserProfileStats } from './types';
-import { GitHubUrlParser } from './utils';
+import { ExportService, GitHubService, OrganizationService, ProgressTracker, SettingsService, StorageService, Theme, ThemeService } from './services';
+import { AnalysisProgress, AttentionThresholds, ContributorStats, OrganizationStats as OrganizationStatsType, PullRequest, RepositoryStats as RepositoryStatsType, TimeFilter, UserProfileStats } from './types';
+import { Bots, DateUtils, GitHubUrlParser, ProgramCalendar } from './utils';
 
 // Lazy-loaded: keeps initial bundle lean; org JSON (~500 KB) loads only on demand
 const GsocOrgs = React.lazy(() =>
     import('./components/orgs').then(m => ({ default: m.GsocOrgs }))
 );
+const OrgDetail = React.lazy(() =>
+    import('./components/orgs').then(m => ({ default: m.OrgDetail }))
+);
+
+/** Matches /orgs/:slug detail routes */
+const ORG_DETAIL_PATH = /^\/orgs\/([^/]+)\/?$/;
+
+/**
+ * Extract the org slug from a /orgs/:slug pathname
+ */
+function getOrgSlug(pathname: string): string | null {
+    const match = pathname.match(ORG_DETAIL_PATH);
+    return match ? decodeURIComponent(match[1]) : null;
+}
 
 
 
 interface AppProps {
     /** Provided by AppWithRouter wrapper when React Router is present */
     navigate?: NavigateFunction;
-    /** Current pathname from React Router (e.g. '/', '/orgs') */
+    /** Current pathname from React Router (e.g. '/', '/orgs', '/orgs/:slug') */
     locationPathname?: string;
 }
 
@@ -30,15 +45,25 @@ interface AppProps {
 interface AppState {
     loading: boolean;
     analyzing: boolean;
+    /** Progress of the running analysis, null when idle */
+    progress: AnalysisProgress | null;
     error: string | null;
     repositoryStats: RepositoryStatsType | null;
+    /** Open PRs of the repository regardless of the window; null if unavailable */
+    openPRs: PullRequest[] | null;
     userStats: UserProfileStats | null;
-    analysisType: 'repo' | 'user' | null;
-    previousAnalysis: { type: 'repo' | 'user'; url: string } | null;
+    orgStats: OrganizationStatsType | null;
+    analysisType: 'repo' | 'user' | 'org' | null;
+    previousAnalysis: { type: 'repo' | 'user' | 'org'; url: string } | null;
     branches: string[];
     selectedBranch: string;
     selectedContributor: ContributorStats | null;
     theme: Theme;
+    /** Time zone dates are bucketed and exported in */
+    timeZone: string;
+    attentionThresholds: AttentionThresholds;
+    excludeBots: boolean;
+    botLogins: string[];
     repositoryUrl: string;
     timeFilter: TimeFilter;
     showResults: boolean;
@@ -49,6 +74,8 @@ interface AppState {
     recentSearches: string[];
     highlightedIndex: number;
     showOrgsView: boolean;
+    /** Slug of the org shown on /orgs/:slug, null on other routes */
+    orgSlug: string | null;
 }
 
 const TIME_FILTERS: { value: TimeFilter; label: string }[] = [
@@ -60,28 +87,49 @@ const TIME_FILTERS: { value: TimeFilter; label: string }[] = [
     { value: 'all', label: 'All time' },
 ];
 
+/** Time filter used when none is chosen; omitted from deep links */
+const DEFAULT_TIME_FILTER: TimeFilter = '3m';
+
+/** Select value standing for any custom date range */
+const CUSTOM_RANGE = 'custom';
+
+/** Days a freshly picked custom range covers before it is edited */
+const DEFAULT_CUSTOM_RANGE_DAYS = 30;
+
 /**
  * Main application component with dashboard-style UI
  */
 class App extends React.Component<AppProps, AppState> {
     private themeUnsubscribe: (() => void) | null = null;
+    private settingsUnsubscribe: (() => void) | null = null;
+    /** Last bot-free stats, reused while the inputs stay the same */
+    private botFreeStats: { stats: RepositoryStatsType; botLogins: string[]; result: RepositoryStatsType } | null = null;
+    private botFreeOrgStats: { stats: OrganizationStatsType; botLogins: string[]; result: OrganizationStatsType } | null = null;
+    /** Aborts the running analysis; replaced by every new one */
+    private analysisController: AbortController | null = null;
 
     constructor(props: AppProps) {
         super(props);
         this.state = {
             loading: false,
             analyzing: false,
+            progress: null,
             error: null,
             repositoryStats: null,
+            openPRs: null,
             userStats: null,
+            orgStats: null,
             analysisType: null,
             previousAnalysis: null,
             branches: [],
             selectedBranch: '',
             selectedContributor: null,
             theme: ThemeService.getTheme(),
+            timeZone: SettingsService.getTimeZone(),
+            attentionThresholds: SettingsService.getAttentionThresholds(),
+            ...SettingsService.getBotSettings(),
             repositoryUrl: '',
-            timeFilter: '3m',
+            timeFilter: DEFAULT_TIME_FILTER,
             showResults: false,
             toasts: [],
             githubToken: this.loadGitHubToken(),
@@ -90,18 +138,36 @@ class App extends React.Component<AppProps, AppState> {
             recentSearches: [],
             highlightedIndex: -1,
             // Derive initial orgs view from router location prop (or fallback to pathname)
-            showOrgsView: (props.locationPathname ?? window.location.pathname) === '/orgs',
+            ...App.getOrgsViewState(props.locationPathname ?? window.location.pathname),
         };
     }
 
 
 
+    /**
+     * Orgs view state for a pathname: the directory on /orgs, one org on /orgs/:slug
+     */
+    private static getOrgsViewState(pathname: string): Pick<AppState, 'showOrgsView' | 'orgSlug'> {
+        const orgSlug = getOrgSlug(pathname);
+        return { showOrgsView: pathname === '/orgs' || orgSlug !== null, orgSlug };
+    }
+
     public componentDidMount(): void {
         this.themeUnsubscribe = ThemeService.subscribe((theme) => {
             this.setState({ theme });
         });
+        this.settingsUnsubscribe = SettingsService.subscribe(({ timeZone, attentionThresholds, excludeBots, botLogins }) => {
+            // Keep the same list while its logins don't change, so bot-free stats aren't recomputed
+            const botLoginsChanged = botLogins.join(',') !== this.state.botLogins.join(',');
+            this.setState({
+                timeZone,
+                attentionThresholds,
+                excludeBots,
+                botLogins: botLoginsChanged ? botLogins : this.state.botLogins,
+            });
+        });
 
-        // Popstate handles back/forward for ?user= and ?repo= query-param deep links
+        // Popstate handles back/forward for ?user=, ?repo= and ?org= query-param deep links
         window.addEventListener('popstate', this.handlePopState);
 
         // Auto-fill search box from URL query params (only when not on orgs view)
@@ -113,7 +179,7 @@ class App extends React.Component<AppProps, AppState> {
     public componentDidUpdate(prevProps: AppProps): void {
         // Sync orgs view state when React Router navigates (back/forward buttons)
         if (prevProps.locationPathname !== this.props.locationPathname) {
-            this.setState({ showOrgsView: this.props.locationPathname === '/orgs' });
+            this.setState(App.getOrgsViewState(this.props.locationPathname ?? '/'));
         }
     }
 
@@ -124,19 +190,27 @@ class App extends React.Component<AppProps, AppState> {
         const urlParams = new URLSearchParams(window.location.search);
         const userParam = urlParams.get('user');
         const repoParam = urlParams.get('repo');
+        const orgParam = urlParams.get('org');
+        const timeParam = urlParams.get('time');
+        const timeFilter = timeParam && DateUtils.isTimeFilter(timeParam) ? timeParam : this.state.timeFilter;
 
         if (userParam) {
             // For user URLs, set the username
-            this.setState({ repositoryUrl: userParam }, () => {
+            this.setState({ repositoryUrl: userParam, timeFilter }, () => {
                 // Auto-submit the search
                 this.handleSubmit({ preventDefault: () => { } } as React.FormEvent);
             });
         } else if (repoParam) {
             // For repo URLs, construct the GitHub URL format
-            this.setState({ repositoryUrl: repoParam }, () => {
+            this.setState({ repositoryUrl: repoParam, timeFilter }, () => {
                 // Auto-submit the search
                 this.handleSubmit({ preventDefault: () => { } } as React.FormEvent);
             });
+        } else if (orgParam) {
+            // Organizations use the org: shorthand to avoid being read as a user
+            this.setState({ repositoryUrl: `org:${orgParam}`, timeFilter }, () => {
+                this.handleSubmit({ preventDefault: () => { } } as React.FormEvent);
+            });
         }
     };
 
@@ -144,6 +218,8 @@ class App extends React.Component<AppProps, AppState> {
         if (this.themeUnsubscribe) {
             this.themeUnsubscribe();
         }
+        this.settingsUnsubscribe?.();
+        this.analysisController?.abort();
         window.removeEventListener('popstate', this.handlePopState);
     }
 
@@ -153,7 +229,8 @@ class App extends React.Component<AppProps, AppState> {
      */
     private handlePopState = (event: PopStateEvent): void => {
         if (event.state?.url) {
-            this.setState({ repositoryUrl: event.state.url }, () => {
+            const timeFilter: TimeFilter = event.state.timeFilter ?? this.state.timeFilter;
+            this.setState({ repositoryUrl: event.state.url, timeFilter }, () => {
                 this.handleSubmit({ preventDefault: () => { } } as React.FormEvent);
             });
         } else if (!event.state?.view) {
@@ -161,7 +238,9 @@ class App extends React.Component<AppProps, AppState> {
             this.setState({
                 showResults: false,
                 repositoryStats: null,
+                openPRs: null,
                 userStats: null,
+                orgStats: null,
                 analysisType: null,
                 previousAnalysis: null,
             });
@@ -278,9 +357,31 @@ class App extends React.Component<AppProps, AppState> {
     };
 
     private handleTimeFilterChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+        if (e.target.value === CUSTOM_RANGE) {
+            // Keep a range already being edited
+            if (!DateUtils.parseCustomRange(this.state.timeFilter)) {
+                this.setState({ timeFilter: DateUtils.getRecentRange(DEFAULT_CUSTOM_RANGE_DAYS) });
+            }
+            return;
+        }
         this.setState({ timeFilter: e.target.value as TimeFilter });
     };
 
+    private handleCustomRangeChange = (from: string, to: string): void => {
+        // Date inputs report '' while a date is partially typed
+        if (!from || !to) return;
+        this.setState({ timeFilter: DateUtils.toCustomRange(from, to) });
+    };
+
+    /**
+     * Deep link query string; the time filter is added unless it is the default
+     */
+    private getDeepLink(param: string, value: string): string {
+        const { timeFilter } = this.state;
+        const time = timeFilter === DEFAULT_TIME_FILTER ? '' : `&time=${encodeURIComponent(timeFilter)}`;
+        return `?${param}=${value}${time}`;
+    }
+
     private handleBranchChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
         this.setState({ selectedBranch: e.target.value });
     };
@@ -292,7 +393,18 @@ class App extends React.Component<AppProps, AppState> {
 
         if (!repositoryUrl.trim()) return;
 
-        this.setState({ analyzing: true, error: null, userStats: null, repositoryStats: null });
+        // A new search replaces the running one
+        this.analysisController?.abort();
+        const controller = new AbortController();
+        this.analysisController = controller;
+        const options = {
+            signal: controller.signal,
+            progress: new ProgressTracker(progress => {
+                if (!controller.signal.aborted) this.setState({ progress });
+            }),
+        };
+
+        this.setState({ analyzing: true, progress: null, error: null, userStats: null, repositoryStats: null, openPRs: null, orgStats: null });
 
         try {
             // Detect URL type (user vs repository)
@@ -300,10 +412,11 @@ class App extends React.Component<AppProps, AppState> {
 
             if (urlInfo.type === 'user' && urlInfo.username) {
                 // Fetch user statistics
-                const userStats = await GitHubService.fetchUserStats(urlInfo.username, timeFilter);
+                const userStats = await GitHubService.fetchUserStats(urlInfo.username, timeFilter, options);
+                controller.signal.throwIfAborted();
 
                 // Push to browser history for back button support
-                window.history.pushState({ url: repositoryUrl, type: 'user' }, '', `?user=${urlInfo.username}`);
+                window.history.pushState({ url: repositoryUrl, type: 'user', timeFilter }, '', this.getDeepLink('user', urlInfo.username));
 
                 // Save to recent searches
                 StorageService.addRecentSearch(repositoryUrl.trim());
@@ -314,28 +427,53 @@ class App extends React.Component<AppProps, AppState> {
                     analyzing: false,
                     showResults: true,
                 });
+            } else if (urlInfo.type === 'org' && urlInfo.org) {
+                // Fetch merged statistics across the organization's repositories
+                const orgStats = await OrganizationService.fetchOrganizationStats(urlInfo.org, timeFilter, options);
+                controller.signal.throwIfAborted();
+
+                // Push to browser history for back button support
+                window.history.pushState({ url: repositoryUrl, type: 'org', timeFilter }, '', this.getDeepLink('org', urlInfo.org));
+
+                // Save to recent searches
+                StorageService.addRecentSearch(repositoryUrl.trim());
+
+                this.setState({
+                    orgStats,
+                    analysisType: 'org',
+                    analyzing: false,
+                    showResults: true,
+                });
             } else if (urlInfo.type === 'repo' && urlInfo.owner && urlInfo.repo) {
                 // Fetch repository statistics
-                const branches = await GitHubService.fetchBranches(urlInfo.owner, urlInfo.repo);
-                const stats = await GitHubService.fetchRepositoryStats(repositoryUrl, selectedBranch, timeFilter);
+                const branches = await GitHubService.fetchBranches(urlInfo.owner, urlInfo.repo, options);
+                const stats = await GitHubService.fetchRepositoryStats(repositoryUrl, selectedBranch, timeFilter, options);
+                // Open PRs of any age feed the Needs attention panel; it is left out if they can't be listed
+                const openPRs = await GitHubService.fetchOpenPullRequests(repositoryUrl, selectedBranch, options)
+                    .catch(() => null);
+                controller.signal.throwIfAborted();
 
                 // Push to browser history for back button support
-                window.history.pushState({ url: repositoryUrl, type: 'repo' }, '', `?repo=${urlInfo.owner}/${urlInfo.repo}`);
+                window.history.pushState({ url: repositoryUrl, type: 'repo', timeFilter }, '', this.getDeepLink('repo', `${urlInfo.owner}/${urlInfo.repo}`));
 
                 // Save to recent searches
                 StorageService.addRecentSearch(repositoryUrl.trim());
 
                 this.setState({
                     repositoryStats: stats,
+                    openPRs,
                     branches,
                     analysisType: 'repo',
                     analyzing: false,
                     showResults: true,
                 });
             } else {
-                throw new Error('Invalid GitHub URL. Enter a username (e.g., octocat) or repository (e.g., facebook/react)');
+                throw new Error('Invalid GitHub URL. Enter a username (e.g., octocat), repository (e.g., facebook/react) or organization (e.g., org:52North)');
             }
         } catch (error: any) {
+            // Cancelled, or superseded by a newer search that owns the state now
+            if (controller.signal.aborted) return;
+
             let message = error.message || 'Failed to analyze';
 
             // Improve error messages based on URL type
@@ -345,6 +483,8 @@ class App extends React.Component<AppProps, AppState> {
                     message = `User "${urlInfo.username}" not found on GitHub`;
                 } else if (urlInfo.type === 'repo') {
                     message = `Repository "${urlInfo.owner}/${urlInfo.repo}" not found on GitHub`;
+                } else if (urlInfo.type === 'org') {
+                    message = `Organization "${urlInfo.org}" not found on GitHub`;
                 }
             }
 
@@ -370,9 +510,19 @@ class App extends React.Component<AppProps, AppState> {
             }
 
             this.setState({ error: message, analyzing: false });
+        } finally {
+            if (this.analysisController === controller) {
+                this.analysisController = null;
+            }
         }
     };
 
+    private handleCancelAnalysis = (): void => {
+        this.analysisController?.abort();
+        this.analysisController = null;
+        this.setState({ analyzing: false, progress: null });
+    };
+
     private handleContributorClick = (contributor: ContributorStats): void => {
         this.setState({ selectedContributor: contributor });
     };
@@ -399,6 +549,76 @@ class App extends React.Component<AppProps, AppState> {
         });
     };
 
+    /**
+     * Analyze a single repository (from the organization breakdown)
+     */
+    private handleAnalyzeRepository = (fullName: string): void => {
+        const { repositoryUrl } = this.state;
+
+        this.setState({
+            previousAnalysis: { type: 'org', url: repositoryUrl },
+            repositoryUrl: fullName,
+            selectedBranch: '',
+        }, () => {
+            this.handleSubmit({ preventDefault: () => { } } as React.FormEvent);
+        });
+    };
+
+    /**
+     * Analyze an organization picked from the GSoC directory
+     */
+    private handleAnalyzeOrg = (org: string): void => {
+        if (this.props.navigate) {
+            this.props.navigate('/');
+        }
+
+        this.setState({ showOrgsView: false, orgSlug: null, repositoryUrl: `org:${org}`, previousAnalysis: null }, () => {
+            this.handleSubmit({ preventDefault: () => { } } as React.FormEvent);
+        });
+    };
+
+    /**
+     * Open an org's /orgs/:slug detail page
+     */
+    private handleOpenOrg = (slug: string): void => {
+        if (this.props.navigate) {
+            this.props.navigate(`/orgs/${slug}`);
+        } else {
+            this.setState({ showOrgsView: true, orgSlug: slug });
+        }
+        window.scrollTo(0, 0);
+    };
+
+    /**
+     * Return from an org detail page to the /orgs directory
+     */
+    private handleBackToOrgs = (): void => {
+        if (this.props.navigate) {
+            this.props.navigate('/orgs');
+        } else {
+            this.setState({ showOrgsView: true, orgSlug: null });
+        }
+    };
+
+    /**
+     * Render the back button for the previous analysis, if any
+     */
+    private renderBackButton(): React.ReactNode {
+        const { previousAnalysis } = this.state;
+        if (!previousAnalysis) return null;
+
+        return (
+            <button
+                type="button"
+                className="back-button"
+                onClick={this.handleGoBack}
+            >
+                <ArrowLeft className="w-4 h-4" aria-hidden="true" />
+                {previousAnalysis.type === 'org' ? 'Back to Organization' : 'Back to Repository'}
+            </button>
+        );
+    }
+
     /**
      * Go back to previous analysis
      */
@@ -432,8 +652,169 @@ class App extends React.Component<AppProps, AppState> {
         );
     }
 
+    /**
+     * Time select value: the matching preset (program calendar presets are
+     * custom ranges too), else the custom range option
+     */
+    private getTimeSelectValue(): string {
+        const { timeFilter } = this.state;
+        if (!DateUtils.parseCustomRange(timeFilter)) return timeFilter;
+        return ProgramCalendar.findPreset(timeFilter)?.value ?? CUSTOM_RANGE;
+    }
+
+    /**
+     * Options of the time selects: rolling windows, GSoC calendar presets
+     * per program year, and the custom range option
+     */
+    private renderTimeFilterOptions(): React.ReactNode {
+        return (
+            <>
+                {TIME_FILTERS.map(f => (
+                    <option key={f.value} value={f.value}>{f.label}</option>
+                ))}
+                {ProgramCalendar.getYears().map(year => (
+                    <optgroup key={year} label={`GSoC ${year}`}>
+                        {ProgramCalendar.getPresets(year).map(preset => (
+                            <option key={preset.value} value={preset.value}>{preset.label}</option>
+                        ))}
+                    </optgroup>
+                ))}
+                <option value={CUSTOM_RANGE}>Custom range…</option>
+            </>
+        );
+    }
+
+    /**
+     * From/to date inputs, shown while a custom range is selected
+     */
+    private renderCustomRange(compact: boolean): React.ReactNode {
+        const range = DateUtils.parseCustomRange(this.state.timeFilter);
+        if (!range) return null;
+
+        const today = DateUtils.toDateString(new Date());
+        return (
+            <div className={`date-range-inputs ${compact ? 'compact' : ''}`}>
+                <input
+                    type="date"
+                    className="date-range-input"
+                    value={range.from}
+                    max={range.to}
+                    onChange={e => this.handleCustomRangeChange(e.target.value, range.to)}
+                    aria-label="From date"
+                />
+                <span aria-hidden="true">–</span>
+                <input
+                    type="date"
+                    className="date-range-input"
+                    value={range.to}
+                    min={range.from}
+                    max={today}
+                    onChange={e => this.handleCustomRangeChange(range.from, e.target.value)}
+                    aria-label="To date"
+                />
+            </div>
+        );
+    }
+
+    /**
+     * Repository stats as shown: without bots when they are excluded,
+     * recomputed from the fetched PRs
+     */
+    private getRepositoryStats(): RepositoryStatsType | null {
+        const { repositoryStats: stats, excludeBots, botLogins } = this.state;
+        if (!stats || !excludeBots) {
+            return stats;
+        }
+
+        const cached = this.botFreeStats;
+        if (cached?.stats !== stats || cached.botLogins !== botLogins) {
+            this.botFreeStats = { stats, botLogins, result: GitHubService.excludeBots(stats, botLogins) };
+        }
+        return this.botFreeStats!.result;
+    }
+
+    /**
+     * Organization stats as shown: without bots when they are excluded,
+     * merged again from the kept repository analyses
+     */
+    private getOrganizationStats(): OrganizationStatsType | null {
+        const { orgStats: stats, excludeBots, botLogins } = this.state;
+        if (!stats || !excludeBots) {
+            return stats;
+        }
+
+        const cached = this.botFreeOrgStats;
+        if (cached?.stats !== stats || cached.botLogins !== botLogins) {
+            this.botFreeOrgStats = { stats, botLogins, result: OrganizationService.excludeBots(stats, botLogins) };
+        }
+        return this.botFreeOrgStats!.result;
+    }
+
+    /**
+     * Needs attention panel over every open PR, leaving bots out when they
+     * are excluded
+     */
+    private renderNeedsAttention(): React.ReactNode {
+        const { openPRs, excludeBots, botLogins, attentionThresholds } = this.state;
+        if (!openPRs) {
+            return null;
+        }
+
+        return (
+            <NeedsAttention
+                prs={excludeBots ? openPRs.filter(pr => !Bots.isBotPullRequest(pr, botLogins)) : openPRs}
+                thresholds={attentionThresholds}
+                onThresholdsChange={thresholds => SettingsService.updateSettings({ attentionThresholds: thresholds })}
+            />
+        );
+    }
+
+    private renderBotFilter(): React.ReactNode {
+        const { repositoryStats, orgStats, analysisType, excludeBots, botLogins } = this.state;
+        let botCount = 0;
+        if (analysisType === 'org' && orgStats) {
+            const bots = orgStats.analyzedRepositories.flatMap(stats =>
+                stats.contributors.filter(c => Bots.isBotContributor(c, botLogins)).map(c => c.username.toLowerCase())
+            );
+            botCount = new Set(bots).size;
+        } else if (repositoryStats) {
+            botCount = repositoryStats.contributors.filter(c => Bots.isBotContributor(c, botLogins)).length;
+        }
+
+        return (
+            <BotFilter
+                excludeBots={excludeBots}
+                botLogins={botLogins}
+                botCount={botCount}
+                onChange={changes => SettingsService.updateSettings(changes)}
+            />
+        );
+    }
+
+    private renderTimeZoneSelect(): React.ReactNode {
+        return (
+            <TimeZoneSelect
+                value={this.state.timeZone}
+                onChange={timeZone => SettingsService.updateSettings({ timeZone })}
+            />
+        );
+    }
+
+    private renderAnalyzing(): React.ReactNode {
+        return (
+            <div className="analyzing-state">
+                <Loader
+                    size="md"
+                    message="Fetching repository data..."
+                    progress={this.state.progress}
+                    onCancel={this.handleCancelAnalysis}
+                />
+            </div>
+        );
+    }
+
     private renderHero(): React.ReactNode {
-        const { repositoryUrl, timeFilter, analyzing, error } = this.state;
+        const { repositoryUrl, analyzing, error } = this.state;
 
         return (
             <div className="hero-section">
@@ -460,7 +841,6 @@ class App extends React.Component<AppProps, AppState> {
                             onChange={this.handleUrlChange}
                             onFocus={this.handleSearchInputFocus}
                             onKeyDown={this.handleSearchInputKeyDown}
-                            disabled={analyzing}
                             aria-label="GitHub username or repository URL"
                             autoComplete="off"
                         />
@@ -498,7 +878,6 @@ class App extends React.Component<AppProps, AppState> {
                             className="branch-select"
                             value={this.state.selectedBranch}
                             onChange={this.handleBranchChange}
-                            disabled={analyzing}
                             aria-label="Select branch"
                         >
                             <option value="">All branches</option>
@@ -509,20 +888,18 @@ class App extends React.Component<AppProps, AppState> {
 
                         <select
                             className="time-select"
-                            value={timeFilter}
+                            value={this.getTimeSelectValue()}
                             onChange={this.handleTimeFilterChange}
-                            disabled={analyzing}
                             aria-label="Select time range"
                         >
-                            {TIME_FILTERS.map(f => (
-                                <option key={f.value} value={f.value}>{f.label}</option>
-                            ))}
+                            {this.renderTimeFilterOptions()}
                         </select>
+                        {this.renderCustomRange(false)}
 
                         <button
                             type="submit"
                             className="analyze-btn"
-                            disabled={analyzing || !repositoryUrl.trim()}
+                            disabled={!repositoryUrl.trim()}
                         >
                             {analyzing ? (
                                 <>Analyzing...</>
@@ -598,11 +975,7 @@ class App extends React.Component<AppProps, AppState> {
                 )}
 
                 {/* Loading State */}
-                {analyzing && (
-                    <div className="analyzing-state">
-                        <Loader size="md" message="Fetching repository data..." />
-                    </div>
-                )}
+                {analyzing && this.renderAnalyzing()}
 
                 {/* Quick Stats Cards */}
                 <div className="feature-cards">
@@ -627,7 +1000,9 @@ class App extends React.Component<AppProps, AppState> {
     }
 
     private renderResults(): React.ReactNode {
-        const { repositoryStats, userStats, analysisType, selectedContributor, repositoryUrl, timeFilter, analyzing, error } = this.state;
+        const { userStats, analysisType, selectedContributor, repositoryUrl, analyzing, error } = this.state;
+        const repositoryStats = this.getRepositoryStats();
+        const orgStats = this.getOrganizationStats();
 
         return (
             <div className="results-container">
@@ -641,14 +1016,12 @@ class App extends React.Component<AppProps, AppState> {
                             placeholder="Enter username or repo (e.g., octocat, facebook/react)"
                             value={repositoryUrl}
                             onChange={this.handleUrlChange}
-                            disabled={analyzing}
                         />
                     </div>
                     <select
                         className="branch-select compact"
                         value={this.state.selectedBranch}
                         onChange={this.handleBranchChange}
-                        disabled={analyzing}
                     >
                         <option value="">All branches</option>
                         {this.state.branches.map(branch => (
@@ -657,18 +1030,16 @@ class App extends React.Component<AppProps, AppState> {
                     </select>
                     <select
                         className="time-select compact"
-                        value={timeFilter}
+                        value={this.getTimeSelectValue()}
                         onChange={this.handleTimeFilterChange}
-                        disabled={analyzing}
                     >
-                        {TIME_FILTERS.map(f => (
-                            <option key={f.value} value={f.value}>{f.label}</option>
-                        ))}
+                        {this.renderTimeFilterOptions()}
                     </select>
+                    {this.renderCustomRange(true)}
                     <button
                         type="submit"
                         className="analyze-btn compact"
-                        disabled={analyzing || !repositoryUrl.trim()}
+                        disabled={!repositoryUrl.trim()}
                     >
                         {analyzing ? 'Analyzing...' : 'Analyze'}
                     </button>
@@ -681,15 +1052,19 @@ class App extends React.Component<AppProps, AppState> {
                     </div>
                 )}
 
+                {analyzing && this.renderAnalyzing()}
+
                 {/* Results */}
                 {analysisType === 'repo' && repositoryStats && !analyzing && (
                     <div className="results-content">
+                        {this.state.previousAnalysis?.type === 'org' && this.renderBackButton()}
+
                         {/* Export Buttons */}
                         <div className="export-buttons">
                             <button
                                 type="button"
                                 className="export-btn"
-                                onClick={() => ExportService.exportRepositoryCsv(repositoryStats)}
+                                onClick={() => ExportService.exportRepositoryCsv(repositoryStats, this.state.timeZone)}
                                 title="Download contributor data as CSV"
                             >
                                 <Download className="w-4 h-4" aria-hidden="true" />
@@ -704,9 +1079,12 @@ class App extends React.Component<AppProps, AppState> {
                                 <Download className="w-4 h-4" aria-hidden="true" />
                                 Export JSON
                             </button>
+                            {this.renderTimeZoneSelect()}
+                            {this.renderBotFilter()}
                         </div>
 
-                        <RepositoryStats stats={repositoryStats} />
+                        <RepositoryStats stats={repositoryStats} timeZone={this.state.timeZone} />
+                        {this.renderNeedsAttention()}
                         <ContributorList
                             contributors={repositoryStats.contributors}
                             onContributorClick={this.handleContributorClick}
@@ -718,17 +1096,53 @@ class App extends React.Component<AppProps, AppState> {
                 {analysisType === 'user' && userStats && !analyzing && (
                     <div className="results-content">
                         {/* Back Button */}
-                        {this.state.previousAnalysis && (
+                        {this.renderBackButton()}
+
+                        {/* Export Buttons */}
+                        <div className="export-buttons">
+                            <button
+                                type="button"
+                                className="export-btn"
+                                onClick={() => ExportService.exportUserCsv(userStats, this.state.timeZone)}
+                                title="Download pull requests as CSV"
+                            >
+                                <Download className="w-4 h-4" aria-hidden="true" />
+                                Export CSV
+                            </button>
                             <button
                                 type="button"
-                                className="back-button"
-                                onClick={this.handleGoBack}
+                                className="export-btn"
+                                onClick={() => ExportService.exportUserJson(userStats)}
+                                title="Download full profile as JSON"
                             >
-                                <ArrowLeft className="w-4 h-4" aria-hidden="true" />
-                                Back to Repository
+                                <Download className="w-4 h-4" aria-hidden="true" />
+                                Export JSON
                             </button>
-                        )}
-                        <UserAnalytics userStats={userStats} />
+                            {this.renderTimeZoneSelect()}
+                        </div>
+
+                        <UserAnalytics
+                            userStats={userStats}
+                            timeZone={this.state.timeZone}
+                            onOpenOrg={this.handleOpenOrg}
+                        />
+                    </div>
+                )}
+
+                {/* Organization Results */}
+                {analysisType === 'org' && orgStats && !analyzing && (
+                    <div className="results-content">
+                        <div className="export-buttons">
+                            {this.renderBotFilter()}
+                        </div>
+                        <OrganizationStats
+                            stats={orgStats}
+                            onRepositoryClick={this.handleAnalyzeRepository}
+                        />
+                        <ContributorList
+                            contributors={orgStats.contributors}
+                            onContributorClick={this.handleContributorClick}
+                        />
                     </div>
                 )}
 
@@ -744,7 +1158,7 @@ class App extends React.Component<AppProps, AppState> {
     }
 
     public render(): React.ReactNode {
-        const { loading, showResults, showOrgsView } = this.state;
+        const { loading, showResults, showOrgsView, orgSlug } = this.state;
 
         if (loading) {
             return this.renderLoading();
@@ -762,7 +1176,7 @@ class App extends React.Component<AppProps, AppState> {
                                 // Let React Router drive navigation (updates location prop → componentDidUpdate syncs state)
                                 this.props.navigate(next ? '/orgs' : '/');
                             } else {
-                                this.setState({ showOrgsView: next });
+                                this.setState({ showOrgsView: next, orgSlug: null });
                             }
                         }}
                         title={showOrgsView ? 'Switch to PR Analytics' : 'View GSoC 2026 Organizations'}
@@ -812,7 +1226,19 @@ class App extends React.Component<AppProps, AppState> {
                                         <Loader size="lg" message="Loading organizations..." />
                                     </div>
                                 }>
-                                    <GsocOrgs />
+                                    {orgSlug ? (
+                                        <OrgDetail
+                                            slug={orgSlug}
+                                            onOpenOrg={this.handleOpenOrg}
+                                            onBack={this.handleBackToOrgs}
+                                            onAnalyzeOrg={this.handleAnalyzeOrg}
+                                        />
+                                    ) : (
+                                        <GsocOrgs
+                                            onAnalyzeOrg={this.handleAnalyzeOrg}
+                                            onOpenOrg={this.handleOpenOrg}
+                                        />
+                                    )}
                                 </Suspense>
                             )
                             : (showResults ? this.renderResults() : this.renderHero())
@@ -835,7 +1261,8 @@ class App extends React.Component<AppProps, AppState> {
 function AppWithRouter() {
     const navigate = useNavigate();
     const { pathname } = useLocation();
-    const isOrgs = pathname === '/orgs';
+    // /orgs/:slug pages override these defaults with their own Helmet in OrgDetail
+    const isOrgs = pathname === '/orgs' || getOrgSlug(pathname) !== null;
 
     return (
         <>
@@ -0,0 +1,85 @@
+import { Bot } from 'lucide-react';
+import React from 'react';
+import { UserSettings } from '../../types';
+import { Bots } from '../../utils';
+
+type BotSettings = Pick<UserSettings, 'excludeBots' | 'botLogins'>;
+
+/**
+ * Bot filter props
+ */
+interface BotFilterProps extends BotSettings {
+    /** Bot accounts among the analysis' contributors */
+    botCount: number;
+    onChange: (changes: Partial<BotSettings>) => void;
+}
+
+/**
+ * Bot filter state
+ */
+interface BotFilterState {
+    /** Bot list as typed; saved on blur or Enter */
+    draft: string;
+}
+
+/**
+ * Toggles bot accounts in and out of the stats, with an editable list of
+ * logins GitHub doesn't mark as bots
+ */
+export class BotFilter extends React.Component<BotFilterProps, BotFilterState> {
+    constructor(props: BotFilterProps) {
+        super(props);
+        this.state = {
+            draft: props.botLogins.join(', '),
+        };
+    }
+
+    public componentDidUpdate(prevProps: BotFilterProps): void {
+        if (prevProps.botLogins !== this.props.botLogins) {
+            this.setState({ draft: this.props.botLogins.join(', ') });
+        }
+    }
+
+    private saveDraft = (): void => {
+        const botLogins = Bots.parseLogins(this.state.draft);
+        if (botLogins.join(',') !== this.props.botLogins.join(',')) {
+            this.props.onChange({ botLogins });
+        } else {
+            this.setState({ draft: botLogins.join(', ') });
+        }
+    };
+
+    private handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+        if (e.key === 'Enter') {
+            this.saveDraft();
+        }
+    };
+
+    public render(): React.ReactNode {
+        const { excludeBots, botCount, onChange } = this.props;
+
+        return (
+            <div className="bot-filter">
+                <label className="bot-filter-toggle" title="Leave bot accounts out of contributors, labels and activity">
+                    <input
+                        type="checkbox"
+                        checked={excludeBots}
+                        onChange={() => onChange({ excludeBots: !excludeBots })}
+                    />
+                    <Bot className="w-4 h-4" aria-hidden="true" />
+                    Exclude bots ({botCount})
+                </label>
+                <input
+                    type="text"
+                    className="bot-filter-logins"
+                    value={this.state.draft}
+                    placeholder="More bots, e.g. release-bot"
+                    onChange={e => this.setState({ draft: e.target.value })}
+                    onBlur={this.saveDraft}
+                    onKeyDown={this.handleKeyDown}
+                    aria-label="Extra bot logins, separated by commas"
+                />
+            </div>
+        );
+    }
+}
@@ -2,6 +2,7 @@ import { ArrowUp, Clock, History, Plus, X } from 'lucide-react';
 import React from 'react';
 import { StorageService } from '../../services/StorageService';
 import { TimeFilter } from '../../types';
+import { DateUtils, ProgramCalendar } from '../../utils';
 
 /**
  * Chat input component props
@@ -36,8 +37,14 @@ interface ChatInputState {
     showAutocomplete: boolean;
     recentSearches: string[];
     highlightedIndex: number;
+    /** Custom range being edited (YYYY-MM-DD) */
+    customFrom: string;
+    customTo: string;
 }
 
+/** Days covered by the custom range picker before it is edited */
+const DEFAULT_CUSTOM_RANGE_DAYS = 30;
+
 /**
  * Claude-style chat input field with recent searches autocomplete
  */
@@ -51,9 +58,20 @@ export class ChatInput extends React.Component<ChatInputProps, ChatInputState> {
             showAutocomplete: false,
             recentSearches: [],
             highlightedIndex: -1,
+            ...ChatInput.getCustomRangeState(props.timeFilter),
         };
     }
 
+    /**
+     * Picker bounds for a filter: its own bounds when it is a custom range,
+     * otherwise the last 30 days
+     */
+    private static getCustomRangeState(timeFilter: TimeFilter): Pick<ChatInputState, 'customFrom' | 'customTo'> {
+        const range = DateUtils.parseCustomRange(timeFilter)
+            ?? DateUtils.parseCustomRange(DateUtils.getRecentRange(DEFAULT_CUSTOM_RANGE_DAYS))!;
+        return { customFrom: range.from, customTo: range.to };
+    }
+
     componentDidMount(): void {
         // Load recent searches on mount
         this.loadRecentSearches();
@@ -183,14 +201,28 @@ export class ChatInput extends React.Component<ChatInputProps, ChatInputState> {
         this.setState({ showFilterDropdown: false });
     };
 
+    private applyCustomRange = (): void => {
+        const { customFrom, customTo } = this.state;
+        if (!customFrom || !customTo) return;
+        this.handleFilterSelect(DateUtils.toCustomRange(customFrom, customTo));
+    };
+
     private getFilterLabel = (): string => {
-        const option = TIME_FILTER_OPTIONS.find(o => o.value === this.props.timeFilter);
+        const { timeFilter } = this.props;
+        if (DateUtils.parseCustomRange(timeFilter)) {
+            const preset = ProgramCalendar.findPreset(timeFilter);
+            return preset
+                ? `GSoC ${preset.year}: ${preset.label}`
+                : DateUtils.describeTimeFilter(timeFilter);
+        }
+        const option = TIME_FILTER_OPTIONS.find(o => o.value === timeFilter);
         return option?.label || '1 month';
     };
 
     public render(): React.ReactNode {
         const { value, placeholder, loading, timeFilter } = this.props;
-        const { showFilterDropdown, showAutocomplete, highlightedIndex } = this.state;
+        const { showFilterDropdown, showAutocomplete, highlightedIndex, customFrom, customTo } = this.state;
+        const today = DateUtils.toDateString(new Date());
         const filteredSearches = this.getFilteredSearches();
         const showDropdown = showAutocomplete && filteredSearches.length > 0;
 
@@ -264,6 +296,50 @@ export class ChatInput extends React.Component<ChatInputProps, ChatInputState> {
                                             {option.label}
                                         </button>
                                     ))}
+
+                                    {ProgramCalendar.getYears().map((year) => (
+                                        <div key={year} className="chat-input-filter-group">
+                                            <span className="chat-input-filter-custom-label">GSoC {year}</span>
+                                            {ProgramCalendar.getPresets(year).map((preset) => (
+                                                <button
+                                                    key={preset.value}
+                                                    className={`chat-input-filter-option ${timeFilter === preset.value ? 'active' : ''}`}
+                                                    onClick={() => this.handleFilterSelect(preset.value)}
+                                                    title={DateUtils.describeTimeFilter(preset.value)}
+                                                >
+                                                    {preset.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    ))}
+
+                                    <div className="chat-input-filter-custom">
+                                        <span className="chat-input-filter-custom-label">Custom range</span>
+                                        <input
+                                            type="date"
+                                            className="chat-input-date"
+                                            value={customFrom}
+                                            max={customTo || today}
+                                            onChange={(e) => this.setState({ customFrom: e.target.value })}
+                                            aria-label="From date"
+                                        />
+                                        <input
+                                            type="date"
+                                            className="chat-input-date"
+                                            value={customTo}
+                                            min={customFrom}
+                                            max={today}
+                                            onChange={(e) => this.setState({ customTo: e.target.value })}
+                                            aria-label="To date"
+                                        />
+                                        <button
+                                            className={`chat-input-filter-option ${DateUtils.parseCustomRange(timeFilter) && !ProgramCalendar.findPreset(timeFilter) ? 'active' : ''}`}
+                                            onClick={this.applyCustomRange}
+                                            disabled={!customFrom || !customTo}
+                                        >
+                                            Apply range
+                                        </button>
+                                    </div>
                                 </div>
                             )}
                         </div>
@@ -0,0 +1,56 @@
+import React from 'react';
+import { CycleTimeBreakdown } from '../../types';
+import { CYCLE_STAGES, CYCLE_STAGE_LABELS, DateUtils } from '../../utils';
+
+/**
+ * Cycle time table props
+ */
+interface CycleTimeTableProps {
+    breakdown: CycleTimeBreakdown;
+}
+
+/**
+ * p50/p75/p90 per review cycle stage
+ */
+export class CycleTimeTable extends React.Component<CycleTimeTableProps> {
+    /**
+     * True when at least one PR reached a first review
+     */
+    public static hasData(breakdown: CycleTimeBreakdown): boolean {
+        return CYCLE_STAGES.some(stage => breakdown[stage].count > 0);
+    }
+
+    public render(): React.ReactNode {
+        const { breakdown } = this.props;
+        const format = (hours: number, count: number) =>
+            count > 0 ? DateUtils.formatDuration(hours) : '—';
+
+        return (
+            <table className="cycle-time-table">
+                <thead>
+                    <tr>
+                        <th scope="col">Stage</th>
+                        <th scope="col">PRs</th>
+                        <th scope="col">p50</th>
+                        <th scope="col">p75</th>
+                        <th scope="col">p90</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {CYCLE_STAGES.map(stage => {
+                        const { count, p50, p75, p90 } = breakdown[stage];
+                        return (
+                            <tr key={stage}>
+                                <th scope="row">{CYCLE_STAGE_LABELS[stage]}</th>
+                                <td>{count}</td>
+                                <td>{format(p50, count)}</td>
+                                <td>{format(p75, count)}</td>
+                                <td>{format(p90, count)}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        );
+    }
+}
@@ -1,4 +1,5 @@
 import React from 'react';
+import { AnalysisProgress } from '../../types';
 
 /**
  * Loader component props
@@ -6,6 +7,10 @@ import React from 'react';
 interface LoaderProps {
     size?: 'sm' | 'md' | 'lg';
     message?: string;
+    /** Running analysis progress, shown under the message */
+    progress?: AnalysisProgress | null;
+    /** Shows a cancel button when provided */
+    onCancel?: () => void;
 }
 
 /**
@@ -29,11 +34,25 @@ export class Loader extends React.Component<LoaderProps> {
         return sizes[size];
     }
 
+    /**
+     * Progress summary, e.g. "4 requests · 350 PRs · 4,812 requests left"
+     */
+    private describeProgress(progress: AnalysisProgress): string {
+        const parts = [
+            `${progress.pagesFetched} request${progress.pagesFetched !== 1 ? 's' : ''}`,
+            `${progress.prsFetched.toLocaleString()} PR${progress.prsFetched !== 1 ? 's' : ''}`,
+        ];
+        if (progress.rateLimitRemaining !== null) {
+            parts.push(`${progress.rateLimitRemaining.toLocaleString()} requests left`);
+        }
+        return parts.join(' · ');
+    }
+
     /**
      * Render loader
      */
     public render(): React.ReactNode {
-        const { message } = this.props;
+        const { message, progress, onCancel } = this.props;
 
         return (
             <div className="flex flex-col items-center justify-center gap-4">
@@ -43,6 +62,16 @@ export class Loader extends React.Component<LoaderProps> {
                 {message && (
                     <p className="text-gray-400 text-sm">{message}</p>
                 )}
+                {progress && progress.pagesFetched > 0 && (
+                    <p className="text-gray-500 text-xs tabular-nums" aria-live="polite">
+                        {this.describeProgress(progress)}
+                    </p>
+                )}
+                {onCancel && (
+                    <button type="button" className="btn btn-secondary" onClick={onCancel}>
+                        Cancel
+                    </button>
+                )}
             </div>
         );
     }
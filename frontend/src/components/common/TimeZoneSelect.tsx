@@ -0,0 +1,55 @@
+import { Globe } from 'lucide-react';
+import React from 'react';
+import { DateUtils } from '../../utils';
+
+/**
+ * Time zone select props
+ */
+interface TimeZoneSelectProps {
+    /** Selected IANA time zone */
+    value: string;
+    onChange: (timeZone: string) => void;
+}
+
+/**
+ * Picks the time zone dates are bucketed and exported in
+ */
+export class TimeZoneSelect extends React.Component<TimeZoneSelectProps> {
+    private static zones: string[] | null = null;
+
+    /**
+     * UTC and the local zone first, then every other zone; listed once
+     */
+    private static getZones(): string[] {
+        if (!TimeZoneSelect.zones) {
+            const local = DateUtils.getLocalTimeZone();
+            const zones = DateUtils.getTimeZones().filter(zone => zone !== 'UTC' && zone !== local);
+            TimeZoneSelect.zones = local === 'UTC' ? ['UTC', ...zones] : ['UTC', local, ...zones];
+        }
+        return TimeZoneSelect.zones;
+    }
+
+    public render(): React.ReactNode {
+        const { value, onChange } = this.props;
+        const local = DateUtils.getLocalTimeZone();
+        const zones = TimeZoneSelect.getZones();
+
+        return (
+            <label className="timezone-select" title="Time zone used for daily counts and exports">
+                <Globe className="w-4 h-4" aria-hidden="true" />
+                <select
+                    value={value}
+                    onChange={e => onChange(e.target.value)}
+                    aria-label="Time zone"
+                >
+                    {!zones.includes(value) && <option value={value}>{value}</option>}
+                    {zones.map(zone => (
+                        <option key={zone} value={zone}>
+                            {zone === local && zone !== 'UTC' ? `${zone} (local)` : zone}
+                        </option>
+                    ))}
+                </select>
+            </label>
+        );
+    }
+}
@@ -1,9 +1,12 @@
+export { BotFilter } from "./BotFilter";
 export { Button } from "./Button";
 export { Card } from "./Card";
 export { ChatInput } from "./ChatInput";
+export { CycleTimeTable } from "./CycleTimeTable";
 export { ErrorBoundary } from "./ErrorBoundary";
 export { Loader, PageLoader } from "./Loader";
 export { Modal } from "./Modal";
+export { TimeZoneSelect } from "./TimeZoneSelect";
 export { Toast, ToastContainer, createToast } from "./Toast";
 export type { ToastAction, ToastData, ToastType } from "./Toast";
 export { WelcomeGreeting } from "./WelcomeGreeting";
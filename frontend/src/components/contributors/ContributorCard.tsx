@@ -1,4 +1,4 @@
-import { Crown, GitMerge, GitPullRequest } from 'lucide-react';
+import { Bot, Crown, GitMerge, GitPullRequest, Sparkles } from 'lucide-react';
 import React from 'react';
 import { ContributorStats } from '../../types';
 import { Card } from '../common/Card';
@@ -48,11 +48,29 @@ export class ContributorCard extends React.Component<ContributorCardProps> {
                                 {contributor.username}
                             </h3>
                             {contributor.isMaintainer && (
-                                <span className="badge badge-maintainer">
+                                <span
+                                    className={`badge badge-maintainer ${contributor.maintainerEvidence?.confidence ?? ''}`}
+                                    title={contributor.maintainerEvidence?.reason}
+                                >
                                     <Crown className="w-3 h-3" aria-hidden="true" />
                                     Maintainer
                                 </span>
                             )}
+                            {contributor.isBot && (
+                                <span className="badge badge-bot">
+                                    <Bot className="w-3 h-3" aria-hidden="true" />
+                                    Bot
+                                </span>
+                            )}
+                            {contributor.isFirstTimer && (
+                                <span
+                                    className="badge badge-first-timer"
+                                    title={`First PR to this repository opened ${new Date(contributor.firstPRAt).toLocaleDateString()}`}
+                                >
+                                    <Sparkles className="w-3 h-3" aria-hidden="true" />
+                                    First-timer
+                                </span>
+                            )}
                         </div>
 
                         {/* Stats */}
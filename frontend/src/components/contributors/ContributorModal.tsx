@@ -1,8 +1,8 @@
-import { Crown, ExternalLink, GitMerge, GitPullRequest, User } from 'lucide-react';
+import { Crown, ExternalLink, GitMerge, GitPullRequest, Timer, User } from 'lucide-react';
 import React from 'react';
 import { GitHubService } from '../../services';
 import { ContributorStats, PullRequest } from '../../types';
-import { Loader } from '../common';
+import { CycleTimeTable, Loader } from '../common';
 import { Modal } from '../common/Modal';
 
 /**
@@ -296,12 +296,22 @@ export class ContributorModal extends React.Component<ContributorModalProps, Con
                         <div className="modal-contributor-name-row">
                             <h2 className="modal-contributor-name">{contributor.username}</h2>
                             {contributor.isMaintainer && (
-                                <span className="badge badge-maintainer">
+                                <span
+                                    className={`badge badge-maintainer ${contributor.maintainerEvidence?.confidence ?? ''}`}
+                                    title={contributor.maintainerEvidence?.reason}
+                                >
                                     <Crown className="w-3 h-3" aria-hidden="true" />
                                     Maintainer
                                 </span>
                             )}
                         </div>
+                        {contributor.maintainerEvidence && (
+                            <p className="modal-maintainer-reason">
+                                {contributor.maintainerEvidence.confidence === 'high' ? 'Likely maintainer' : 'Possible maintainer'}
+                                {': '}
+                                {contributor.maintainerEvidence.reason}
+                            </p>
+                        )}
                         <div className="modal-actions">
                             <a
                                 href={`https://github.com/${contributor.username}`}
@@ -352,6 +362,17 @@ export class ContributorModal extends React.Component<ContributorModalProps, Con
                     <p className="modal-merge-rate-value">{mergeRate}%</p>
                 </div>
 
+                {/* Cycle Time */}
+                {contributor.cycleTime && CycleTimeTable.hasData(contributor.cycleTime) && (
+                    <div className="modal-cycle-time">
+                        <div className="modal-merge-rate-header">
+                            <Timer className="w-5 h-5" aria-hidden="true" />
+                            <span>Cycle Time</span>
+                        </div>
+                        <CycleTimeTable breakdown={contributor.cycleTime} />
+                    </div>
+                )}
+
                 {/* PR List Section */}
                 <div className="pr-list-section">
                     <div className="pr-list-header">
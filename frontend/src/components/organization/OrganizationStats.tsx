@@ -0,0 +1,162 @@
+import { Clock, FolderGit2, GitMerge, GitPullRequest, Star, Users } from 'lucide-react';
+import React from 'react';
+import { OrganizationStats as OrganizationStatsType } from '../../types';
+import { DateUtils } from '../../utils';
+import { Card } from '../common/Card';
+
+/**
+ * Organization stats component props
+ */
+interface OrganizationStatsProps {
+    stats: OrganizationStatsType;
+    /** Called with `owner/repo` when a breakdown row is clicked */
+    onRepositoryClick?: (fullName: string) => void;
+}
+
+/**
+ * Organization-wide statistics: merged totals and a per-repository breakdown
+ */
+export class OrganizationStats extends React.Component<OrganizationStatsProps> {
+    /**
+     * Render stat card
+     */
+    private renderStatCard(
+        icon: React.ReactNode,
+        label: string,
+        value: number | string,
+        color: string
+    ): React.ReactNode {
+        return (
+            <div className="repo-stat-card">
+                <div className={`repo-stat-icon ${color}`} aria-hidden="true">
+                    {icon}
+                </div>
+                <div className="repo-stat-content">
+                    <p className="repo-stat-value">{value}</p>
+                    <p className="repo-stat-label">{label}</p>
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Render the per-repository breakdown table
+     */
+    private renderBreakdown(): React.ReactNode {
+        const { stats, onRepositoryClick } = this.props;
+
+        return (
+            <div className="org-breakdown">
+                <h3 className="section-title">
+                    <FolderGit2 className="w-5 h-5" aria-hidden="true" />
+                    Repositories
+                </h3>
+                <table className="org-breakdown-table">
+                    <thead>
+                        <tr>
+                            <th scope="col">Repository</th>
+                            <th scope="col">PRs</th>
+                            <th scope="col">Merged</th>
+                            <th scope="col">Open</th>
+                            <th scope="col">Contributors</th>
+                            <th scope="col">Stars</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {stats.repositories.map(repo => (
+                            <tr key={repo.fullName}>
+                                <td>
+                                    <button
+                                        type="button"
+                                        className="org-breakdown-repo"
+                                        onClick={() => onRepositoryClick?.(repo.fullName)}
+                                        disabled={!onRepositoryClick}
+                                        title={`Analyze ${repo.fullName}`}
+                                    >
+                                        {repo.fullName.split('/')[1]}
+                                    </button>
+                                </td>
+                                <td>{repo.totalPRs}</td>
+                                <td>{repo.mergedPRs}</td>
+                                <td>{repo.openPRs}</td>
+                                <td>{repo.contributors}</td>
+                                <td>
+                                    <span className="org-breakdown-stars">
+                                        <Star className="w-3 h-3" aria-hidden="true" />
+                                        {repo.stars}
+                                    </span>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {stats.skippedRepositories.length > 0 && (
+                    <p className="org-breakdown-note">
+                        Skipped to stay within the rate limit: {stats.skippedRepositories
+                            .map(name => name.split('/')[1])
+                            .join(', ')}
+                    </p>
+                )}
+            </div>
+        );
+    }
+
+    /**
+     * Render component
+     */
+    public render(): React.ReactNode {
+        const { stats } = this.props;
+
+        const mergedCount = stats.repositories.reduce((sum, r) => sum + r.mergedPRs, 0);
+
+        return (
+            <Card className="animate-in">
+                <div className="repo-stats-header">
+                    <div>
+                        <h2 className="repo-stats-title">{stats.org}</h2>
+                        <p className="repo-stats-subtitle">
+                            {stats.repositories.length} repositories • {DateUtils.describeTimeFilter(stats.timeFilter)}
+                            {' '}• {stats.requestsUsed} API requests
+                        </p>
+                    </div>
+                </div>
+
+                <div className="repo-stats-grid">
+                    {this.renderStatCard(
+                        <GitPullRequest className="w-5 h-5" />,
+                        'Total PRs',
+                        stats.totalPRs,
+                        'bg-primary'
+                    )}
+                    {this.renderStatCard(
+                        <GitMerge className="w-5 h-5" />,
+                        'Merged',
+                        mergedCount,
+                        'bg-merged'
+                    )}
+                    {this.renderStatCard(
+                        <Users className="w-5 h-5" />,
+                        'Contributors',
+                        stats.contributors.length,
+                        'bg-open'
+                    )}
+                    {this.renderStatCard(
+                        <Clock className="w-5 h-5" />,
+                        'Avg. time to merge',
+                        stats.reviewStats.avgTimeToMerge > 0
+                            ? DateUtils.formatDuration(stats.reviewStats.avgTimeToMerge)
+                            : '—',
+                        'bg-labels'
+                    )}
+                </div>
+
+                {stats.repositories.length > 0 ? this.renderBreakdown() : (
+                    <p className="org-breakdown-note">
+                        No repositories with pull requests in this period
+                    </p>
+                )}
+            </Card>
+        );
+    }
+}
@@ -0,0 +1 @@
+export { OrganizationStats } from "./OrganizationStats";
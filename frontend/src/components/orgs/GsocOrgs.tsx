@@ -1,152 +1,473 @@
 import {
+    Activity,
+    BarChart3,
     BookOpen,
     Building2,
     Code2,
+    Filter,
     ExternalLink,
     FileText,
-    Hash,
+    GitCompare,
     Lightbulb,
-    Link,
-    LucideIcon,
-    Mail,
-    MessageSquare,
-    Rss,
+    Loader2,
     Search,
-    Send,
-    Twitter,
+    X,
 } from 'lucide-react';
 import React from 'react';
 import { Helmet } from 'react-helmet-async';
-import allOrgsData from '../../data/allOrgs2026.json';
-import newOrgsData from '../../data/newOrgs2026.json';
+import { PAGINATION_CONFIG } from '../../constants';
+import { ComparisonLimitError, OrganizationService, StorageService } from '../../services';
+import { OrganizationHealth } from '../../types';
+import { DateUtils } from '../../utils';
+import {
+    OrgData,
+    contactHref,
+    findOrgBySlug,
+    getContactMeta,
+    getGitHubOrg,
+    handleLogoError,
+    hasGitHubSource,
+    toOrganizationSchema,
+} from './orgData';
+import {
+    AVAILABLE_YEARS,
+    LATEST_YEAR,
+    OrgYearDataset,
+    getOrgDataset,
+    getParticipationHistory,
+} from './orgDatasets';
+import {
+    EMPTY_FILTERS,
+    FACETS,
+    FacetKey,
+    FacetMode,
+    OrgFilters,
+    OrgTab,
+    filterOrgs,
+    getAvailableTabs,
+    getFacetCounts,
+    getTabSource,
+    hasActiveFacets,
+    parseOrgFilters,
+    serializeOrgFilters,
+} from './orgFilters';
+import { OrgComparison } from './OrgComparison';
+import { normalizeToken, searchOrgs } from './orgSearch';
 
-interface ContactLink {
-    name: string;
-    value: string;
-}
+/** Facet values shown before "Show all" */
+const FACET_PREVIEW_SIZE = 12;
 
-interface OrgData {
-    name: string;
-    slug: string;
-    logo_url?: string;
-    tagline?: string;
-    description?: string;
-    website_url?: string;
-    ideas_link?: string;
-    contributor_guidance_url?: string;
-    source_code?: string;
-    license?: string;
-    categories?: string[];
-    tech_tags?: string[];
-    topic_tags?: string[];
-    contact_links?: ContactLink[];
-}
+/** Splits text into alternating separator / token chunks (tokens at odd indexes) */
+const TOKEN_SPLIT_PATTERN = /([\p{L}\p{N}+#]+)/u;
 
-type OrgTab = 'all' | 'new';
+/**
+ * Wrap words whose normalized form is a matched search term in <mark>
+ */
+function highlight(text: string, terms: Set<string> | undefined): React.ReactNode {
+    if (!terms || terms.size === 0) return text;
 
-interface GsocOrgsState {
-    activeTab: OrgTab;
-    searchQuery: string;
+    return text.split(TOKEN_SPLIT_PATTERN).map((chunk, idx) =>
+        idx % 2 === 1 && terms.has(normalizeToken(chunk))
+            ? <mark key={idx} className="org-search-hit">{chunk}</mark>
+            : chunk
+    );
 }
 
-const allOrgs = allOrgsData as OrgData[];
-const newOrgs = newOrgsData as OrgData[];
-const newOrgSlugs = new Set(newOrgs.map(o => o.slug));
-
-// Map contact link name → { label, Icon }
-const CONTACT_META: Record<string, { label: string; Icon: LucideIcon }> = {
-    email:        { label: 'Email',        Icon: Mail },
-    mailingList:  { label: 'Mailing List', Icon: Mail },
-    mailing_list: { label: 'Mailing List', Icon: Mail },
-    chat:         { label: 'Chat',         Icon: MessageSquare },
-    slack:        { label: 'Slack',        Icon: MessageSquare },
-    gitter:       { label: 'Gitter',       Icon: MessageSquare },
-    discord:      { label: 'Discord',      Icon: MessageSquare },
-    irc:          { label: 'IRC',          Icon: Hash },
-    telegram:     { label: 'Telegram',     Icon: Send },
-    twitter:      { label: 'Twitter',      Icon: Twitter },
-    blog:         { label: 'Blog',         Icon: Rss },
-};
-
-function getContactMeta(name: string): { label: string; Icon: LucideIcon } {
-    return CONTACT_META[name] ?? { label: name, Icon: Link };
+/**
+ * Tags containing a matched term first, so hits survive the card's tag cut-off
+ */
+function matchedFirst(tags: string[], terms: Set<string> | undefined): string[] {
+    if (!terms || terms.size === 0) return tags;
+    const hasHit = (tag: string) => tag.split(TOKEN_SPLIT_PATTERN).some(
+        (chunk, idx) => idx % 2 === 1 && terms.has(normalizeToken(chunk))
+    );
+    return [...tags.filter(hasHit), ...tags.filter(tag => !hasHit(tag))];
 }
 
-function contactHref(link: ContactLink): string {
-    const v = link.value.trim();
-    if (!v.startsWith('http') && v.includes('@')) return `mailto:${v}`;
-    return v;
+/**
+ * Tab label and org count for a year's dataset
+ */
+function describeTab(tab: OrgTab, dataset: OrgYearDataset): { label: string; count: number } {
+    switch (tab) {
+        case 'all':
+            return { label: 'All Organizations', count: dataset.orgs.length };
+        case 'new':
+            return { label: 'New This Year', count: dataset.newSlugs.size };
+        case 'returning':
+            return { label: 'Returning', count: dataset.returningSlugs.size };
+        case 'dropped':
+            return { label: `Not Back From ${dataset.previousYear}`, count: dataset.dropped.length };
+    }
+}
+
+interface GsocOrgsProps {
+    /** Opens the organization-wide dashboard for a GitHub account */
+    onAnalyzeOrg?: (githubOrg: string) => void;
+    /** Opens an org's /orgs/:slug detail page (client-side) */
+    onOpenOrg?: (slug: string) => void;
 }
 
-function handleLogoError(e: React.SyntheticEvent<HTMLImageElement>) {
-    const img = e.currentTarget;
-    img.style.display = 'none';
-    const fallback = img.nextElementSibling as HTMLElement | null;
-    if (fallback) fallback.style.display = 'flex';
+/** Health summary lifecycle for one org card */
+type HealthEntry =
+    | { status: 'loading' }
+    | { status: 'ready'; data: OrganizationHealth }
+    | { status: 'error'; message: string };
+
+interface GsocOrgsState {
+    /** Year, tab, search query and facet selection; mirrored in the URL query string */
+    filters: OrgFilters;
+    /** Facets whose full value list is expanded */
+    expandedFacets: FacetKey[];
+    /** Health summaries keyed by org slug */
+    health: Record<string, HealthEntry>;
+    /** Slugs selected for comparison; persisted via StorageService */
+    compared: string[];
 }
 
-export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
-    constructor(props: {}) {
+export class GsocOrgs extends React.Component<GsocOrgsProps, GsocOrgsState> {
+    constructor(props: GsocOrgsProps) {
         super(props);
-        this.state = { activeTab: 'all', searchQuery: '' };
+        this.state = {
+            filters: parseOrgFilters(window.location.search),
+            expandedFacets: [],
+            health: {},
+            compared: StorageService.getComparedOrgs(),
+        };
+    }
+
+    /**
+     * Apply new filters and mirror them in the URL so the view can be shared.
+     * replaceState keeps React Router's history entry intact.
+     */
+    private updateFilters(changes: Partial<OrgFilters>): void {
+        this.setState(prev => ({ filters: { ...prev.filters, ...changes } }), () => {
+            const search = serializeOrgFilters(this.state.filters);
+            if (search !== window.location.search) {
+                window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}`);
+            }
+        });
+    }
+
+    private toggleFacetValue(facet: FacetKey, value: string): void {
+        const selected = this.state.filters.facets[facet];
+        const next = selected.includes(value)
+            ? selected.filter(v => v !== value)
+            : [...selected, value];
+        this.updateFilters({ facets: { ...this.state.filters.facets, [facet]: next } });
+    }
+
+    private handleModeChange = (mode: FacetMode): void => {
+        this.updateFilters({ mode });
+    };
+
+    private clearFilters = (): void => {
+        const { year, tab } = this.state.filters;
+        this.updateFilters({ ...EMPTY_FILTERS, year, tab });
+    };
+
+    /**
+     * Switch program year, keeping the tab when the new year can compute it
+     */
+    private handleYearChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+        const year = Number(e.target.value);
+        const tabs = getAvailableTabs(getOrgDataset(year));
+        const tab = tabs.includes(this.state.filters.tab) ? this.state.filters.tab : 'all';
+        this.updateFilters({ year, tab });
+    };
+
+    /**
+     * Add an org to the comparison, or remove it if already selected
+     */
+    private toggleCompared(slug: string): void {
+        if (this.state.compared.includes(slug)) {
+            this.setState({ compared: StorageService.removeComparedOrg(slug) });
+            return;
+        }
+
+        try {
+            this.setState({ compared: StorageService.addComparedOrg(slug) });
+        } catch (error) {
+            // The compare buttons are disabled once the selection is full
+            if (!(error instanceof ComparisonLimitError)) throw error;
+        }
+    }
+
+    private handleRemoveCompared = (slug: string): void => {
+        this.setState({ compared: StorageService.removeComparedOrg(slug) });
+    };
+
+    private clearComparison = (): void => {
+        StorageService.clearComparedOrgs();
+        this.setState({ compared: [] });
+    };
+
+    /**
+     * Render the comparison table for the selected orgs
+     */
+    private renderComparison(): React.ReactNode {
+        const { compared, health } = this.state;
+        // Slugs from older datasets may no longer resolve
+        const orgs = compared
+            .map(slug => findOrgBySlug(slug))
+            .filter((org): org is OrgData => org !== null);
+
+        const ready: Record<string, OrganizationHealth> = {};
+        const loading: string[] = [];
+        for (const [slug, entry] of Object.entries(health)) {
+            if (entry.status === 'ready') ready[slug] = entry.data;
+            if (entry.status === 'loading') loading.push(slug);
+        }
+
+        return (
+            <OrgComparison
+                orgs={orgs}
+                health={ready}
+                loading={loading}
+                onRemove={this.handleRemoveCompared}
+                onClear={this.clearComparison}
+                onAnalyzeActivity={this.handleAnalyzeActivity}
+                onOpenOrg={this.props.onOpenOrg}
+            />
+        );
+    }
+
+    private toggleFacetExpanded(facet: FacetKey): void {
+        this.setState(prev => ({
+            expandedFacets: prev.expandedFacets.includes(facet)
+                ? prev.expandedFacets.filter(f => f !== facet)
+                : [...prev.expandedFacets, facet],
+        }));
+    }
+
+    /**
+     * Load the activity summary for one org card
+     */
+    private handleAnalyzeActivity = async (org: OrgData): Promise<void> => {
+        if (!org.source_code) return;
+
+        this.setHealth(org.slug, { status: 'loading' });
+        try {
+            const data = await OrganizationService.fetchOrganizationHealth(org.source_code);
+            this.setHealth(org.slug, { status: 'ready', data });
+        } catch (error: any) {
+            const message = error?.message?.toLowerCase().includes('rate limit')
+                ? 'Rate limit reached, try again later'
+                : 'Could not load activity';
+            this.setHealth(org.slug, { status: 'error', message });
+        }
+    };
+
+    private setHealth(slug: string, entry: HealthEntry): void {
+        this.setState(prev => ({ health: { ...prev.health, [slug]: entry } }));
+    }
+
+    /**
+     * Render the health summary (or its loading/error state) for an org card
+     */
+    private renderHealth(org: OrgData): React.ReactNode {
+        const entry = this.state.health[org.slug];
+        if (!entry) return null;
+
+        if (entry.status === 'loading') {
+            return (
+                <div className="org-health loading" aria-live="polite">
+                    <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />
+                    Analyzing recent activity…
+                </div>
+            );
+        }
+
+        if (entry.status === 'error') {
+            return (
+                <div className="org-health error" role="alert">
+                    {entry.message}
+                </div>
+            );
+        }
+
+        const { data } = entry;
+        return (
+            <div className="org-health" aria-label="Activity in the last 3 months">
+                <div className="org-health-item">
+                    <span className="org-health-value">{data.mergedPRs}</span>
+                    <span className="org-health-label">PRs merged</span>
+                </div>
+                <div className="org-health-item">
+                    <span className="org-health-value">{data.activeContributors}</span>
+                    <span className="org-health-label">Contributors</span>
+                </div>
+                <div className="org-health-item">
+                    <span className="org-health-value">
+                        {data.medianTimeToMerge > 0 ? DateUtils.formatDuration(data.medianTimeToMerge) : '—'}
+                    </span>
+                    <span className="org-health-label">Median merge</span>
+                </div>
+                <span className="org-health-note">
+                    Last 3 months · {data.repositories} repo{data.repositories !== 1 ? 's' : ''}
+                </span>
+            </div>
+        );
     }
 
     private handleTabChange = (tab: OrgTab): void => {
-        this.setState({ activeTab: tab, searchQuery: '' });
+        this.updateFilters({ tab, query: '' });
     };
 
     private handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-        this.setState({ searchQuery: e.target.value });
+        this.updateFilters({ query: e.target.value });
     };
 
-    private getFilteredOrgs(): OrgData[] {
-        const { activeTab, searchQuery } = this.state;
-        const base = activeTab === 'new' ? newOrgs : allOrgs;
-        if (!searchQuery.trim()) return base;
-        const q = searchQuery.toLowerCase();
-        return base.filter(org =>
-            org.name.toLowerCase().includes(q) ||
-            org.tagline?.toLowerCase().includes(q) ||
-            org.description?.toLowerCase().includes(q) ||
-            org.categories?.some(c => c.toLowerCase().includes(q)) ||
-            org.tech_tags?.some(t => t.toLowerCase().includes(q)) ||
-            org.topic_tags?.some(t => t.toLowerCase().includes(q))
+    /**
+     * Render the facet panel: AND/OR toggle plus one group per facet
+     */
+    private renderFacets(): React.ReactNode {
+        const { filters, expandedFacets } = this.state;
+        const active = hasActiveFacets(filters);
+
+        return (
+            <div className="org-facets" aria-label="Filter organizations">
+                <div className="org-facets-toolbar">
+                    <span className="org-facets-title">
+                        <Filter className="w-4 h-4" aria-hidden="true" />
+                        Filters
+                    </span>
+                    <div className="org-facet-mode" role="group" aria-label="Combine values within a filter">
+                        {(['and', 'or'] as FacetMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                type="button"
+                                className={`org-facet-mode-btn ${filters.mode === mode ? 'active' : ''}`}
+                                onClick={() => this.handleModeChange(mode)}
+                                aria-pressed={filters.mode === mode}
+                                title={mode === 'and' ? 'Orgs must have every value selected in a filter' : 'Orgs may have any value selected in a filter'}
+                            >
+                                {mode === 'and' ? 'Match all' : 'Match any'}
+                            </button>
+                        ))}
+                    </div>
+                    {active && (
+                        <button type="button" className="org-facets-clear" onClick={this.clearFilters}>
+                            <X className="w-3 h-3" aria-hidden="true" />
+                            Clear filters
+                        </button>
+                    )}
+                </div>
+
+                {FACETS.map(({ key, label }) => {
+                    const counts = getFacetCounts(filters, key);
+                    const selected = filters.facets[key];
+                    const expanded = expandedFacets.includes(key);
+                    // Selected values always stay visible, even past the preview cut-off
+                    const visible = expanded
+                        ? counts
+                        : counts.filter((c, idx) => idx < FACET_PREVIEW_SIZE || selected.includes(c.value));
+
+                    return (
+                        <details key={key} className="org-facet" open={selected.length > 0 || key === 'category'}>
+                            <summary className="org-facet-summary">
+                                {label}
+                                {selected.length > 0 && (
+                                    <span className="org-facet-selected-count">{selected.length}</span>
+                                )}
+                            </summary>
+                            <div className="org-facet-values">
+                                {visible.map(({ value, count }) => {
+                                    const isSelected = selected.includes(value);
+                                    return (
+                                        <button
+                                            key={value}
+                                            type="button"
+                                            className={`org-facet-chip ${isSelected ? 'selected' : ''}`}
+                                            onClick={() => this.toggleFacetValue(key, value)}
+                                            aria-pressed={isSelected}
+                                            disabled={count === 0 && !isSelected}
+                                        >
+                                            {value}
+                                            <span className="org-facet-chip-count">{count}</span>
+                                        </button>
+                                    );
+                                })}
+                                {counts.length > FACET_PREVIEW_SIZE && (
+                                    <button
+                                        type="button"
+                                        className="org-facet-more"
+                                        onClick={() => this.toggleFacetExpanded(key)}
+                                    >
+                                        {expanded ? 'Show less' : `Show all ${counts.length}`}
+                                    </button>
+                                )}
+                            </div>
+                        </details>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    /**
+     * Render an org's participation years and current streak. Hidden while
+     * only one year is loaded, where every org would read "1 year".
+     */
+    private renderParticipation(org: OrgData, year: number): React.ReactNode {
+        if (AVAILABLE_YEARS.length < 2) return null;
+
+        const { years, streak } = getParticipationHistory(org.slug, year);
+        return (
+            <p className="org-participation" title={`GSoC ${years.join(', ')}`}>
+                <span className="org-participation-years">
+                    {years.length} year{years.length !== 1 ? 's' : ''} in GSoC
+                </span>
+                {streak > 1 && (
+                    <span className="org-participation-streak">{streak}-year streak</span>
+                )}
+            </p>
         );
     }
 
     public render(): React.ReactNode {
-        const { activeTab, searchQuery } = this.state;
-        const filtered = this.getFilteredOrgs();
+        const { filters } = this.state;
+        const { tab: activeTab, query: searchQuery } = filters;
+        const dataset = getOrgDataset(filters.year);
+        const filtered = filterOrgs(filters);
+        const isFiltered = searchQuery.trim() !== '' || hasActiveFacets(filters);
+        const compareFull = this.state.compared.length >= PAGINATION_CONFIG.MAX_COMPARED_ORGS;
+        // Dropped orgs are shown as of the last year they took part in
+        const historyYear = activeTab === 'dropped' ? dataset.previousYear ?? dataset.year : dataset.year;
+        // Matched terms per org, for highlighting
+        const hits = new Map(
+            searchQuery.trim()
+                ? searchOrgs(getTabSource(dataset, activeTab), searchQuery)
+                    .map(result => [result.org.slug, result.terms] as const)
+                : []
+        );
+
+        // The canonical /orgs page always describes the latest year, whatever is selected
+        const latest = getOrgDataset(LATEST_YEAR);
+        const newSummary = latest.hasNewStatus ? `, including ${latest.newSlugs.size} new organizations` : '';
 
         // Schema.org ItemList — tells Google exactly which organizations are on this page.
         // This is the highest-impact structured data for entity-based ranking.
         const itemListSchema = {
             '@context': 'https://schema.org',
             '@type': 'ItemList',
-            name: 'GSoC 2026 Participating Organizations',
-            description: `All ${allOrgs.length} organizations participating in Google Summer of Code 2026, including ${newOrgs.length} new organizations.`,
+            name: `GSoC ${LATEST_YEAR} Participating Organizations`,
+            description: `All ${latest.orgs.length} organizations participating in Google Summer of Code ${LATEST_YEAR}${newSummary}.`,
             url: 'https://gsoc.app/orgs',
-            numberOfItems: allOrgs.length,
-            itemListElement: allOrgs.map((org, idx) => ({
+            numberOfItems: latest.orgs.length,
+            itemListElement: latest.orgs.map((org, idx) => ({
                 '@type': 'ListItem',
                 position: idx + 1,
-                item: {
-                    '@type': 'Organization',
-                    name: org.name,
-                    description: org.tagline || org.description,
-                    url: org.website_url ?? `https://summerofcode.withgoogle.com/programs/2026/organizations/${org.slug}`,
-                    ...(org.logo_url ? { logo: org.logo_url } : {}),
-                },
+                item: toOrganizationSchema(org),
             })),
         };
 
         return (
             <>
             <Helmet>
-                <title>{`GSoC 2026 Organizations — ${allOrgs.length} Orgs | gsoc.app`}</title>
+                <title>{`GSoC ${LATEST_YEAR} Organizations — ${latest.orgs.length} Orgs | gsoc.app`}</title>
                 <meta
                     name="description"
-                    content={`Browse all ${allOrgs.length} organizations participating in Google Summer of Code 2026, including ${newOrgs.length} new ones. Find ideas lists, tech stacks, and contact information.`}
+                    content={`Browse all ${latest.orgs.length} organizations participating in Google Summer of Code ${LATEST_YEAR}${newSummary}. Find ideas lists, tech stacks, and contact information.`}
                 />
                 <link rel="canonical" href="https://gsoc.app/orgs" />
                 <script type="application/ld+json">{JSON.stringify(itemListSchema)}</script>
@@ -157,21 +478,41 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
                     <div className="gsoc-orgs-title-row">
                         <Building2 className="gsoc-orgs-icon" aria-hidden="true" />
                         <div>
-                            <h1 className="gsoc-orgs-title">GSoC 2026 Organizations</h1>
+                            <h1 className="gsoc-orgs-title">GSoC {dataset.year} Organizations</h1>
                             <p className="gsoc-orgs-subtitle">
-                                Participating organizations for Google Summer of Code 2026
+                                Participating organizations for Google Summer of Code {dataset.year}
                             </p>
                         </div>
                     </div>
                     <div className="gsoc-orgs-stats">
+                        {AVAILABLE_YEARS.length > 1 && (
+                            <select
+                                className="gsoc-year-select"
+                                value={dataset.year}
+                                onChange={this.handleYearChange}
+                                aria-label="Program year"
+                            >
+                                {AVAILABLE_YEARS.map(year => (
+                                    <option key={year} value={year}>{year}</option>
+                                ))}
+                            </select>
+                        )}
                         <div className="gsoc-stat-pill">
-                            <span className="gsoc-stat-value">{allOrgs.length}</span>
+                            <span className="gsoc-stat-value">{dataset.orgs.length}</span>
                             <span className="gsoc-stat-label">Total Orgs</span>
                         </div>
-                        <div className="gsoc-stat-pill new">
-                            <span className="gsoc-stat-value">{newOrgs.length}</span>
-                            <span className="gsoc-stat-label">New This Year</span>
-                        </div>
+                        {dataset.hasNewStatus && (
+                            <div className="gsoc-stat-pill new">
+                                <span className="gsoc-stat-value">{dataset.newSlugs.size}</span>
+                                <span className="gsoc-stat-label">New This Year</span>
+                            </div>
+                        )}
+                        {dataset.previousYear !== null && (
+                            <div className="gsoc-stat-pill">
+                                <span className="gsoc-stat-value">{dataset.dropped.length}</span>
+                                <span className="gsoc-stat-label">Not Back From {dataset.previousYear}</span>
+                            </div>
+                        )}
                     </div>
                 </div>
 
@@ -181,7 +522,7 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
                     <input
                         type="text"
                         className="gsoc-search-input"
-                        placeholder="Search by name, category, technology, or topic..."
+                        placeholder="Search by name, technology, or topic (typos are fine)..."
                         value={searchQuery}
                         onChange={this.handleSearchChange}
                         aria-label="Search organizations"
@@ -190,31 +531,34 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
 
                 {/* Tabs */}
                 <div className="org-tab-bar" role="tablist">
-                    <button
-                        role="tab"
-                        className={`org-tab ${activeTab === 'all' ? 'active' : ''}`}
-                        onClick={() => this.handleTabChange('all')}
-                        aria-selected={activeTab === 'all'}
-                    >
-                        All Organizations
-                        <span className="org-tab-count">{allOrgs.length}</span>
-                    </button>
-                    <button
-                        role="tab"
-                        className={`org-tab ${activeTab === 'new' ? 'active' : ''}`}
-                        onClick={() => this.handleTabChange('new')}
-                        aria-selected={activeTab === 'new'}
-                    >
-                        New This Year
-                        <span className={`org-tab-count ${activeTab === 'new' ? '' : 'new-count'}`}>
-                            {newOrgs.length}
-                        </span>
-                    </button>
+                    {getAvailableTabs(dataset).map(tab => {
+                        const { label, count } = describeTab(tab, dataset);
+                        const isActive = activeTab === tab;
+                        return (
+                            <button
+                                key={tab}
+                                role="tab"
+                                className={`org-tab ${isActive ? 'active' : ''}`}
+                                onClick={() => this.handleTabChange(tab)}
+                                aria-selected={isActive}
+                            >
+                                {label}
+                                <span className={`org-tab-count ${tab === 'new' && !isActive ? 'new-count' : ''}`}>
+                                    {count}
+                                </span>
+                            </button>
+                        );
+                    })}
                 </div>
 
-                {searchQuery && (
+                {this.renderFacets()}
+
+                {this.renderComparison()}
+
+                {isFiltered && (
                     <p className="gsoc-results-count">
-                        {filtered.length} result{filtered.length !== 1 ? 's' : ''} for &quot;{searchQuery}&quot;
+                        {filtered.length} result{filtered.length !== 1 ? 's' : ''}
+                        {searchQuery && <> for &quot;{searchQuery}&quot;</>}
                     </p>
                 )}
 
@@ -222,9 +566,11 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
                 {filtered.length > 0 ? (
                     <div className="orgs-grid">
                         {filtered.map(org => {
-                            const isNew = newOrgSlugs.has(org.slug);
+                            const isNew = dataset.newSlugs.has(org.slug);
+                            const isCompared = this.state.compared.includes(org.slug);
                             const initials = org.name.split(' ').slice(0, 2).map(w => w[0]).join('').toUpperCase();
                             const blurb = org.tagline || org.description;
+                            const terms = hits.get(org.slug);
 
                             return (
                                 <div key={org.slug} className="org-card">
@@ -250,11 +596,24 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
 
                                         <div className="org-card-name-col">
                                             <div className="org-name-badge-row">
-                                                <h3 className="org-card-name">{org.name}</h3>
+                                                <h3 className="org-card-name">
+                                                    <a
+                                                        href={`/orgs/${org.slug}`}
+                                                        className="org-card-link"
+                                                        onClick={e => {
+                                                            if (!this.props.onOpenOrg) return;
+                                                            e.preventDefault();
+                                                            this.props.onOpenOrg(org.slug);
+                                                        }}
+                                                    >
+                                                        {highlight(org.name, terms)}
+                                                    </a>
+                                                </h3>
                                                 {isNew && activeTab === 'all' && (
                                                     <span className="org-new-badge">NEW</span>
                                                 )}
                                             </div>
+                                            {this.renderParticipation(org, historyYear)}
                                             {/* Categories + license */}
                                             <div className="org-meta-row">
                                                 {org.categories?.slice(0, 2).map(c => (
@@ -269,7 +628,7 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
 
                                     {/* Tagline / description */}
                                     {blurb && (
-                                        <p className="org-tagline">{blurb}</p>
+                                        <p className="org-tagline">{highlight(blurb, terms)}</p>
                                     )}
 
                                     {/* Website */}
@@ -290,8 +649,8 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
                                         <div className="org-tags-section">
                                             <span className="org-tags-label">Technologies</span>
                                             <div className="org-tags">
-                                                {org.tech_tags.slice(0, 5).map(tag => (
-                                                    <span key={tag} className="org-tag tech">{tag}</span>
+                                                {matchedFirst(org.tech_tags, terms).slice(0, 5).map(tag => (
+                                                    <span key={tag} className="org-tag tech">{highlight(tag, terms)}</span>
                                                 ))}
                                             </div>
                                         </div>
@@ -302,8 +661,8 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
                                         <div className="org-tags-section">
                                             <span className="org-tags-label">Topics</span>
                                             <div className="org-tags">
-                                                {org.topic_tags.slice(0, 4).map(tag => (
-                                                    <span key={tag} className="org-tag topic">{tag}</span>
+                                                {matchedFirst(org.topic_tags, terms).slice(0, 4).map(tag => (
+                                                    <span key={tag} className="org-tag topic">{highlight(tag, terms)}</span>
                                                 ))}
                                             </div>
                                         </div>
@@ -334,6 +693,9 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
                                         </div>
                                     )}
 
+                                    {/* Live activity summary */}
+                                    {this.renderHealth(org)}
+
                                     {/* Action links */}
                                     <div className="org-actions">
                                         {org.ideas_link && (
@@ -360,6 +722,42 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
                                                 Source
                                             </a>
                                         )}
+                                        {hasGitHubSource(org) && (
+                                            <button
+                                                type="button"
+                                                onClick={() => this.handleAnalyzeActivity(org)}
+                                                className="org-action-btn activity"
+                                                disabled={this.state.health[org.slug]?.status === 'loading'}
+                                                title="Summarize PR activity from the last 3 months"
+                                            >
+                                                <Activity className="w-3 h-3" aria-hidden="true" />
+                                                Analyze activity
+                                            </button>
+                                        )}
+                                        {this.props.onAnalyzeOrg && getGitHubOrg(org) && (
+                                            <button
+                                                type="button"
+                                                onClick={() => this.props.onAnalyzeOrg?.(getGitHubOrg(org)!)}
+                                                className="org-action-btn dashboard"
+                                                title="PR activity across the org's repositories"
+                                            >
+                                                <BarChart3 className="w-3 h-3" aria-hidden="true" />
+                                                Dashboard
+                                            </button>
+                                        )}
+                                        <button
+                                            type="button"
+                                            onClick={() => this.toggleCompared(org.slug)}
+                                            className={`org-action-btn compare ${isCompared ? 'selected' : ''}`}
+                                            aria-pressed={isCompared}
+                                            disabled={!isCompared && compareFull}
+                                            title={!isCompared && compareFull
+                                                ? `At most ${PAGINATION_CONFIG.MAX_COMPARED_ORGS} organizations can be compared`
+                                                : 'Compare side by side'}
+                                        >
+                                            <GitCompare className="w-3 h-3" aria-hidden="true" />
+                                            {isCompared ? 'Comparing' : 'Compare'}
+                                        </button>
                                         {org.contributor_guidance_url && (
                                             <a
                                                 href={org.contributor_guidance_url}
@@ -392,13 +790,17 @@ export class GsocOrgs extends React.Component<{}, GsocOrgsState> {
                 ) : (
                     <div className="orgs-empty-state">
                         <Search className="w-12 h-12" aria-hidden="true" />
-                        <p>No organizations match &quot;{searchQuery}&quot;</p>
+                        <p>
+                            {searchQuery
+                                ? <>No organizations match &quot;{searchQuery}&quot;</>
+                                : 'No organizations match the selected filters'}
+                        </p>
                         <button
                             type="button"
                             className="orgs-clear-search"
-                            onClick={() => this.setState({ searchQuery: '' })}
+                            onClick={this.clearFilters}
                         >
-                            Clear search
+                            {hasActiveFacets(filters) ? 'Clear filters' : 'Clear search'}
                         </button>
                     </div>
                 )}
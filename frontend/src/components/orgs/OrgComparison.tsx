@@ -0,0 +1,251 @@
+import { Activity, GitCompare, X } from 'lucide-react';
+import React from 'react';
+import { OrganizationHealth } from '../../types';
+import { DateUtils } from '../../utils';
+import { OrgData, contactHref, getContactMeta, hasGitHubSource } from './orgData';
+
+interface OrgComparisonProps {
+    /** Selected orgs, one column each */
+    orgs: OrgData[];
+    /** Activity summaries of orgs analyzed so far, keyed by slug */
+    health: Record<string, OrganizationHealth | undefined>;
+    /** Slugs whose activity summary is loading */
+    loading: string[];
+    onRemove: (slug: string) => void;
+    onClear: () => void;
+    /** Loads the activity summary for an org not analyzed yet */
+    onAnalyzeActivity?: (org: OrgData) => void;
+    /** Opens an org's /orgs/:slug detail page (client-side) */
+    onOpenOrg?: (slug: string) => void;
+}
+
+/** A tag-like value with how many other compared orgs share it */
+interface ComparedValue {
+    value: string;
+    /** Display text (original casing) */
+    label: string;
+    shared: number;
+}
+
+/**
+ * Values of one org annotated with how many of the other orgs also have them
+ */
+function compareValues(
+    org: OrgData,
+    orgs: OrgData[],
+    valuesOf: (org: OrgData) => Array<{ value: string; label: string }>
+): ComparedValue[] {
+    const others = orgs
+        .filter(other => other.slug !== org.slug)
+        .map(other => new Set(valuesOf(other).map(v => v.value)));
+
+    return valuesOf(org).map(({ value, label }) => ({
+        value,
+        label,
+        shared: others.filter(set => set.has(value)).length,
+    }));
+}
+
+/**
+ * Tags keyed by lowercase value (first spelling wins), so "Python" and
+ * "python" count as one shared tag
+ */
+function caseInsensitive(tags: string[] | undefined): Array<{ value: string; label: string }> {
+    const byValue = new Map<string, string>();
+    for (const tag of tags ?? []) {
+        if (!byValue.has(tag.toLowerCase())) byValue.set(tag.toLowerCase(), tag);
+    }
+    return Array.from(byValue, ([value, label]) => ({ value, label }));
+}
+
+const techValues = (org: OrgData) => caseInsensitive(org.tech_tags);
+
+const topicValues = (org: OrgData) => caseInsensitive(org.topic_tags);
+
+const categoryValues = (org: OrgData) =>
+    (org.categories ?? []).map(label => ({ value: label, label }));
+
+const contactValues = (org: OrgData) => {
+    const labels = new Set((org.contact_links ?? []).map(link => getContactMeta(link.name).label));
+    return Array.from(labels, label => ({ value: label, label }));
+};
+
+/**
+ * Side-by-side comparison of up to four GSoC organizations. Tags shared with
+ * another compared org are highlighted, shared-by-all ones more strongly.
+ */
+export class OrgComparison extends React.Component<OrgComparisonProps> {
+    private renderValues(
+        org: OrgData,
+        valuesOf: (org: OrgData) => Array<{ value: string; label: string }>,
+        variant: string
+    ): React.ReactNode {
+        const { orgs } = this.props;
+        const values = compareValues(org, orgs, valuesOf)
+            // Shared values first: overlap is what the table is for
+            .sort((a, b) => b.shared - a.shared);
+
+        if (values.length === 0) return <span className="org-compare-empty">—</span>;
+
+        return (
+            <div className="org-tags">
+                {values.map(({ value, label, shared }) => {
+                    const overlap = shared === 0 ? '' : shared === orgs.length - 1 ? 'shared-all' : 'shared';
+                    return (
+                        <span
+                            key={value}
+                            className={`org-tag ${variant} ${overlap}`}
+                            title={shared > 0 ? `Shared with ${shared} other org${shared !== 1 ? 's' : ''}` : undefined}
+                        >
+                            {label}
+                        </span>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    private renderContacts(org: OrgData): React.ReactNode {
+        const channels = compareValues(org, this.props.orgs, contactValues);
+        if (channels.length === 0) return <span className="org-compare-empty">—</span>;
+
+        return (
+            <div className="org-tags">
+                {channels.map(({ value, label, shared }) => {
+                    const link = org.contact_links!.find(l => getContactMeta(l.name).label === value)!;
+                    return (
+                        <a
+                            key={value}
+                            href={contactHref(link)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className={`org-tag contact ${shared > 0 ? 'shared' : ''}`}
+                            title={link.value}
+                        >
+                            {label}
+                        </a>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    private renderActivity(org: OrgData): React.ReactNode {
+        const { health, loading, onAnalyzeActivity } = this.props;
+        const data = health[org.slug];
+
+        if (data) {
+            return (
+                <dl className="org-compare-activity">
+                    <dt>PRs merged</dt>
+                    <dd>{data.mergedPRs}</dd>
+                    <dt>Contributors</dt>
+                    <dd>{data.activeContributors}</dd>
+                    <dt>Median merge</dt>
+                    <dd>{data.medianTimeToMerge > 0 ? DateUtils.formatDuration(data.medianTimeToMerge) : '—'}</dd>
+                    <dt>Repositories</dt>
+                    <dd>{data.repositories}</dd>
+                </dl>
+            );
+        }
+
+        if (!onAnalyzeActivity || !hasGitHubSource(org)) {
+            return <span className="org-compare-empty">—</span>;
+        }
+
+        const isLoading = loading.includes(org.slug);
+        return (
+            <button
+                type="button"
+                className="org-action-btn activity"
+                onClick={() => onAnalyzeActivity(org)}
+                disabled={isLoading}
+            >
+                <Activity className="w-3 h-3" aria-hidden="true" />
+                {isLoading ? 'Analyzing…' : 'Analyze activity'}
+            </button>
+        );
+    }
+
+    public render(): React.ReactNode {
+        const { orgs, onRemove, onClear, onOpenOrg } = this.props;
+        if (orgs.length === 0) return null;
+
+        const rows: Array<{ label: string; render: (org: OrgData) => React.ReactNode }> = [
+            { label: 'Categories', render: org => this.renderValues(org, categoryValues, 'category') },
+            { label: 'Technologies', render: org => this.renderValues(org, techValues, 'tech') },
+            { label: 'Topics', render: org => this.renderValues(org, topicValues, 'topic') },
+            {
+                label: 'License',
+                render: org => org.license
+                    ? <span className="org-license">{org.license}</span>
+                    : <span className="org-compare-empty">—</span>,
+            },
+            { label: 'Contact', render: org => this.renderContacts(org) },
+            { label: 'Activity (3 months)', render: org => this.renderActivity(org) },
+        ];
+
+        return (
+            <section className="org-compare" aria-label="Organization comparison">
+                <div className="org-compare-toolbar">
+                    <span className="org-compare-title">
+                        <GitCompare className="w-4 h-4" aria-hidden="true" />
+                        Comparing {orgs.length}
+                    </span>
+                    {orgs.length === 1 && (
+                        <span className="org-compare-hint">Select another organization to compare</span>
+                    )}
+                    <button type="button" className="org-facets-clear" onClick={onClear}>
+                        <X className="w-3 h-3" aria-hidden="true" />
+                        Clear comparison
+                    </button>
+                </div>
+
+                <div className="org-compare-scroll">
+                    <table className="org-compare-table">
+                        <thead>
+                            <tr>
+                                <td />
+                                {orgs.map(org => (
+                                    <th key={org.slug} scope="col">
+                                        <div className="org-compare-head">
+                                            <a
+                                                href={`/orgs/${org.slug}`}
+                                                className="org-card-link"
+                                                onClick={e => {
+                                                    if (!onOpenOrg) return;
+                                                    e.preventDefault();
+                                                    onOpenOrg(org.slug);
+                                                }}
+                                            >
+                                                {org.name}
+                                            </a>
+                                            <button
+                                                type="button"
+                                                className="org-compare-remove"
+                                                onClick={() => onRemove(org.slug)}
+                                                aria-label={`Remove ${org.name} from comparison`}
+                                            >
+                                                <X className="w-3 h-3" aria-hidden="true" />
+                                            </button>
+                                        </div>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={row.label}>
+                                    <th scope="row">{row.label}</th>
+                                    {orgs.map(org => (
+                                        <td key={org.slug}>{row.render(org)}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        );
+    }
+}
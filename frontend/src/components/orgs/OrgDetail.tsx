@@ -0,0 +1,321 @@
+import {
+    ArrowLeft,
+    BarChart3,
+    BookOpen,
+    Code2,
+    ExternalLink,
+    Lightbulb,
+    Search,
+} from 'lucide-react';
+import React from 'react';
+import { Helmet } from 'react-helmet-async';
+import {
+    OrgData,
+    contactHref,
+    getContactMeta,
+    getGitHubOrg,
+    getSimilarOrgs,
+    handleLogoError,
+    toOrganizationSchema,
+} from './orgData';
+import {
+    AVAILABLE_YEARS,
+    LATEST_YEAR,
+    findOrgRecord,
+    getOrgDataset,
+    getParticipationHistory,
+} from './orgDatasets';
+
+interface OrgDetailProps {
+    /** GSoC slug from the /orgs/:slug route */
+    slug: string;
+    /** Navigates to another org's detail page (client-side) */
+    onOpenOrg?: (slug: string) => void;
+    /** Returns to the /orgs directory */
+    onBack?: () => void;
+    /** Opens the organization-wide dashboard for a GitHub account */
+    onAnalyzeOrg?: (githubOrg: string) => void;
+}
+
+/**
+ * Detail page for one GSoC organization (as of the latest year it took part
+ * in): full description, participation history, contacts, tags and similar
+ * organizations.
+ */
+export class OrgDetail extends React.Component<OrgDetailProps> {
+    /**
+     * Client-side navigation for internal links; plain hrefs remain for crawlers
+     */
+    private handleLinkClick = (e: React.MouseEvent, action?: () => void): void => {
+        if (!action) return;
+        e.preventDefault();
+        action();
+    };
+
+    private renderNotFound(): React.ReactNode {
+        const { slug, onBack } = this.props;
+
+        return (
+            <>
+            <Helmet>
+                <title>Organization not found | gsoc.app</title>
+                <meta name="robots" content="noindex" />
+            </Helmet>
+            <div className="gsoc-orgs-view">
+                <div className="orgs-empty-state">
+                    <Search className="w-12 h-12" aria-hidden="true" />
+                    <p>No GSoC organization matches &quot;{slug}&quot;</p>
+                    <a
+                        href="/orgs"
+                        className="orgs-clear-search"
+                        onClick={e => this.handleLinkClick(e, onBack)}
+                    >
+                        Browse all organizations
+                    </a>
+                </div>
+            </div>
+            </>
+        );
+    }
+
+    private renderTags(label: string, tags: string[] | undefined, variant: string): React.ReactNode {
+        if (!tags || tags.length === 0) return null;
+
+        return (
+            <section className="org-detail-section">
+                <h2 className="org-detail-heading">{label}</h2>
+                <div className="org-tags">
+                    {tags.map(tag => (
+                        <span key={tag} className={`org-tag ${variant}`}>{tag}</span>
+                    ))}
+                </div>
+            </section>
+        );
+    }
+
+    private renderContacts(org: OrgData): React.ReactNode {
+        if (!org.contact_links || org.contact_links.length === 0) return null;
+
+        return (
+            <section className="org-detail-section">
+                <h2 className="org-detail-heading">Contact</h2>
+                <ul className="org-detail-contacts">
+                    {org.contact_links.map(link => {
+                        const { label, Icon } = getContactMeta(link.name);
+                        return (
+                            <li key={`${link.name}-${link.value}`}>
+                                <a
+                                    href={contactHref(link)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="org-detail-contact"
+                                >
+                                    <Icon size={14} aria-hidden="true" />
+                                    <span className="org-detail-contact-label">{label}</span>
+                                    <span className="org-detail-contact-value">{link.value}</span>
+                                </a>
+                            </li>
+                        );
+                    })}
+                </ul>
+            </section>
+        );
+    }
+
+    /**
+     * Years participated and current streak; skipped while only one year is loaded
+     */
+    private renderParticipation(org: OrgData, year: number): React.ReactNode {
+        if (AVAILABLE_YEARS.length < 2) return null;
+
+        const { years, streak } = getParticipationHistory(org.slug, year);
+        return (
+            <section className="org-detail-section">
+                <h2 className="org-detail-heading">GSoC participation</h2>
+                <div className="org-tags">
+                    {years.map(y => (
+                        <span key={y} className="org-tag topic">{y}</span>
+                    ))}
+                </div>
+                <p className="org-participation">
+                    <span className="org-participation-years">
+                        {years.length} year{years.length !== 1 ? 's' : ''} in GSoC
+                    </span>
+                    {streak > 1 && (
+                        <span className="org-participation-streak">{streak}-year streak</span>
+                    )}
+                </p>
+            </section>
+        );
+    }
+
+    private renderSimilar(org: OrgData): React.ReactNode {
+        const { onOpenOrg } = this.props;
+        const similar = getSimilarOrgs(org);
+        if (similar.length === 0) return null;
+
+        return (
+            <section className="org-detail-section">
+                <h2 className="org-detail-heading">Similar organizations</h2>
+                <div className="org-detail-similar">
+                    {similar.map(other => (
+                        <a
+                            key={other.slug}
+                            href={`/orgs/${other.slug}`}
+                            className="org-detail-similar-card"
+                            onClick={e => this.handleLinkClick(e, onOpenOrg && (() => onOpenOrg(other.slug)))}
+                        >
+                            <span className="org-detail-similar-name">{other.name}</span>
+                            {other.tagline && (
+                                <span className="org-detail-similar-tagline">{other.tagline}</span>
+                            )}
+                        </a>
+                    ))}
+                </div>
+            </section>
+        );
+    }
+
+    public render(): React.ReactNode {
+        const { slug, onBack, onAnalyzeOrg } = this.props;
+        const record = findOrgRecord(slug);
+
+        if (!record) {
+            return this.renderNotFound();
+        }
+
+        const { org, year } = record;
+        const url = `https://gsoc.app/orgs/${org.slug}`;
+        const title = `${org.name} — GSoC ${year} Organization | gsoc.app`;
+        const summary = org.tagline || org.description || (year === LATEST_YEAR
+            ? `${org.name} is participating in Google Summer of Code ${year}.`
+            : `${org.name} participated in Google Summer of Code ${year}.`);
+        const initials = org.name.split(' ').slice(0, 2).map(w => w[0]).join('').toUpperCase();
+        const githubOrg = getGitHubOrg(org);
+
+        // Schema.org Organization — one entity per page so each org can rank on its own
+        const organizationSchema = {
+            '@context': 'https://schema.org',
+            ...toOrganizationSchema(org, year),
+            ...(org.source_code ? { sameAs: [org.source_code] } : {}),
+            ...(org.tech_tags?.length ? { knowsAbout: org.tech_tags } : {}),
+        };
+
+        return (
+            <>
+            <Helmet>
+                <title>{title}</title>
+                <meta name="description" content={summary} />
+                <link rel="canonical" href={url} />
+                <meta property="og:title" content={title} />
+                <meta property="og:url" content={url} />
+                <meta property="og:description" content={summary} />
+                <meta name="twitter:title" content={title} />
+                <meta name="twitter:url" content={url} />
+                <meta name="twitter:description" content={summary} />
+                <script type="application/ld+json">{JSON.stringify(organizationSchema)}</script>
+            </Helmet>
+            <div className="gsoc-orgs-view org-detail">
+                <a
+                    href="/orgs"
+                    className="back-button"
+                    onClick={e => this.handleLinkClick(e, onBack)}
+                >
+                    <ArrowLeft className="w-4 h-4" aria-hidden="true" />
+                    All organizations
+                </a>
+
+                {/* Header */}
+                <div className="org-detail-header">
+                    <div className="org-logo-wrap large">
+                        {org.logo_url && (
+                            <img
+                                src={org.logo_url}
+                                alt={org.name}
+                                className="org-logo"
+                                onError={handleLogoError}
+                            />
+                        )}
+                        <span
+                            className="org-logo-fallback"
+                            style={{ display: org.logo_url ? 'none' : 'flex' }}
+                            aria-hidden="true"
+                        >
+                            {initials}
+                        </span>
+                    </div>
+                    <div>
+                        <div className="org-name-badge-row">
+                            <h1 className="gsoc-orgs-title">{org.name}</h1>
+                            {getOrgDataset(year).newSlugs.has(org.slug) && (
+                                <span className="org-new-badge">NEW</span>
+                            )}
+                        </div>
+                        {org.tagline && <p className="gsoc-orgs-subtitle">{org.tagline}</p>}
+                        <div className="org-meta-row">
+                            {org.categories?.map(c => (
+                                <span key={c} className="org-category">{c}</span>
+                            ))}
+                            {org.license && (
+                                <span className="org-license">{org.license}</span>
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Links */}
+                <div className="org-actions">
+                    {org.ideas_link && (
+                        <a href={org.ideas_link} target="_blank" rel="noopener noreferrer" className="org-action-btn ideas">
+                            <Lightbulb className="w-3 h-3" aria-hidden="true" />
+                            Ideas
+                        </a>
+                    )}
+                    {org.source_code && (
+                        <a href={org.source_code} target="_blank" rel="noopener noreferrer" className="org-action-btn source">
+                            <Code2 className="w-3 h-3" aria-hidden="true" />
+                            Source
+                        </a>
+                    )}
+                    {org.contributor_guidance_url && (
+                        <a href={org.contributor_guidance_url} target="_blank" rel="noopener noreferrer" className="org-action-btn guide">
+                            <BookOpen className="w-3 h-3" aria-hidden="true" />
+                            Contribute
+                        </a>
+                    )}
+                    {org.website_url && (
+                        <a href={org.website_url} target="_blank" rel="noopener noreferrer" className="org-action-btn guide">
+                            <ExternalLink className="w-3 h-3" aria-hidden="true" />
+                            Website
+                        </a>
+                    )}
+                    {onAnalyzeOrg && githubOrg && (
+                        <button
+                            type="button"
+                            onClick={() => onAnalyzeOrg(githubOrg)}
+                            className="org-action-btn dashboard"
+                            title="PR activity across the org's repositories"
+                        >
+                            <BarChart3 className="w-3 h-3" aria-hidden="true" />
+                            Dashboard
+                        </button>
+                    )}
+                </div>
+
+                {org.description && (
+                    <section className="org-detail-section">
+                        <h2 className="org-detail-heading">About</h2>
+                        <p className="org-detail-description">{org.description}</p>
+                    </section>
+                )}
+
+                {this.renderParticipation(org, year)}
+                {this.renderTags('Technologies', org.tech_tags, 'tech')}
+                {this.renderTags('Topics', org.topic_tags, 'topic')}
+                {this.renderContacts(org)}
+                {this.renderSimilar(org)}
+            </div>
+            </>
+        );
+    }
+}
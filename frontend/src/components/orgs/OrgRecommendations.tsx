@@ -0,0 +1,69 @@
+import { Sparkles } from 'lucide-react';
+import React from 'react';
+import { UserProfileStats } from '../../types';
+import { Card } from '../common/Card';
+import { describeReason, recommendOrgs } from './orgMatching';
+
+interface OrgRecommendationsProps {
+    userStats: UserProfileStats;
+    /** Opens an org's /orgs/:slug detail page (client-side) */
+    onOpenOrg?: (slug: string) => void;
+}
+
+/** Reasons listed per recommended org */
+const REASONS_SHOWN = 3;
+
+/**
+ * "Recommended orgs for you": GSoC orgs ranked against a user's repositories
+ * and PR labels, each with the matches that explain it
+ */
+export class OrgRecommendations extends React.Component<OrgRecommendationsProps> {
+    public render(): React.ReactNode {
+        const { userStats, onOpenOrg } = this.props;
+        const recommendations = recommendOrgs(userStats);
+
+        return (
+            <Card className="repo-contributions-section org-recommendations animate-in">
+                <h3 className="section-title">
+                    <Sparkles className="w-5 h-5" aria-hidden="true" />
+                    Recommended orgs for you
+                </h3>
+
+                {recommendations.length === 0 ? (
+                    <p className="show-more-hint">
+                        Not enough pull request history to match against GSoC organizations yet
+                    </p>
+                ) : (
+                    <div className="repo-contributions-grid">
+                        {recommendations.map(({ org, reasons }) => (
+                            <a
+                                key={org.slug}
+                                href={`/orgs/${org.slug}`}
+                                className="org-recommendation-card"
+                                onClick={e => {
+                                    if (!onOpenOrg) return;
+                                    e.preventDefault();
+                                    onOpenOrg(org.slug);
+                                }}
+                            >
+                                <h4 className="repo-name">{org.name}</h4>
+                                <ul className="org-recommendation-reasons">
+                                    {reasons.slice(0, REASONS_SHOWN).map(reason => (
+                                        <li key={`${reason.kind}-${reason.tag}`} className={reason.kind}>
+                                            {describeReason(reason)}
+                                        </li>
+                                    ))}
+                                </ul>
+                                {reasons.length > REASONS_SHOWN && (
+                                    <span className="org-recommendation-more">
+                                        +{reasons.length - REASONS_SHOWN} more match{reasons.length - REASONS_SHOWN !== 1 ? 'es' : ''}
+                                    </span>
+                                )}
+                            </a>
+                        ))}
+                    </div>
+                )}
+            </Card>
+        );
+    }
+}
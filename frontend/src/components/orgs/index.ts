@@ -1 +1,3 @@
 export { GsocOrgs } from './GsocOrgs';
+export { OrgDetail } from './OrgDetail';
+export { OrgRecommendations } from './OrgRecommendations';
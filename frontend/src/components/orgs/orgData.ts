@@ -0,0 +1,135 @@
+/**
+ * Shared GSoC organization data and helpers for the directory and the
+ * per-organization detail page. Per-year datasets live in orgDatasets.ts.
+ */
+
+import {
+    Hash,
+    Link,
+    LucideIcon,
+    Mail,
+    MessageSquare,
+    Rss,
+    Send,
+    Twitter,
+} from 'lucide-react';
+import React from 'react';
+import { GitHubUrlParser } from '../../utils';
+import { LATEST_YEAR, findOrgRecord, getOrgDataset } from './orgDatasets';
+
+export interface ContactLink {
+    name: string;
+    value: string;
+}
+
+export interface OrgData {
+    name: string;
+    slug: string;
+    logo_url?: string;
+    tagline?: string;
+    description?: string;
+    website_url?: string;
+    ideas_link?: string;
+    contributor_guidance_url?: string;
+    source_code?: string;
+    license?: string;
+    categories?: string[];
+    tech_tags?: string[];
+    topic_tags?: string[];
+    contact_links?: ContactLink[];
+}
+
+/** Organizations of the latest loaded program year */
+export const allOrgs = getOrgDataset(LATEST_YEAR).orgs;
+
+// Map contact link name → { label, Icon }
+export const CONTACT_META: Record<string, { label: string; Icon: LucideIcon }> = {
+    email:        { label: 'Email',        Icon: Mail },
+    mailingList:  { label: 'Mailing List', Icon: Mail },
+    mailing_list: { label: 'Mailing List', Icon: Mail },
+    chat:         { label: 'Chat',         Icon: MessageSquare },
+    slack:        { label: 'Slack',        Icon: MessageSquare },
+    gitter:       { label: 'Gitter',       Icon: MessageSquare },
+    discord:      { label: 'Discord',      Icon: MessageSquare },
+    irc:          { label: 'IRC',          Icon: Hash },
+    telegram:     { label: 'Telegram',     Icon: Send },
+    twitter:      { label: 'Twitter',      Icon: Twitter },
+    blog:         { label: 'Blog',         Icon: Rss },
+};
+
+export function getContactMeta(name: string): { label: string; Icon: LucideIcon } {
+    return CONTACT_META[name] ?? { label: name, Icon: Link };
+}
+
+export function contactHref(link: ContactLink): string {
+    const v = link.value.trim();
+    if (!v.startsWith('http') && v.includes('@')) return `mailto:${v}`;
+    return v;
+}
+
+/** Whether an org's source_code link resolves to GitHub at all */
+export function hasGitHubSource(org: OrgData): boolean {
+    return !!org.source_code && GitHubUrlParser.detectUrlType(org.source_code).type !== 'unknown';
+}
+
+/**
+ * GitHub account behind an org's source_code link (github.com/name), if any.
+ * Links to a single repository are not org-wide and return null.
+ */
+export function getGitHubOrg(org: OrgData): string | null {
+    if (!org.source_code) return null;
+    const info = GitHubUrlParser.detectUrlType(org.source_code);
+    if (info.type === 'org') return info.org ?? null;
+    if (info.type === 'user') return info.username ?? null;
+    return null;
+}
+
+export function handleLogoError(e: React.SyntheticEvent<HTMLImageElement>) {
+    const img = e.currentTarget;
+    img.style.display = 'none';
+    const fallback = img.nextElementSibling as HTMLElement | null;
+    if (fallback) fallback.style.display = 'flex';
+}
+
+/** Look up an organization by its GSoC slug (latest year it took part in) */
+export function findOrgBySlug(slug: string): OrgData | null {
+    return findOrgRecord(slug)?.org ?? null;
+}
+
+/**
+ * Organizations sharing the most tech tags, topics and categories with `org`.
+ * Shared technologies weigh double: they matter most to a prospective contributor.
+ */
+export function getSimilarOrgs(org: OrgData, limit: number = 4): OrgData[] {
+    const lower = (values?: string[]) => new Set((values ?? []).map(v => v.toLowerCase()));
+    const tech = lower(org.tech_tags);
+    const topics = lower(org.topic_tags);
+    const categories = lower(org.categories);
+
+    const countShared = (values: string[] | undefined, set: Set<string>) =>
+        (values ?? []).filter(v => set.has(v.toLowerCase())).length;
+
+    return allOrgs
+        .filter(other => other.slug !== org.slug)
+        .map(other => ({
+            other,
+            score: 2 * countShared(other.tech_tags, tech)
+                + countShared(other.topic_tags, topics)
+                + countShared(other.categories, categories),
+        }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.other.name.localeCompare(b.other.name))
+        .slice(0, limit)
+        .map(({ other }) => other);
+}
+
+/** Schema.org Organization object for one org */
+export function toOrganizationSchema(org: OrgData, year: number = LATEST_YEAR): Record<string, unknown> {
+    return {
+        '@type': 'Organization',
+        name: org.name,
+        description: org.tagline || org.description,
+        url: org.website_url ?? `https://summerofcode.withgoogle.com/programs/${year}/organizations/${org.slug}`,
+        ...(org.logo_url ? { logo: org.logo_url } : {}),
+    };
+}
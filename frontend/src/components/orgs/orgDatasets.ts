@@ -0,0 +1,137 @@
+/**
+ * Year-indexed GSoC organization datasets.
+ *
+ * Every `src/data/allOrgs<YEAR>.json` is picked up at build time, so adding
+ * or switching years is a data-only change. New, returning and dropped orgs
+ * and each org's participation history are computed by comparing slugs
+ * across the loaded years.
+ */
+
+import type { OrgData } from './orgData';
+
+const DATASET_FILES = import.meta.glob<OrgData[]>('../../data/allOrgs*.json', {
+    eager: true,
+    import: 'default',
+});
+
+/**
+ * Legacy precomputed new-org lists (`newOrgs<YEAR>.json`). Only consulted for
+ * the earliest loaded year, which has no earlier dataset to compare against.
+ */
+const NEW_ORG_SEED_FILES = import.meta.glob<OrgData[]>('../../data/newOrgs*.json', {
+    eager: true,
+    import: 'default',
+});
+
+const YEAR_IN_FILENAME = /(\d{4})\.json$/;
+
+/** One program year with status computed against the earlier years */
+export interface OrgYearDataset {
+    year: number;
+    orgs: OrgData[];
+    /** Slugs with no participation in any earlier loaded year */
+    newSlugs: Set<string>;
+    /** Slugs that participated in some earlier loaded year */
+    returningSlugs: Set<string>;
+    /** Orgs from the previous loaded year missing from this one */
+    dropped: OrgData[];
+    /** Closest earlier loaded year, if any */
+    previousYear: number | null;
+    /** False when neither an earlier dataset nor a seed list tells new orgs apart */
+    hasNewStatus: boolean;
+}
+
+/** Years an org took part in, among the loaded datasets */
+export interface ParticipationHistory {
+    /** Participation years, ascending */
+    years: number[];
+    /** Consecutive participation years ending at the viewed year */
+    streak: number;
+}
+
+function byYear(files: Record<string, OrgData[]>): Map<number, OrgData[]> {
+    const result = new Map<number, OrgData[]>();
+    for (const [path, orgs] of Object.entries(files)) {
+        const match = path.match(YEAR_IN_FILENAME);
+        if (match) result.set(Number(match[1]), orgs);
+    }
+    return result;
+}
+
+const orgsByYear = byYear(DATASET_FILES);
+const seedsByYear = byYear(NEW_ORG_SEED_FILES);
+const slugsByYear = new Map(
+    Array.from(orgsByYear, ([year, orgs]) => [year, new Set(orgs.map(org => org.slug))])
+);
+
+/** Loaded program years, newest first */
+export const AVAILABLE_YEARS: number[] = Array.from(orgsByYear.keys()).sort((a, b) => b - a);
+
+export const LATEST_YEAR: number = AVAILABLE_YEARS[0];
+
+const datasetCache = new Map<number, OrgYearDataset>();
+
+/**
+ * Dataset for a program year (the latest year if `year` is not loaded)
+ */
+export function getOrgDataset(year: number = LATEST_YEAR): OrgYearDataset {
+    const resolvedYear = orgsByYear.has(year) ? year : LATEST_YEAR;
+    const cached = datasetCache.get(resolvedYear);
+    if (cached) return cached;
+
+    const orgs = orgsByYear.get(resolvedYear)!;
+    const currentSlugs = slugsByYear.get(resolvedYear)!;
+    const earlierYears = AVAILABLE_YEARS.filter(y => y < resolvedYear);
+    const previousYear = earlierYears[0] ?? null;
+
+    let newSlugs: Set<string>;
+    if (earlierYears.length > 0) {
+        const seen = new Set(earlierYears.flatMap(y => Array.from(slugsByYear.get(y)!)));
+        newSlugs = new Set(orgs.filter(org => !seen.has(org.slug)).map(org => org.slug));
+    } else {
+        newSlugs = new Set((seedsByYear.get(resolvedYear) ?? []).map(org => org.slug));
+    }
+
+    const dataset: OrgYearDataset = {
+        year: resolvedYear,
+        orgs,
+        newSlugs,
+        returningSlugs: new Set(orgs.filter(org => !newSlugs.has(org.slug)).map(org => org.slug)),
+        dropped: previousYear !== null
+            ? orgsByYear.get(previousYear)!.filter(org => !currentSlugs.has(org.slug))
+            : [],
+        previousYear,
+        hasNewStatus: earlierYears.length > 0 || seedsByYear.has(resolvedYear),
+    };
+
+    datasetCache.set(resolvedYear, dataset);
+    return dataset;
+}
+
+/**
+ * Participation years and current streak for an org, up to `year`.
+ * A year without a loaded dataset breaks the streak: participation is unknown.
+ */
+export function getParticipationHistory(slug: string, year: number = LATEST_YEAR): ParticipationHistory {
+    const years = AVAILABLE_YEARS
+        .filter(y => y <= year && slugsByYear.get(y)!.has(slug))
+        .sort((a, b) => a - b);
+
+    let streak = 0;
+    for (let y = year; slugsByYear.get(y)?.has(slug); y--) {
+        streak++;
+    }
+
+    return { years, streak };
+}
+
+/**
+ * Most recent record of an org, searching from the latest year backwards
+ */
+export function findOrgRecord(slug: string): { org: OrgData; year: number } | null {
+    for (const year of AVAILABLE_YEARS) {
+        const org = orgsByYear.get(year)!.find(o => o.slug === slug);
+        if (org) return { org, year };
+    }
+    return null;
+}
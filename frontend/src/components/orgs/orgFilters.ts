@@ -0,0 +1,228 @@
+/**
+ * Faceted filtering for the GSoC organizations directory, with filter state
+ * round-tripped through the URL query string so filtered views can be shared.
+ *
+ * Example: /orgs?category=Data&tech=rust → all Rust orgs in the Data category.
+ * Example: /orgs?year=2025&tab=dropped → orgs from 2024 that did not return in 2025.
+ */
+
+import { OrgData } from './orgData';
+import { AVAILABLE_YEARS, LATEST_YEAR, OrgYearDataset, getOrgDataset } from './orgDatasets';
+import { searchOrgs } from './orgSearch';
+
+/**
+ * Status tabs. "dropped" lists orgs from the previous year, so it is the
+ * only tab not drawn from the selected year's orgs.
+ */
+export type OrgTab = 'all' | 'new' | 'returning' | 'dropped';
+
+const ORG_TABS: OrgTab[] = ['all', 'new', 'returning', 'dropped'];
+
+/** Facets offered in the directory sidebar */
+export type FacetKey = 'category' | 'tech' | 'topic' | 'license';
+
+/** How selected values of one facet combine: every value must match, or any one */
+export type FacetMode = 'and' | 'or';
+
+export interface OrgFilters {
+    /** Program year */
+    year: number;
+    tab: OrgTab;
+    query: string;
+    mode: FacetMode;
+    /** Selected values per facet (tech/topic values are lowercase) */
+    facets: Record<FacetKey, string[]>;
+}
+
+/** A facet value with the number of orgs it would match */
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+/** Facet order and labels; the key doubles as the URL query parameter */
+export const FACETS: { key: FacetKey; label: string }[] = [
+    { key: 'category', label: 'Categories' },
+    { key: 'tech', label: 'Technologies' },
+    { key: 'topic', label: 'Topics' },
+    { key: 'license', label: 'License' },
+];
+
+export const EMPTY_FILTERS: OrgFilters = {
+    year: LATEST_YEAR,
+    tab: 'all',
+    query: '',
+    mode: 'and',
+    facets: { category: [], tech: [], topic: [], license: [] },
+};
+
+/**
+ * Facet values of one org. Tech and topic tags are lowercased because the
+ * source data mixes casing ("Geoinformation" vs "geoinformation").
+ */
+export function getFacetValues(org: OrgData, facet: FacetKey): string[] {
+    switch (facet) {
+        case 'category':
+            return org.categories ?? [];
+        case 'tech':
+            return (org.tech_tags ?? []).map(t => t.toLowerCase());
+        case 'topic':
+            return (org.topic_tags ?? []).map(t => t.toLowerCase());
+        case 'license':
+            return org.license ? [org.license] : [];
+    }
+}
+
+/** Whether any facet value is selected */
+export function hasActiveFacets(filters: OrgFilters): boolean {
+    return FACETS.some(({ key }) => filters.facets[key].length > 0);
+}
+
+/**
+ * Tabs that can be computed for a year: new/returning need new-org status,
+ * dropped needs an earlier year to compare against.
+ */
+export function getAvailableTabs(dataset: OrgYearDataset): OrgTab[] {
+    return ORG_TABS.filter(tab => {
+        if (tab === 'new' || tab === 'returning') return dataset.hasNewStatus;
+        if (tab === 'dropped') return dataset.previousYear !== null;
+        return true;
+    });
+}
+
+/**
+ * Org list a tab draws from: the previous year's orgs for "dropped", the
+ * selected year's otherwise. Both are stable arrays, so search indexes are reused.
+ */
+export function getTabSource(dataset: OrgYearDataset, tab: OrgTab): OrgData[] {
+    return tab === 'dropped' ? dataset.dropped : dataset.orgs;
+}
+
+/**
+ * Orgs matching the year, tab and free-text query, before facets are applied.
+ * With a query, orgs come back in search rank order.
+ */
+export function filterByTabAndQuery(filters: OrgFilters): OrgData[] {
+    const dataset = getOrgDataset(filters.year);
+    const source = getTabSource(dataset, filters.tab);
+    const inTab = (org: OrgData) => {
+        switch (filters.tab) {
+            case 'new':
+                return dataset.newSlugs.has(org.slug);
+            case 'returning':
+                return dataset.returningSlugs.has(org.slug);
+            default:
+                return true;
+        }
+    };
+    if (!filters.query.trim()) return source.filter(inTab);
+
+    return searchOrgs(source, filters.query)
+        .map(result => result.org)
+        .filter(inTab);
+}
+
+/**
+ * Whether an org satisfies the selected facet values. The mode applies
+ * within each facet (AND: the org has every selected value, OR: at least
+ * one); separate facets always narrow each other.
+ */
+export function matchesFacets(org: OrgData, filters: OrgFilters): boolean {
+    return FACETS.every(({ key }) => {
+        const selected = filters.facets[key];
+        if (selected.length === 0) return true;
+
+        const values = new Set(getFacetValues(org, key));
+        return filters.mode === 'and'
+            ? selected.every(value => values.has(value))
+            : selected.some(value => values.has(value));
+    });
+}
+
+/**
+ * Apply year, tab, query and facets
+ */
+export function filterOrgs(filters: OrgFilters): OrgData[] {
+    return filterByTabAndQuery(filters).filter(org => matchesFacets(org, filters));
+}
+
+/**
+ * Value counts for one facet, most common first.
+ *
+ * In AND mode counts are taken over the current results, so each count is
+ * what selecting that value would leave. In OR mode selecting a value only
+ * widens its own facet, so counts are taken over the orgs matching every
+ * other facet instead.
+ */
+export function getFacetCounts(filters: OrgFilters, facet: FacetKey): FacetCount[] {
+    const scope = filters.mode === 'and'
+        ? filterOrgs(filters)
+        : filterOrgs({ ...filters, facets: { ...filters.facets, [facet]: [] } });
+
+    const counts = new Map<string, number>();
+    for (const org of scope) {
+        for (const value of new Set(getFacetValues(org, facet))) {
+            counts.set(value, (counts.get(value) || 0) + 1);
+        }
+    }
+
+    // Keep selected values visible even when nothing matches them anymore
+    for (const value of filters.facets[facet]) {
+        if (!counts.has(value)) counts.set(value, 0);
+    }
+
+    return Array.from(counts, ([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Read filters from a query string (e.g. `window.location.search`). Unknown
+ * years fall back to the latest one, and tabs the year cannot compute to "all".
+ */
+export function parseOrgFilters(search: string): OrgFilters {
+    const params = new URLSearchParams(search);
+    const facets = { ...EMPTY_FILTERS.facets };
+
+    const requestedYear = Number(params.get('year'));
+    const year = AVAILABLE_YEARS.includes(requestedYear) ? requestedYear : LATEST_YEAR;
+    const requestedTab = params.get('tab') as OrgTab | null;
+    const tab = requestedTab && getAvailableTabs(getOrgDataset(year)).includes(requestedTab)
+        ? requestedTab
+        : 'all';
+
+    for (const { key } of FACETS) {
+        const values = params.getAll(key).filter(Boolean);
+        facets[key] = key === 'tech' || key === 'topic'
+            ? values.map(v => v.toLowerCase())
+            : values;
+    }
+
+    return {
+        year,
+        tab,
+        query: params.get('q') ?? '',
+        mode: params.get('mode') === 'or' ? 'or' : 'and',
+        facets,
+    };
+}
+
+/**
+ * Encode filters as a query string, omitting defaults. Returns '' when no
+ * filter is set, otherwise a string starting with '?'.
+ */
+export function serializeOrgFilters(filters: OrgFilters): string {
+    const params = new URLSearchParams();
+
+    if (filters.year !== LATEST_YEAR) params.set('year', String(filters.year));
+    if (filters.tab !== 'all') params.set('tab', filters.tab);
+    if (filters.query.trim()) params.set('q', filters.query.trim());
+    for (const { key } of FACETS) {
+        for (const value of filters.facets[key]) {
+            params.append(key, value);
+        }
+    }
+    if (filters.mode !== 'and' && hasActiveFacets(filters)) params.set('mode', filters.mode);
+
+    const query = params.toString();
+    return query ? `?${query}` : '';
+}
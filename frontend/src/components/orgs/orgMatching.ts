@@ -0,0 +1,228 @@
+/**
+ * GSoC org recommendations from a user's GitHub history.
+ *
+ * The user's repositories (owner and repo name words) and PR labels become a
+ * weighted term profile, which is matched against each org's tech and topic
+ * tags. Past contributions to an org's own GitHub account weigh most. Every
+ * recommendation carries the reasons that produced it.
+ */
+
+import { UserProfileStats } from '../../types';
+import { GitHubUrlParser } from '../../utils';
+import { OrgData, allOrgs } from './orgData';
+import { normalizeToken, tokenize } from './orgSearch';
+
+/** Score weights: prior contributions to the org outrank shared technologies, which outrank topics */
+const CONTRIBUTED_WEIGHT = 10;
+const TECH_WEIGHT = 3;
+const TOPIC_WEIGHT = 2;
+
+/** A merged PR says more about a user's skills than an open or closed one */
+const MERGED_PR_WEIGHT = 2;
+
+/**
+ * Words too generic to signal interest: common label vocabulary and
+ * repository name filler ("awesome-list", "my-app").
+ */
+const STOP_WORDS = new Set([
+    'api', 'app', 'approved', 'area', 'awesome', 'bug', 'chore', 'ci', 'config',
+    'dependencies', 'deps', 'dev', 'docs', 'documentation', 'dotfiles', 'duplicate',
+    'enhancement', 'example', 'examples', 'feature', 'first', 'fix', 'github', 'good',
+    'help', 'invalid', 'io', 'issue', 'kind', 'lgtm', 'list', 'my', 'needs', 'new',
+    'open', 'priority', 'project', 'question', 'review', 'size', 'source', 'status',
+    'test', 'tests', 'the', 'tool', 'tools', 'type', 'wanted', 'website', 'wip', 'wontfix',
+]);
+
+export type OrgMatchKind = 'contributed' | 'tech' | 'topic';
+
+/** One reason an org was recommended */
+export interface OrgMatchReason {
+    kind: OrgMatchKind;
+    /** Org tag (or GitHub account, for "contributed") that matched */
+    tag: string;
+    /** User repositories and labels behind the match, strongest first */
+    evidence: string[];
+    score: number;
+}
+
+export interface OrgRecommendation {
+    org: OrgData;
+    score: number;
+    /** Strongest reason first */
+    reasons: OrgMatchReason[];
+}
+
+/** A profile term with its weight and where it came from */
+interface ProfileTerm {
+    weight: number;
+    sources: Map<string, number>;
+}
+
+/**
+ * Weighted terms from the user's repositories and PR labels
+ */
+function buildProfile(userStats: UserProfileStats): Map<string, ProfileTerm> {
+    const profile = new Map<string, ProfileTerm>();
+    const username = userStats.username.toLowerCase();
+
+    const add = (term: string, weight: number, source: string) => {
+        if (term.length < 2 || STOP_WORDS.has(term) || term === username) return;
+        const entry = profile.get(term) ?? { weight: 0, sources: new Map<string, number>() };
+        entry.weight += weight;
+        entry.sources.set(source, (entry.sources.get(source) || 0) + weight);
+        profile.set(term, entry);
+    };
+
+    for (const [name, repo] of Object.entries(userStats.repositories)) {
+        const weight = repo.prCount + (MERGED_PR_WEIGHT - 1) * repo.mergedCount;
+        for (const term of new Set(tokenize(name.replace(/[-_.]/g, ' ')))) {
+            add(term, weight, name);
+        }
+    }
+
+    for (const pr of userStats.pullRequests) {
+        const weight = pr.merged ? MERGED_PR_WEIGHT : 1;
+        for (const label of pr.labels) {
+            const source = `label "${label}"`;
+            add(normalizeToken(label.trim()), weight, source);
+            for (const term of new Set(tokenize(label))) {
+                add(term, weight, source);
+            }
+        }
+    }
+
+    return profile;
+}
+
+/**
+ * Dampen large weights: fifty Python PRs should not bury every other signal
+ */
+function dampen(weight: number): number {
+    return 1 + Math.log2(weight);
+}
+
+/**
+ * GitHub account an org's source_code link points at (for repo links, the owner)
+ */
+function getGitHubOwner(org: OrgData): string | null {
+    if (!org.source_code) return null;
+    const info = GitHubUrlParser.detectUrlType(org.source_code);
+    const owner = info.org ?? info.username ?? info.owner;
+    return owner ? owner.toLowerCase() : null;
+}
+
+/**
+ * Match one org's tags of a kind against the profile
+ */
+function matchTags(
+    tags: string[] | undefined,
+    kind: 'tech' | 'topic',
+    profile: Map<string, ProfileTerm>
+): OrgMatchReason[] {
+    const reasons: OrgMatchReason[] = [];
+    const factor = kind === 'tech' ? TECH_WEIGHT : TOPIC_WEIGHT;
+    const seen = new Set<string>();
+
+    for (const tag of tags ?? []) {
+        const whole = normalizeToken(tag.trim());
+        if (seen.has(whole)) continue;
+        seen.add(whole);
+
+        // "machine learning" matches the label as a whole or through its words
+        const terms = profile.has(whole) ? [whole] : tokenize(tag).filter(t => profile.has(t));
+        if (terms.length === 0) continue;
+
+        const sources = new Map<string, number>();
+        let weight = 0;
+        for (const term of terms) {
+            const entry = profile.get(term)!;
+            weight = Math.max(weight, entry.weight);
+            entry.sources.forEach((w, source) => sources.set(source, Math.max(sources.get(source) || 0, w)));
+        }
+
+        reasons.push({
+            kind,
+            tag,
+            evidence: Array.from(sources).sort((a, b) => b[1] - a[1]).map(([source]) => source),
+            // Partial matches through one word of a multi-word tag count half
+            score: factor * dampen(weight) * (terms[0] === whole ? 1 : 0.5),
+        });
+    }
+
+    return reasons;
+}
+
+/**
+ * Rank GSoC orgs for a user.
+ *
+ * @param userStats - Output of GitHubService.fetchUserStats
+ * @param limit - Maximum recommendations
+ * @param orgs - Org list to rank (defaults to the latest program year)
+ */
+export function recommendOrgs(
+    userStats: UserProfileStats,
+    limit: number = 6,
+    orgs: OrgData[] = allOrgs
+): OrgRecommendation[] {
+    const profile = buildProfile(userStats);
+
+    // PRs per repository owner, for direct contribution matches
+    const byOwner = new Map<string, Array<{ repo: string; weight: number }>>();
+    for (const [name, repo] of Object.entries(userStats.repositories)) {
+        const owner = name.split('/')[0].toLowerCase();
+        if (owner === userStats.username.toLowerCase()) continue;
+        const list = byOwner.get(owner) ?? [];
+        list.push({ repo: name, weight: repo.prCount + (MERGED_PR_WEIGHT - 1) * repo.mergedCount });
+        byOwner.set(owner, list);
+    }
+
+    const recommendations: OrgRecommendation[] = [];
+
+    for (const org of orgs) {
+        const reasons: OrgMatchReason[] = [];
+
+        const owner = getGitHubOwner(org);
+        const contributions = owner ? byOwner.get(owner) : undefined;
+        if (owner && contributions) {
+            const total = contributions.reduce((sum, c) => sum + c.weight, 0);
+            reasons.push({
+                kind: 'contributed',
+                tag: owner,
+                evidence: contributions.sort((a, b) => b.weight - a.weight).map(c => c.repo),
+                score: CONTRIBUTED_WEIGHT * dampen(total),
+            });
+        }
+
+        reasons.push(...matchTags(org.tech_tags, 'tech', profile));
+        reasons.push(...matchTags(org.topic_tags, 'topic', profile));
+        if (reasons.length === 0) continue;
+
+        reasons.sort((a, b) => b.score - a.score);
+        recommendations.push({
+            org,
+            score: reasons.reduce((sum, r) => sum + r.score, 0),
+            reasons,
+        });
+    }
+
+    return recommendations
+        .sort((a, b) => b.score - a.score || a.org.name.localeCompare(b.org.name))
+        .slice(0, limit);
+}
+
+/**
+ * One-line explanation of a match reason
+ */
+export function describeReason(reason: OrgMatchReason): string {
+    const evidence = reason.evidence.slice(0, 2).join(', ')
+        + (reason.evidence.length > 2 ? ` and ${reason.evidence.length - 2} more` : '');
+
+    switch (reason.kind) {
+        case 'contributed':
+            return `You've already contributed to ${evidence}`;
+        case 'tech':
+            return `Uses ${reason.tag} — seen in ${evidence}`;
+        case 'topic':
+            return `Works on ${reason.tag} — seen in ${evidence}`;
+    }
+}
@@ -0,0 +1,230 @@
+/**
+ * Local fuzzy search over GSoC organizations.
+ *
+ * Builds an in-memory inverted index from the org list (no server), ranks
+ * hits by field weight and match quality, tolerates typos ("tensorflw" →
+ * "tensorflow") and reports which indexed terms matched so cards can
+ * highlight them.
+ */
+
+import { OrgData } from './orgData';
+
+/** Indexed org fields */
+type SearchField = 'name' | 'tech' | 'topic' | 'tagline' | 'category' | 'description';
+
+/** Field weights: a name hit outranks a tech tag hit, which outranks a description hit */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    name: 10,
+    tech: 6,
+    topic: 4,
+    tagline: 3,
+    category: 2,
+    description: 1,
+};
+
+/** Match quality multipliers */
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+/** Quality lost per edit for typo matches */
+const EDIT_PENALTY = 0.3;
+
+/** Characters that form a token; keeps "c++" and "c#" intact */
+const TOKEN_PATTERN = /[\p{L}\p{N}+#]+/gu;
+
+export interface OrgSearchResult {
+    org: OrgData;
+    score: number;
+    /** Indexed terms that matched, for highlighting */
+    terms: Set<string>;
+}
+
+interface Posting {
+    orgIndex: number;
+    field: SearchField;
+}
+
+/**
+ * Lowercase and strip diacritics so "52°North" and "Görli" match plain input
+ */
+export function normalizeToken(token: string): string {
+    return token.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+    return (text.match(TOKEN_PATTERN) ?? []).map(normalizeToken);
+}
+
+/**
+ * Largest edit distance tolerated for a query token: none for short tokens,
+ * where a single edit already changes the word.
+ */
+function maxEdits(token: string): number {
+    if (token.length <= 3) return 0;
+    if (token.length <= 7) return 1;
+    return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps),
+ * abandoned early once it exceeds `limit`.
+ */
+function editDistance(a: string, b: string, limit: number): number {
+    if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+    let prevPrev: number[] = [];
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                value = Math.min(value, prevPrev[j - 2] + 1);
+            }
+            current.push(value);
+            rowMin = Math.min(rowMin, value);
+        }
+
+        if (rowMin > limit) return limit + 1;
+        prevPrev = prev;
+        prev = current;
+    }
+
+    return prev[b.length];
+}
+
+/**
+ * Inverted index over one org list
+ */
+export class OrgSearchIndex {
+    private readonly postings = new Map<string, Posting[]>();
+    private lastQuery: string | null = null;
+    private lastResults: OrgSearchResult[] = [];
+
+    constructor(private readonly orgs: OrgData[]) {
+        orgs.forEach((org, orgIndex) => {
+            // Also index the name run together, so "52north" finds "52°North"
+            this.addField(orgIndex, 'name', [org.name, tokenize(org.name).join('')]);
+            this.addField(orgIndex, 'tech', org.tech_tags ?? []);
+            this.addField(orgIndex, 'topic', org.topic_tags ?? []);
+            this.addField(orgIndex, 'tagline', org.tagline ? [org.tagline] : []);
+            this.addField(orgIndex, 'category', org.categories ?? []);
+            this.addField(orgIndex, 'description', org.description ? [org.description] : []);
+        });
+    }
+
+    /**
+     * Ranked orgs matching every query token (exactly, by prefix, or within
+     * the typo budget). The last query is memoized: the directory asks for
+     * the same query several times per render.
+     */
+    public search(query: string): OrgSearchResult[] {
+        const normalized = query.trim().toLowerCase();
+        if (normalized === this.lastQuery) return this.lastResults;
+
+        const tokens = tokenize(query);
+        const results = tokens.length === 0 ? [] : this.rank(tokens);
+
+        this.lastQuery = normalized;
+        this.lastResults = results;
+        return results;
+    }
+
+    private addField(orgIndex: number, field: SearchField, values: string[]): void {
+        for (const value of values) {
+            for (const token of tokenize(value)) {
+                const list = this.postings.get(token) ?? [];
+                if (!list.some(p => p.orgIndex === orgIndex && p.field === field)) {
+                    list.push({ orgIndex, field });
+                }
+                this.postings.set(token, list);
+            }
+        }
+    }
+
+    /**
+     * Indexed terms a query token matches, with their match quality
+     */
+    private expand(token: string): Array<{ term: string; quality: number }> {
+        const limit = maxEdits(token);
+        const matches: Array<{ term: string; quality: number }> = [];
+
+        for (const term of this.postings.keys()) {
+            if (term === token) {
+                matches.push({ term, quality: EXACT_MATCH });
+            } else if (token.length >= 2 && term.startsWith(token)) {
+                matches.push({ term, quality: PREFIX_MATCH });
+            } else if (limit > 0) {
+                const distance = editDistance(token, term, limit);
+                if (distance <= limit) {
+                    matches.push({ term, quality: EXACT_MATCH - EDIT_PENALTY * distance });
+                }
+            }
+        }
+
+        return matches;
+    }
+
+    private rank(tokens: string[]): OrgSearchResult[] {
+        const scores = new Map<number, { score: number; terms: Set<string> }>();
+
+        tokens.forEach((token, position) => {
+            // Best hit per org for this token
+            const best = new Map<number, { score: number; terms: string[] }>();
+
+            for (const { term, quality } of this.expand(token)) {
+                for (const { orgIndex, field } of this.postings.get(term) ?? []) {
+                    const score = FIELD_WEIGHTS[field] * quality;
+                    const entry = best.get(orgIndex);
+                    if (!entry) {
+                        best.set(orgIndex, { score, terms: [term] });
+                    } else {
+                        entry.score = Math.max(entry.score, score);
+                        entry.terms.push(term);
+                    }
+                }
+            }
+
+            // Every token must match: drop orgs missing this one
+            if (position > 0) {
+                for (const orgIndex of scores.keys()) {
+                    if (!best.has(orgIndex)) scores.delete(orgIndex);
+                }
+            }
+
+            for (const [orgIndex, hit] of best) {
+                const entry = scores.get(orgIndex);
+                if (position === 0) {
+                    scores.set(orgIndex, { score: hit.score, terms: new Set(hit.terms) });
+                } else if (entry) {
+                    entry.score += hit.score;
+                    hit.terms.forEach(term => entry.terms.add(term));
+                }
+            }
+        });
+
+        return Array.from(scores, ([orgIndex, { score, terms }]) => ({
+            org: this.orgs[orgIndex],
+            score,
+            terms,
+        })).sort((a, b) => b.score - a.score || a.org.name.localeCompare(b.org.name));
+    }
+}
+
+/** One index per org list, built on first search */
+const indexes = new WeakMap<OrgData[], OrgSearchIndex>();
+
+/**
+ * Search an org list, building (and caching) its index on first use
+ */
+export function searchOrgs(orgs: OrgData[], query: string): OrgSearchResult[] {
+    let index = indexes.get(orgs);
+    if (!index) {
+        index = new OrgSearchIndex(orgs);
+        indexes.set(orgs, index);
+    }
+    return index.search(query);
+}
@@ -0,0 +1,171 @@
+import { Activity } from 'lucide-react';
+import React from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ActivityDataPoint, TimeFilter, TimelineGranularity } from '../../types';
+import { ActivityTimeline, MOVING_AVERAGE_WINDOWS } from '../../utils';
+
+/**
+ * Activity chart component props
+ */
+interface ActivityChartProps {
+    /** Daily activity points */
+    timeline: ActivityDataPoint[];
+    /** Time filter the timeline covers; picks the automatic granularity */
+    timeFilter: TimeFilter;
+}
+
+/**
+ * Activity chart component state
+ */
+interface ActivityChartState {
+    granularity: TimelineGranularity | 'auto';
+    smoothed: boolean;
+}
+
+/**
+ * Chart row: bucket counts plus their moving averages
+ */
+interface ChartPoint extends ActivityDataPoint {
+    openedAvg: number;
+    mergedAvg: number;
+    closedAvg: number;
+}
+
+const GRANULARITY_OPTIONS: { value: ActivityChartState['granularity']; label: string }[] = [
+    { value: 'auto', label: 'Auto' },
+    { value: 'day', label: 'Daily' },
+    { value: 'week', label: 'Weekly' },
+    { value: 'month', label: 'Monthly' },
+];
+
+const SERIES: { key: 'opened' | 'merged' | 'closed'; name: string; color: string }[] = [
+    { key: 'opened', name: 'Opened', color: 'var(--accent-teal)' },
+    { key: 'merged', name: 'Merged', color: 'var(--accent-purple)' },
+    { key: 'closed', name: 'Closed', color: 'var(--accent-red)' },
+];
+
+/**
+ * Opened/merged/closed PRs over time, bucketed by day, week or month with an
+ * optional moving average
+ */
+export class ActivityChart extends React.Component<ActivityChartProps, ActivityChartState> {
+    constructor(props: ActivityChartProps) {
+        super(props);
+        this.state = {
+            granularity: 'auto',
+            smoothed: false,
+        };
+    }
+
+    private getGranularity(): TimelineGranularity {
+        const { granularity } = this.state;
+        return granularity === 'auto'
+            ? ActivityTimeline.pickGranularity(this.props.timeFilter)
+            : granularity;
+    }
+
+    /**
+     * Bucketed points joined with their moving averages
+     */
+    private getChartData(granularity: TimelineGranularity): ChartPoint[] {
+        const points = ActivityTimeline.bucket(this.props.timeline, granularity);
+        const averages = ActivityTimeline.movingAverage(points, MOVING_AVERAGE_WINDOWS[granularity]);
+
+        return points.map((point, index) => ({
+            ...point,
+            openedAvg: averages[index].opened,
+            mergedAvg: averages[index].merged,
+            closedAvg: averages[index].closed,
+        }));
+    }
+
+    private handleGranularityChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+        this.setState({ granularity: e.target.value as ActivityChartState['granularity'] });
+    };
+
+    private toggleSmoothed = (): void => {
+        this.setState(state => ({ smoothed: !state.smoothed }));
+    };
+
+    public render(): React.ReactNode {
+        const { granularity, smoothed } = this.state;
+
+        if (this.props.timeline.length === 0) {
+            return null;
+        }
+
+        const bucketSize = this.getGranularity();
+        const data = this.getChartData(bucketSize);
+        const averageWindow = MOVING_AVERAGE_WINDOWS[bucketSize];
+
+        return (
+            <div className="activity-chart">
+                <div className="activity-chart-header">
+                    <h3 className="section-title">
+                        <Activity className="w-5 h-5" aria-hidden="true" />
+                        Activity
+                    </h3>
+                    <div className="activity-chart-controls">
+                        <select
+                            className="activity-chart-select"
+                            value={granularity}
+                            onChange={this.handleGranularityChange}
+                            aria-label="Chart granularity"
+                        >
+                            {GRANULARITY_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>
+                                    {option.value === 'auto'
+                                        ? `Auto (${bucketSize})`
+                                        : option.label}
+                                </option>
+                            ))}
+                        </select>
+                        <label className="activity-chart-toggle">
+                            <input type="checkbox" checked={smoothed} onChange={this.toggleSmoothed} />
+                            {averageWindow}-{bucketSize} average
+                        </label>
+                    </div>
+                </div>
+
+                <ResponsiveContainer width="100%" height={260}>
+                    <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                            dataKey="date"
+                            tickFormatter={(date: string) =>
+                                ActivityTimeline.formatBucket(date, bucketSize === 'month' ? 'month' : 'day')
+                            }
+                            tick={{ fontSize: 11 }}
+                            minTickGap={24}
+                        />
+                        <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                        <Tooltip
+                            labelFormatter={(date: string) => ActivityTimeline.formatBucket(date, bucketSize)}
+                            formatter={(value: number) => Number.isInteger(value) ? value : value.toFixed(1)}
+                            contentStyle={{
+                                background: 'var(--bg-elevated)',
+                                color: 'var(--text-primary)',
+                                border: '1px solid var(--border-default)',
+                                borderRadius: 8,
+                                fontSize: 12,
+                            }}
+                        />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
+                        {SERIES.map(series => (
+                            <Line
+                                key={series.key}
+                                type="monotone"
+                                dataKey={smoothed ? `${series.key}Avg` : series.key}
+                                name={series.name}
+                                stroke={series.color}
+                                strokeWidth={2}
+                                dot={false}
+                                isAnimationActive={false}
+                            />
+                        ))}
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+        );
+    }
+}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CycleStage, CycleTimeBucket } from '../../types';
+import { CYCLE_STAGES, CYCLE_STAGE_LABELS } from '../../utils';
+
+/**
+ * Cycle time chart component props
+ */
+interface CycleTimeChartProps {
+    histogram: CycleTimeBucket[];
+}
+
+const STAGE_COLORS: Record<CycleStage, string> = {
+    firstReview: 'var(--accent-teal)',
+    reviewToApproval: 'var(--accent-orange)',
+    approvalToMerge: 'var(--accent-purple)',
+};
+
+/**
+ * Distribution of review cycle stage durations
+ */
+export class CycleTimeChart extends React.Component<CycleTimeChartProps> {
+    public render(): React.ReactNode {
+        const data = this.props.histogram.map(bucket => ({ label: bucket.label, ...bucket.counts }));
+
+        return (
+            <div className="cycle-time-chart">
+                <ResponsiveContainer width="100%" height={220}>
+                    <BarChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                        <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                        <Tooltip
+                            contentStyle={{
+                                background: 'var(--bg-elevated)',
+                                color: 'var(--text-primary)',
+                                border: '1px solid var(--border-default)',
+                                borderRadius: 8,
+                                fontSize: 12,
+                            }}
+                        />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
+                        {CYCLE_STAGES.map(stage => (
+                            <Bar
+                                key={stage}
+                                dataKey={stage}
+                                name={CYCLE_STAGE_LABELS[stage]}
+                                fill={STAGE_COLORS[stage]}
+                                radius={[3, 3, 0, 0]}
+                                isAnimationActive={false}
+                            />
+                        ))}
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        );
+    }
+}
@@ -0,0 +1,139 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import React from 'react';
+import { AttentionReason, AttentionThresholds, PullRequest } from '../../types';
+import { ATTENTION_REASON_LABELS, PullRequestAttention } from '../../utils';
+
+/**
+ * Needs attention panel props
+ */
+interface NeedsAttentionProps {
+    /** Open PRs of the repository, whenever they were opened */
+    prs: PullRequest[];
+    thresholds: AttentionThresholds;
+    onThresholdsChange: (thresholds: AttentionThresholds) => void;
+}
+
+const STALE_DAY_OPTIONS = [7, 14, 30, 60, 90];
+const AWAITING_REVIEW_DAY_OPTIONS = [1, 2, 3, 7, 14];
+
+const REASONS: AttentionReason[] = ['stale', 'awaitingReview', 'conflicting', 'failingChecks'];
+
+/**
+ * Open PRs that are stale, waiting for a first review, conflicting or
+ * failing checks, with the thresholds editable in place
+ */
+export class NeedsAttention extends React.Component<NeedsAttentionProps> {
+    private handleThresholdChange = (key: keyof AttentionThresholds, value: string): void => {
+        this.props.onThresholdsChange({ ...this.props.thresholds, [key]: parseInt(value, 10) });
+    };
+
+    /**
+     * Day count select; keeps a stored value that isn't one of the options
+     */
+    private renderThresholdSelect(
+        key: keyof AttentionThresholds,
+        label: string,
+        options: number[]
+    ): React.ReactNode {
+        const value = this.props.thresholds[key];
+        const days = options.includes(value) ? options : [...options, value].sort((a, b) => a - b);
+
+        return (
+            <label className="needs-attention-threshold">
+                {label}
+                <select
+                    className="activity-chart-select"
+                    value={value}
+                    onChange={e => this.handleThresholdChange(key, e.target.value)}
+                >
+                    {days.map(day => (
+                        <option key={day} value={day}>
+                            {day} {day === 1 ? 'day' : 'days'}
+                        </option>
+                    ))}
+                </select>
+            </label>
+        );
+    }
+
+    public render(): React.ReactNode {
+        const { prs, thresholds } = this.props;
+
+        const openPRs = prs.filter(pr => pr.state === 'open');
+        if (openPRs.length === 0) {
+            return null;
+        }
+
+        const items = PullRequestAttention.findPullRequests(openPRs, thresholds);
+        // Merge and check status come from GraphQL, which needs a token
+        const hasStatus = openPRs.some(pr => pr.mergeable != null);
+
+        return (
+            <div className="needs-attention">
+                <div className="contributor-list-header">
+                    <h3 className="contributor-list-title needs-attention-title">
+                        <AlertTriangle className="w-5 h-5" aria-hidden="true" />
+                        Needs Attention ({items.length})
+                    </h3>
+                    <div className="needs-attention-thresholds">
+                        {this.renderThresholdSelect('staleDays', 'Stale after', STALE_DAY_OPTIONS)}
+                        {this.renderThresholdSelect('awaitingReviewDays', 'Review wait', AWAITING_REVIEW_DAY_OPTIONS)}
+                    </div>
+                </div>
+
+                {items.length > 0 && (
+                    <div className="needs-attention-summary">
+                        {REASONS.map(reason => {
+                            const count = items.filter(item => item.reasons.includes(reason)).length;
+                            return count > 0 ? (
+                                <span key={reason} className={`attention-badge ${reason}`}>
+                                    {ATTENTION_REASON_LABELS[reason]}: {count}
+                                </span>
+                            ) : null;
+                        })}
+                    </div>
+                )}
+
+                {items.length === 0 ? (
+                    <p className="needs-attention-empty">
+                        <CheckCircle2 className="w-4 h-4" aria-hidden="true" />
+                        None of the {openPRs.length} open PRs need attention
+                    </p>
+                ) : (
+                    <div className="pr-list">
+                        {items.map(({ pr, reasons, idleDays, openDays }) => (
+                            <a
+                                key={pr.htmlUrl}
+                                href={pr.htmlUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="pr-item"
+                            >
+                                <div className="pr-item-header">
+                                    {reasons.map(reason => (
+                                        <span key={reason} className={`attention-badge ${reason}`}>
+                                            {ATTENTION_REASON_LABELS[reason]}
+                                        </span>
+                                    ))}
+                                    <span className="pr-author">by {pr.user.login}</span>
+                                </div>
+                                <h4 className="pr-title">{pr.title}</h4>
+                                <div className="pr-meta">
+                                    <span className="pr-number">#{pr.number}</span>
+                                    <span className="pr-date">
+                                        Opened {openDays}d ago • idle {idleDays}d
+                                    </span>
+                                </div>
+                            </a>
+                        ))}
+                    </div>
+                )}
+
+                <p className="review-activity-note needs-attention-note">
+                    All open PRs, whenever they were opened.
+                    {!hasStatus && ' Add a GitHub token to also detect merge conflicts and failing checks.'}
+                </p>
+            </div>
+        );
+    }
+}
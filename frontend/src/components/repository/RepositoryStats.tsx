@@ -1,9 +1,19 @@
-import { GitMerge, GitPullRequest, GitPullRequestDraft, Tag } from 'lucide-react';
-import React from 'react';
+import { CheckCircle2, Eye, GitMerge, GitPullRequest, GitPullRequestDraft, Tag, Timer, UserPlus, Users, XCircle } from 'lucide-react';
+import React, { Suspense } from 'react';
 import { PullRequest, RepositoryStats as RepositoryStatsType } from '../../types';
+import { ActivityTimeline, Concentration, DateUtils, Retention } from '../../utils';
 import { Card } from '../common/Card';
+import { CycleTimeTable } from '../common/CycleTimeTable';
 import { Modal } from '../common/Modal';
 
+// Lazy-loaded: recharts stays out of the initial bundle
+const ActivityChart = React.lazy(() =>
+    import('./ActivityChart').then(m => ({ default: m.ActivityChart }))
+);
+const CycleTimeChart = React.lazy(() =>
+    import('./CycleTimeChart').then(m => ({ default: m.CycleTimeChart }))
+);
+
 /**
  * PR filter type for stat cards
  */
@@ -14,8 +24,15 @@ type StatFilter = 'all' | 'merged' | 'open' | 'labels' | null;
  */
 interface RepositoryStatsProps {
     stats: RepositoryStatsType;
+    /** Time zone the activity chart counts days in */
+    timeZone: string;
 }
 
+/**
+ * Stats that depend on the time zone days are counted in
+ */
+type ZonedStats = Pick<RepositoryStatsType, 'activityTimeline' | 'retention' | 'concentration'>;
+
 /**
  * Repository stats component state
  */
@@ -27,6 +44,9 @@ interface RepositoryStatsState {
  * Repository statistics display component with clickable stats
  */
 export class RepositoryStats extends React.Component<RepositoryStatsProps, RepositoryStatsState> {
+    /** Last time zone recomputation, reused while the inputs stay the same */
+    private zonedStats: { stats: RepositoryStatsType; timeZone: string; result: ZonedStats } | null = null;
+
     constructor(props: RepositoryStatsProps) {
         super(props);
         this.state = {
@@ -102,6 +122,44 @@ export class RepositoryStats extends React.Component<RepositoryStatsProps, Repos
         return `${Math.floor(diffDays / 365)} years ago`;
     }
 
+    /**
+     * Activity timeline, retention and concentration in the selected time
+     * zone; recomputed from the PRs when the analysis ran in another one
+     */
+    private getZonedStats(): ZonedStats {
+        const { stats, timeZone } = this.props;
+        if (stats.timeZone === timeZone) {
+            return stats;
+        }
+
+        const cached = this.zonedStats;
+        if (cached?.stats !== stats || cached.timeZone !== timeZone) {
+            this.zonedStats = {
+                stats,
+                timeZone,
+                result: {
+                    activityTimeline: ActivityTimeline.fromPullRequests(stats.recentPRs, stats.timeFilter, timeZone),
+                    retention: Retention.getStats(
+                        stats.recentPRs,
+                        stats.contributors,
+                        DateUtils.getEndDate(stats.timeFilter, timeZone),
+                        timeZone
+                    ),
+                    concentration: Concentration.getStats(stats.contributors, stats.recentPRs, stats.timeFilter, timeZone),
+                },
+            };
+        }
+        return this.zonedStats!.result;
+    }
+
+    /**
+     * Share of eligible first-timers who came back, e.g. "40% (2/5)"
+     */
+    private formatReturnRate(returned: number, eligible: number): string {
+        if (eligible === 0) return '—';
+        return `${Math.round((returned / eligible) * 100)}% (${returned}/${eligible})`;
+    }
+
     /**
      * Render stat card
      */
@@ -211,6 +269,270 @@ export class RepositoryStats extends React.Component<RepositoryStatsProps, Repos
         );
     }
 
+    /**
+     * Render review activity: timing summary and top reviewers
+     */
+    private renderReviewActivity(): React.ReactNode {
+        const { reviewStats } = this.props.stats;
+
+        if (reviewStats.reviewedPRs === 0) {
+            return null;
+        }
+
+        return (
+            <div className="review-activity">
+                <div className="review-activity-header">
+                    <h3 className="section-title">
+                        <Eye className="w-5 h-5" aria-hidden="true" />
+                        Review Activity
+                    </h3>
+                    <span className="review-activity-note">
+                        Based on the {reviewStats.reviewedPRs} most recent PRs
+                    </span>
+                </div>
+
+                <div className="review-summary-grid">
+                    <div className="review-summary-item">
+                        <p className="review-summary-value">{reviewStats.totalReviews}</p>
+                        <p className="review-summary-label">Reviews</p>
+                    </div>
+                    <div className="review-summary-item">
+                        <p className="review-summary-value">
+                            {reviewStats.avgTimeToFirstReview > 0
+                                ? DateUtils.formatDuration(reviewStats.avgTimeToFirstReview)
+                                : '—'}
+                        </p>
+                        <p className="review-summary-label">Avg. time to first review</p>
+                    </div>
+                    <div className="review-summary-item">
+                        <p className="review-summary-value">
+                            {reviewStats.avgTimeToMerge > 0
+                                ? DateUtils.formatDuration(reviewStats.avgTimeToMerge)
+                                : '—'}
+                        </p>
+                        <p className="review-summary-label">Avg. time to merge</p>
+                    </div>
+                </div>
+
+                {reviewStats.topReviewers.length > 0 ? (
+                    <ul className="reviewer-list">
+                        {reviewStats.topReviewers.map(reviewer => (
+                            <li key={reviewer.username} className="reviewer-item">
+                                <img
+                                    src={reviewer.avatarUrl}
+                                    alt={`${reviewer.username}'s avatar`}
+                                    className="reviewer-avatar"
+                                    loading="lazy"
+                                />
+                                <span className="reviewer-name">{reviewer.username}</span>
+                                <span className="reviewer-count">{reviewer.reviewCount} reviews</span>
+                                <span className="reviewer-approved" title="Approved">
+                                    <CheckCircle2 className="w-3 h-3" aria-hidden="true" />
+                                    {reviewer.approvedCount}
+                                </span>
+                                <span className="reviewer-changes" title="Changes requested">
+                                    <XCircle className="w-3 h-3" aria-hidden="true" />
+                                    {reviewer.changesRequestedCount}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="review-activity-note">No reviews from other contributors yet</p>
+                )}
+            </div>
+        );
+    }
+
+    /**
+     * Render cycle time: percentiles per stage and their distribution
+     */
+    private renderCycleTime(): React.ReactNode {
+        const { cycleTime } = this.props.stats;
+
+        if (!CycleTimeTable.hasData(cycleTime.breakdown)) {
+            return null;
+        }
+
+        return (
+            <div className="cycle-time">
+                <div className="review-activity-header">
+                    <h3 className="section-title">
+                        <Timer className="w-5 h-5" aria-hidden="true" />
+                        Cycle Time
+                    </h3>
+                    <span className="review-activity-note">
+                        PRs without reviews by others are left out
+                    </span>
+                </div>
+
+                <CycleTimeTable breakdown={cycleTime.breakdown} />
+
+                <Suspense fallback={null}>
+                    <CycleTimeChart histogram={cycleTime.histogram} />
+                </Suspense>
+            </div>
+        );
+    }
+
+    /**
+     * Render first-time contributor retention: totals and monthly cohorts
+     */
+    private renderRetention(): React.ReactNode {
+        const { retention } = this.getZonedStats();
+        if (this.props.stats.contributors.length === 0) {
+            return null;
+        }
+
+        return (
+            <div className="retention">
+                <div className="review-activity-header">
+                    <h3 className="section-title">
+                        <UserPlus className="w-5 h-5" aria-hidden="true" />
+                        Contributor Retention
+                    </h3>
+                    <span className="review-activity-note">
+                        Rates count only first-timers whose first PR is at least 30 or 90 days old
+                    </span>
+                </div>
+
+                {!retention.available ? (
+                    <p className="review-activity-note">
+                        Add a GitHub token to tell first-time contributors apart from returning ones.
+                    </p>
+                ) : (
+                    <>
+                        <div className="review-summary-grid">
+                            <div className="review-summary-item">
+                                <p className="review-summary-value">{retention.firstTimers}</p>
+                                <p className="review-summary-label">
+                                    First-timers of {this.props.stats.contributors.length} contributors
+                                </p>
+                            </div>
+                            <div className="review-summary-item">
+                                <p className="review-summary-value">
+                                    {this.formatReturnRate(retention.returned30d, retention.eligible30d)}
+                                </p>
+                                <p className="review-summary-label">Returned within 30 days</p>
+                            </div>
+                            <div className="review-summary-item">
+                                <p className="review-summary-value">
+                                    {this.formatReturnRate(retention.returned90d, retention.eligible90d)}
+                                </p>
+                                <p className="review-summary-label">Returned within 90 days</p>
+                            </div>
+                        </div>
+
+                        {retention.cohorts.length > 0 && (
+                            <table className="cycle-time-table">
+                                <thead>
+                                    <tr>
+                                        <th scope="col">First PR in</th>
+                                        <th scope="col">First-timers</th>
+                                        <th scope="col">Returned in 30d</th>
+                                        <th scope="col">Returned in 90d</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {retention.cohorts.map(cohort => (
+                                        <tr key={cohort.month}>
+                                            <th scope="row">
+                                                {ActivityTimeline.formatBucket(`${cohort.month}-01`, 'month')}
+                                            </th>
+                                            <td>{cohort.firstTimers}</td>
+                                            <td>{this.formatReturnRate(cohort.returned30d, cohort.eligible30d)}</td>
+                                            <td>{this.formatReturnRate(cohort.returned90d, cohort.eligible90d)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </>
+                )}
+            </div>
+        );
+    }
+
+    /**
+     * Render contribution concentration: bus factor, Gini and top-N shares,
+     * for the window and per period
+     */
+    private renderConcentration(): React.ReactNode {
+        const { concentration } = this.getZonedStats();
+        if (concentration.totalPRs === 0) {
+            return null;
+        }
+
+        const percent = (share: number) => `${Math.round(share * 100)}%`;
+        const formatDay = (day: string) => ActivityTimeline.formatBucket(day, 'day');
+
+        return (
+            <div className="concentration">
+                <div className="review-activity-header">
+                    <h3 className="section-title">
+                        <Users className="w-5 h-5" aria-hidden="true" />
+                        Contribution Concentration
+                    </h3>
+                    {concentration.busFactor === 1 && (
+                        <span className="concentration-warning">
+                            One contributor accounts for half of the merged PRs
+                        </span>
+                    )}
+                </div>
+
+                <div className="review-summary-grid">
+                    <div className="review-summary-item">
+                        <p className="review-summary-value">{concentration.busFactor || '—'}</p>
+                        <p className="review-summary-label">Bus factor (contributors behind half the merges)</p>
+                    </div>
+                    <div className="review-summary-item">
+                        <p className="review-summary-value">{concentration.gini.toFixed(2)}</p>
+                        <p className="review-summary-label">Gini coefficient of PRs per contributor</p>
+                    </div>
+                    <div className="review-summary-item">
+                        <p className="review-summary-value">
+                            {percent(concentration.top1Share)} / {percent(concentration.top5Share)} / {percent(concentration.top10Share)}
+                        </p>
+                        <p className="review-summary-label">PRs from the top 1 / 5 / 10 contributors</p>
+                    </div>
+                </div>
+
+                {concentration.trend.length > 1 && (
+                    <table className="cycle-time-table">
+                        <thead>
+                            <tr>
+                                <th scope="col">Period</th>
+                                <th scope="col">PRs</th>
+                                <th scope="col">Bus factor</th>
+                                <th scope="col">Gini</th>
+                                <th scope="col">Top 1</th>
+                                <th scope="col">Top 5</th>
+                                <th scope="col">Top 10</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {concentration.trend.map(point => (
+                                <tr key={point.from}>
+                                    <th scope="row">
+                                        {point.from === point.to
+                                            ? formatDay(point.from)
+                                            : `${formatDay(point.from)} – ${formatDay(point.to)}`}
+                                    </th>
+                                    <td>{point.totalPRs}</td>
+                                    <td>{point.busFactor || '—'}</td>
+                                    <td>{point.totalPRs > 0 ? point.gini.toFixed(2) : '—'}</td>
+                                    <td>{point.totalPRs > 0 ? percent(point.top1Share) : '—'}</td>
+                                    <td>{point.totalPRs > 0 ? percent(point.top5Share) : '—'}</td>
+                                    <td>{point.totalPRs > 0 ? percent(point.top10Share) : '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        );
+    }
+
     /**
      * Render modal content
      */
@@ -244,7 +566,7 @@ export class RepositoryStats extends React.Component<RepositoryStatsProps, Repos
                                 {stats.owner}/{stats.repo}
                             </h2>
                             <p className="repo-stats-subtitle">
-                                {stats.branch || 'All branches'} • Last {stats.timeFilter === 'all' ? 'all time' : stats.timeFilter}
+                                {stats.branch || 'All branches'} • {DateUtils.describeTimeFilter(stats.timeFilter)}
                             </p>
                         </div>
                     </div>
@@ -279,6 +601,18 @@ export class RepositoryStats extends React.Component<RepositoryStatsProps, Repos
                             'labels'
                         )}
                     </div>
+
+                    <Suspense fallback={null}>
+                        <ActivityChart timeline={this.getZonedStats().activityTimeline} timeFilter={stats.timeFilter} />
+                    </Suspense>
+
+                    {this.renderReviewActivity()}
+
+                    {this.renderCycleTime()}
+
+                    {this.renderRetention()}
+
+                    {this.renderConcentration()}
                 </Card>
 
                 {/* PR List Modal */}
@@ -1,2 +1,3 @@
+export { NeedsAttention } from "./NeedsAttention";
 export { RepositoryForm } from "./RepositoryForm";
 export { RepositoryStats } from "./RepositoryStats";
@@ -1,13 +1,30 @@
-import { ExternalLink, GitMerge, GitPullRequest, MapPin, Users } from 'lucide-react';
-import React from 'react';
-import { PullRequest, UserProfileStats } from '../../types';
+import { CalendarDays, CalendarRange, Crown, ExternalLink, GitMerge, GitPullRequest, MapPin, Users } from 'lucide-react';
+import React, { Suspense } from 'react';
+import CalendarHeatmap from 'react-calendar-heatmap';
+import { MaintainerEvidence, PullRequest, UserProfileStats } from '../../types';
+import { ActivityTimeline, DateUtils, PROGRAM_PHASE_LABELS, ProgramCalendar, ProgramPhase } from '../../utils';
 import { Card } from '../common/Card';
 
+// Lazy-loaded: recommendations need the org JSON, which stays out of the initial bundle
+const OrgRecommendations = React.lazy(() =>
+    import('../orgs').then(m => ({ default: m.OrgRecommendations }))
+);
+
+/** Range of the contribution heatmap */
+const HEATMAP_TIME_FILTER = '12m';
+
+/** Daily PR count that gets the darkest heatmap shade */
+const HEATMAP_MAX_SCALE = 4;
+
 /**
  * User analytics component props
  */
 interface UserAnalyticsProps {
     userStats: UserProfileStats;
+    /** Time zone the heatmap counts days in */
+    timeZone: string;
+    /** Opens a recommended org's /orgs/:slug detail page */
+    onOpenOrg?: (slug: string) => void;
 }
 
 /**
@@ -16,6 +33,8 @@ interface UserAnalyticsProps {
 interface UserAnalyticsState {
     selectedRepo: string;
     prFilter: 'all' | 'open' | 'merged' | 'closed';
+    /** GSoC year the activity is split by */
+    phaseYear: number | null;
 }
 
 /**
@@ -28,6 +47,7 @@ export class UserAnalytics extends React.Component<UserAnalyticsProps, UserAnaly
         this.state = {
             selectedRepo: '',
             prFilter: 'all',
+            phaseYear: ProgramCalendar.getYears()[0] ?? null,
         };
     }
 
@@ -61,7 +81,12 @@ export class UserAnalytics extends React.Component<UserAnalyticsProps, UserAnaly
     /**
      * Get repositories sorted by PR count
      */
-    private getSortedRepos(): Array<{ name: string; prCount: number; mergedCount: number }> {
+    private getSortedRepos(): Array<{
+        name: string;
+        prCount: number;
+        mergedCount: number;
+        maintainerEvidence: MaintainerEvidence | null;
+    }> {
         const { userStats } = this.props;
 
         return Object.entries(userStats.repositories)
@@ -69,6 +94,7 @@ export class UserAnalytics extends React.Component<UserAnalyticsProps, UserAnaly
                 name,
                 prCount: data.prCount,
                 mergedCount: data.mergedCount,
+                maintainerEvidence: data.maintainerEvidence ?? null,
             }))
             .sort((a, b) => b.prCount - a.prCount);
     }
@@ -172,6 +198,7 @@ export class UserAnalytics extends React.Component<UserAnalyticsProps, UserAnaly
             { label: 'Merged', value: totalStats.mergedPRs, color: 'merged' },
             { label: 'Open', value: totalStats.openPRs, color: 'open' },
             { label: 'Merge Rate', value: `${mergeRate}%`, color: 'rate' },
+            { label: 'Maintains', value: userStats.maintainerRepos.length, color: 'maintainer' },
         ];
 
         return (
@@ -186,6 +213,106 @@ export class UserAnalytics extends React.Component<UserAnalyticsProps, UserAnaly
         );
     }
 
+    /**
+     * Render PRs opened per day over the last year
+     */
+    private renderActivityHeatmap(): React.ReactNode {
+        const { userStats, timeZone } = this.props;
+        const days = ActivityTimeline.fromPullRequests(userStats.pullRequests, HEATMAP_TIME_FILTER, timeZone);
+        if (days.length === 0) return null;
+
+        // The heatmap lays days out in local time and excludes startDate;
+        // give it local midnights
+        const toLocalDate = (day: string) => {
+            const [year, month, date] = day.split('-').map(Number);
+            return new Date(year, month - 1, date);
+        };
+        const values = days
+            .filter(day => day.opened > 0)
+            .map(day => ({ date: toLocalDate(day.date), count: day.opened }));
+
+        return (
+            <Card className="activity-heatmap-section animate-in">
+                <h3 className="section-title">
+                    <CalendarDays className="w-5 h-5" aria-hidden="true" />
+                    PRs opened in the last year
+                </h3>
+                <div className="activity-heatmap">
+                    <CalendarHeatmap
+                        startDate={toLocalDate(DateUtils.addDays(days[0].date, -1))}
+                        endDate={toLocalDate(days[days.length - 1].date)}
+                        values={values}
+                        classForValue={value =>
+                            value ? `color-scale-${Math.min(value.count, HEATMAP_MAX_SCALE)}` : 'color-empty'
+                        }
+                        titleForValue={value =>
+                            value
+                                ? `${value.count} PR${value.count === 1 ? '' : 's'} on ${value.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`
+                                : 'No PRs'
+                        }
+                        showWeekdayLabels
+                    />
+                </div>
+                <p className="show-more-hint">
+                    Days counted in {timeZone}; only PRs opened within the analyzed time range are shown
+                </p>
+            </Card>
+        );
+    }
+
+    /**
+     * Render the user's PRs split by GSoC program phase
+     */
+    private renderProgramPhases(): React.ReactNode {
+        const { phaseYear } = this.state;
+        const timeline = phaseYear !== null ? ProgramCalendar.getTimeline(phaseYear) : null;
+        if (!timeline) return null;
+
+        const { userStats, timeZone } = this.props;
+        const split = ProgramCalendar.splitByPhase(userStats.pullRequests, timeline, timeZone);
+        const phases = Object.keys(PROGRAM_PHASE_LABELS) as ProgramPhase[];
+
+        return (
+            <Card className="program-phases-section animate-in">
+                <div className="program-phases-header">
+                    <h3 className="section-title">
+                        <CalendarRange className="w-5 h-5" aria-hidden="true" />
+                        GSoC Phases
+                    </h3>
+                    <select
+                        className="repo-filter-select"
+                        value={timeline.year}
+                        onChange={e => this.setState({ phaseYear: Number(e.target.value) })}
+                        aria-label="GSoC year"
+                    >
+                        {ProgramCalendar.getYears().map(year => (
+                            <option key={year} value={year}>GSoC {year}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="program-phases-grid">
+                    {phases.map(phase => {
+                        const prs = split[phase];
+                        const merged = prs.filter(pr => pr.merged).length;
+                        return (
+                            <div key={phase} className="program-phase-card">
+                                <h4 className="program-phase-name">{PROGRAM_PHASE_LABELS[phase]}</h4>
+                                <p className="program-phase-range">
+                                    {DateUtils.describeTimeFilter(ProgramCalendar.getPhaseRange(timeline, phase))}
+                                </p>
+                                <div className="repo-stats">
+                                    <span className="repo-pr-count">{prs.length} PRs</span>
+                                    <span className="repo-merge-rate">{merged} merged</span>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <p className="show-more-hint">Counts only include PRs opened within the analyzed time range</p>
+            </Card>
+        );
+    }
+
     /**
      * Render repository contribution cards
      */
@@ -222,6 +349,15 @@ export class UserAnalytics extends React.Component<UserAnalyticsProps, UserAnaly
                                 aria-pressed={isSelected}
                             >
                                 <h4 className="repo-name">{repo.name}</h4>
+                                {repo.maintainerEvidence && (
+                                    <span
+                                        className={`badge badge-maintainer ${repo.maintainerEvidence.confidence}`}
+                                        title={repo.maintainerEvidence.reason}
+                                    >
+                                        <Crown className="w-3 h-3" aria-hidden="true" />
+                                        Maintainer
+                                    </span>
+                                )}
                                 <div className="repo-stats">
                                     <span className="repo-pr-count">{repo.prCount} PRs</span>
                                     <span className="repo-merge-rate">{mergeRate}% merged</span>
@@ -332,6 +468,14 @@ export class UserAnalytics extends React.Component<UserAnalyticsProps, UserAnaly
             <div className="user-analytics">
                 {this.renderProfileHeader()}
                 {this.renderStatsGrid()}
+                {this.renderActivityHeatmap()}
+                <Suspense fallback={null}>
+                    <OrgRecommendations
+                        userStats={this.props.userStats}
+                        onOpenOrg={this.props.onOpenOrg}
+                    />
+                </Suspense>
+                {this.renderProgramPhases()}
                 {this.renderRepoContributions()}
                 {this.renderPRList()}
             </div>
@@ -12,21 +12,59 @@ export const GITHUB_API_CONFIG = {
   /** Base URL for GitHub REST API v3 */
   BASE_URL: "https://api.github.com",
 
+  /** Endpoint for GitHub GraphQL API v4 (requires a token) */
+  GRAPHQL_URL: "https://api.github.com/graphql",
+
   /** Number of items to fetch per API page (max 100 per GitHub docs) */
   PER_PAGE: 100,
 
   /** Maximum number of pages to fetch to prevent runaway requests */
   MAX_PAGES: 10,
 
-  /** Maximum number of PRs to analyze (performance guard) */
+  /**
+   * PR budget per analysis. Fetchers stop once this many PRs are collected
+   * and never return more, whichever data source is used.
+   */
   MAX_PRS: 500,
 
+  /** PRs per GraphQL page (reviews and labels are nested in each node) */
+  GRAPHQL_PAGE_SIZE: 50,
+
+  /** Author lookups per GraphQL request when identifying first-timers */
+  GRAPHQL_SEARCH_BATCH_SIZE: 25,
+
+  /** Maximum number of PRs to fetch reviews for (one request per PR) */
+  MAX_REVIEWED_PRS: 100,
+
+  /** Review fetch limit without a token, to protect the 60/hour quota */
+  MAX_REVIEWED_PRS_UNAUTHENTICATED: 15,
+
+  /** Number of review requests issued in parallel */
+  REVIEW_FETCH_CONCURRENCY: 5,
+
   /** Request timeout in milliseconds */
   REQUEST_TIMEOUT: 30000,
 } as const;
 
 /**
- * Rate limit thresholds for user feedback.
+ * Organization-wide analysis limits.
+ */
+export const ORG_ANALYSIS_CONFIG = {
+  /** Most recently pushed repositories analyzed per organization */
+  MAX_REPOS: 10,
+
+  /** Upper bound on requests one organization analysis may spend */
+  MAX_REQUESTS: 400,
+
+  /** Requests left untouched so the rest of the app keeps working */
+  RESERVED_REQUESTS: 10,
+
+  /** Window of the health summary shown on GSoC directory cards */
+  HEALTH_TIME_FILTER: "3m",
+} as const;
+
+/**
+ * Rate limit thresholds for user feedback and request scheduling.
  */
 export const RATE_LIMIT_CONFIG = {
   /** Requests per hour for unauthenticated users */
@@ -37,6 +75,18 @@ export const RATE_LIMIT_CONFIG = {
 
   /** Warning threshold (percentage of limit remaining) */
   WARNING_THRESHOLD: 0.1,
+
+  /** GitHub API requests in flight at once, across the whole app */
+  MAX_CONCURRENT_REQUESTS: 6,
+
+  /** Longest rate limit pause waited out before failing (15 minutes) */
+  MAX_WAIT_MS: 15 * 60 * 1000,
+
+  /** Retries of one request after rate limit responses */
+  MAX_RETRIES: 3,
+
+  /** First backoff for secondary rate limits without retry-after; doubles per retry */
+  SECONDARY_BACKOFF_MS: 60 * 1000,
 } as const;
 
 /**
@@ -61,6 +111,12 @@ export const STORAGE_KEYS = {
 
   /** Recent search queries for autocomplete */
   RECENT_SEARCHES: "pr_analyzer_recent_searches",
+
+  /** GSoC org slugs selected for side-by-side comparison */
+  COMPARED_ORGS: "pr_analyzer_compared_orgs",
+
+  /** Dashboard settings (time zone, ...) */
+  SETTINGS: "pr_analyzer_settings",
 } as const;
 
 /**
@@ -92,6 +148,9 @@ export const PAGINATION_CONFIG = {
 
   /** Maximum recent searches to store for autocomplete */
   MAX_RECENT_SEARCHES: 15,
+
+  /** Maximum organizations compared side by side */
+  MAX_COMPARED_ORGS: 4,
 } as const;
 
 /**
@@ -1,17 +1,85 @@
 /**
  * @fileoverview Cache Service for storing API responses with TTL.
- * Uses localStorage for persistence across sessions.
+ * Uses IndexedDB for persistence across sessions: repository stats with
+ * hundreds of PRs quickly outgrow localStorage's ~5MB quota.
+ *
+ * Entries are kept in two object stores: `entries` holds the payloads and
+ * `meta` the small bookkeeping records (size, expiry, last access), so
+ * eviction and statistics never have to load the payloads. `meta` also
+ * holds the running total size, updated with every write; when it exceeds
+ * `MAX_BYTES`, least recently used entries are evicted. Reads only queue
+ * their access time, which is written for many entries at once.
+ *
+ * Raw GitHub responses are also kept with their ETag / Last-Modified
+ * validators, keyed by the auth identity they were fetched with. Those
+ * entries never expire: they are revalidated with a conditional request,
+ * and a 304 reply costs no rate limit quota.
+ *
+ * Entries written by the former localStorage backend (`gsoc_cache_v1_*`)
+ * are removed once the database has been created, not carried over.
  */
 
 /**
- * Cache entry with data and expiration
+ * Bookkeeping record of one cache entry
  */
-interface CacheEntry<T> {
+interface CacheMeta {
+  key: string;
+  /** Serialized payload size in bytes */
+  size: number;
+  cachedAt: number;
+  /** Last read or write, for LRU eviction */
+  lastAccessed: number;
+  /** Expiry in epoch ms; null for entries that are revalidated instead */
+  expiresAt: number | null;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/**
+ * Running total of the payload sizes, kept in the meta store
+ */
+interface CacheTotal {
+  key: string;
+  size: number;
+}
+
+/**
+ * Payload record of one cache entry
+ */
+interface CacheRecord<T> {
+  key: string;
+  data: T;
+}
+
+/**
+ * Validators GitHub returns for conditional requests
+ */
+export interface CacheValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * Raw response entry, kept until evicted and revalidated on use
+ */
+export interface ValidatedEntry<T> extends CacheValidators {
   data: T;
-  expiresAt: number;
   cachedAt: number;
 }
 
+/**
+ * Per-entry statistics reported by `getStats`
+ */
+export interface CacheEntryStats {
+  /** Key without the cache prefix and version */
+  key: string;
+  /** Serialized payload size in bytes */
+  size: number;
+  cachedAt: number;
+  lastAccessed: number;
+  expiresAt: number | null;
+}
+
 /**
  * Default TTL values for different data types (in milliseconds)
  */
@@ -22,6 +90,8 @@ export const CACHE_TTL = {
   REPO_STATS: 5 * 60 * 1000,
   /** Branch list - 30 minutes */
   BRANCHES: 30 * 60 * 1000,
+  /** Maintainer signals (collaborators, CODEOWNERS) - 30 minutes */
+  MAINTAINERS: 30 * 60 * 1000,
   /** PR search results - 5 minutes */
   PR_SEARCH: 5 * 60 * 1000,
   /** Generic API response - 5 minutes */
@@ -29,11 +99,32 @@ export const CACHE_TTL = {
 };
 
 /**
- * Cache Service - Manages cached API responses in localStorage
+ * Cache Service - Manages cached API responses in IndexedDB
  */
 export class CacheService {
   private static readonly CACHE_PREFIX = "gsoc_cache_";
-  private static readonly VERSION = "v1";
+  /** Bumped whenever cached payload shapes change, orphaning older entries */
+  private static readonly VERSION = "v2";
+  /** Key namespace of raw responses with validators */
+  private static readonly RESPONSE_NAMESPACE = "http";
+  private static readonly DB_NAME = "gsoc_cache";
+  private static readonly DB_VERSION = 1;
+  private static readonly ENTRY_STORE = "entries";
+  private static readonly META_STORE = "meta";
+  /** Total payload size kept before LRU eviction (50MB) */
+  private static readonly MAX_BYTES = 50 * 1024 * 1024;
+  /** Size eviction shrinks the cache to, leaving room for new entries */
+  private static readonly EVICTION_TARGET = 0.8;
+  /** Meta store key of the running total size */
+  private static readonly TOTAL_KEY = "gsoc_cache_total";
+  /** Delay before queued access times are written */
+  private static readonly ACCESS_FLUSH_MS = 2000;
+
+  private static dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  /** Access times of entries read since the last flush, by key */
+  private static readonly pendingAccess = new Map<string, number>();
+  private static accessTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Generate a cache key from components
@@ -46,16 +137,14 @@ export class CacheService {
    * Get data from cache
    * @returns Cached data or null if expired/missing
    */
-  static get<T>(key: string): T | null {
+  static async get<T>(key: string): Promise<T | null> {
     try {
-      const stored = localStorage.getItem(key);
-      if (!stored) return null;
-
-      const entry: CacheEntry<T> = JSON.parse(stored);
+      const entry = await this.read<T>(key);
+      if (!entry) return null;
 
       // Check expiration
-      if (Date.now() > entry.expiresAt) {
-        this.remove(key);
+      if (entry.meta.expiresAt !== null && Date.now() > entry.meta.expiresAt) {
+        await this.remove(key);
         return null;
       }
 
@@ -69,28 +158,25 @@ export class CacheService {
   /**
    * Store data in cache with TTL
    */
-  static set<T>(key: string, data: T, ttl: number = CACHE_TTL.DEFAULT): void {
+  static async set<T>(
+    key: string,
+    data: T,
+    ttl: number = CACHE_TTL.DEFAULT
+  ): Promise<void> {
     try {
-      const entry: CacheEntry<T> = {
-        data,
-        cachedAt: Date.now(),
-        expiresAt: Date.now() + ttl,
-      };
-
-      localStorage.setItem(key, JSON.stringify(entry));
+      await this.write(key, data, { expiresAt: Date.now() + ttl });
     } catch (error) {
-      // localStorage might be full or disabled
+      // IndexedDB might be full or disabled
       console.warn("Cache write error:", error);
-      this.cleanup();
     }
   }
 
   /**
    * Remove a specific cache entry
    */
-  static remove(key: string): void {
+  static async remove(key: string): Promise<void> {
     try {
-      localStorage.removeItem(key);
+      await this.deleteKeys([key]);
     } catch (error) {
       console.warn("Cache remove error:", error);
     }
@@ -99,13 +185,13 @@ export class CacheService {
   /**
    * Clear all cache entries
    */
-  static clear(): void {
+  static async clear(): Promise<void> {
     try {
-      const keys = Object.keys(localStorage);
-      keys.forEach((key) => {
-        if (key.startsWith(this.CACHE_PREFIX)) {
-          localStorage.removeItem(key);
-        }
+      this.pendingAccess.clear();
+      await this.transact("readwrite", (entries, meta) => {
+        entries.clear();
+        meta.clear();
+        meta.put({ key: this.TOTAL_KEY, size: 0 } satisfies CacheTotal);
       });
     } catch (error) {
       console.warn("Cache clear error:", error);
@@ -115,49 +201,92 @@ export class CacheService {
   /**
    * Remove expired entries
    */
-  static cleanup(): void {
+  static async cleanup(): Promise<void> {
     try {
-      const keys = Object.keys(localStorage);
       const now = Date.now();
+      const expired = (await this.readAllMeta())
+        .filter((meta) => meta.expiresAt !== null && now > meta.expiresAt)
+        .map((meta) => meta.key);
 
-      keys.forEach((key) => {
-        if (key.startsWith(this.CACHE_PREFIX)) {
-          try {
-            const stored = localStorage.getItem(key);
-            if (stored) {
-              const entry = JSON.parse(stored);
-              if (now > entry.expiresAt) {
-                localStorage.removeItem(key);
-              }
-            }
-          } catch {
-            // Invalid entry, remove it
-            localStorage.removeItem(key);
-          }
-        }
-      });
+      await this.deleteKeys(expired);
     } catch (error) {
       console.warn("Cache cleanup error:", error);
     }
   }
 
   /**
-   * Get cache statistics
+   * Cache key of the raw response for an API endpoint. Responses are kept
+   * per auth identity, so what a token could read is not served after
+   * signing out or to another token.
+   *
+   * @param {string} endpoint - API endpoint
+   * @param {string | null} token - Token the request is sent with
    */
-  static getStats(): { count: number; size: number; entries: string[] } {
-    const entries: string[] = [];
+  static responseKey(endpoint: string, token: string | null): string {
+    return this.generateKey(
+      this.RESPONSE_NAMESPACE,
+      token ? `token-${this.hash(token)}` : "anonymous",
+      endpoint
+    );
+  }
+
+  /**
+   * Get a raw response with its validators, regardless of age
+   * @returns Cached entry or null if missing
+   */
+  static async getValidated<T>(key: string): Promise<ValidatedEntry<T> | null> {
+    try {
+      const entry = await this.read<T>(key);
+      if (!entry) return null;
+
+      return {
+        data: entry.data,
+        etag: entry.meta.etag ?? null,
+        lastModified: entry.meta.lastModified ?? null,
+        cachedAt: entry.meta.cachedAt,
+      };
+    } catch (error) {
+      console.warn("Cache read error:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a raw response with its validators
+   */
+  static async setValidated<T>(
+    key: string,
+    data: T,
+    validators: CacheValidators
+  ): Promise<void> {
+    try {
+      await this.write(key, data, { expiresAt: null, ...validators });
+    } catch (error) {
+      console.warn("Cache write error:", error);
+    }
+  }
+
+  /**
+   * Get cache statistics, with the size and age of every entry
+   */
+  static async getStats(): Promise<{
+    count: number;
+    size: number;
+    entries: CacheEntryStats[];
+  }> {
+    const entries: CacheEntryStats[] = [];
     let size = 0;
 
     try {
-      const keys = Object.keys(localStorage);
-      keys.forEach((key) => {
-        if (key.startsWith(this.CACHE_PREFIX)) {
-          entries.push(key.replace(this.CACHE_PREFIX + this.VERSION + "_", ""));
-          const stored = localStorage.getItem(key);
-          if (stored) {
-            size += stored.length * 2; // UTF-16 characters
-          }
-        }
+      (await this.readAllMeta()).forEach((meta) => {
+        entries.push({
+          key: meta.key.replace(this.CACHE_PREFIX + this.VERSION + "_", ""),
+          size: meta.size,
+          cachedAt: meta.cachedAt,
+          lastAccessed: meta.lastAccessed,
+          expiresAt: meta.expiresAt,
+        });
+        size += meta.size;
       });
     } catch (error) {
       console.warn("Cache stats error:", error);
@@ -169,8 +298,8 @@ export class CacheService {
   /**
    * Check if a cache entry exists and is valid
    */
-  static has(key: string): boolean {
-    return this.get(key) !== null;
+  static async has(key: string): Promise<boolean> {
+    return (await this.get(key)) !== null;
   }
 
   /**
@@ -181,7 +310,7 @@ export class CacheService {
     fetcher: () => Promise<T>,
     ttl: number = CACHE_TTL.DEFAULT
   ): Promise<T> {
-    const cached = this.get<T>(key);
+    const cached = await this.get<T>(key);
     if (cached !== null) {
       console.log(`[Cache HIT] ${key}`);
       return cached;
@@ -189,7 +318,298 @@ export class CacheService {
 
     console.log(`[Cache MISS] ${key}`);
     const data = await fetcher();
-    this.set(key, data, ttl);
+    await this.set(key, data, ttl);
     return data;
   }
+
+  // ============================================================================
+  // IndexedDB Helpers
+  // ============================================================================
+
+  /**
+   * Opens the database once; resolves to null when IndexedDB is unavailable
+   * (e.g. some private browsing modes), which turns the cache into a no-op.
+   * @private
+   */
+  private static openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === "undefined") {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          db.createObjectStore(this.ENTRY_STORE, { keyPath: "key" });
+          db.createObjectStore(this.META_STORE, { keyPath: "key" });
+
+          if (event.oldVersion === 0) {
+            this.clearLocalStorage(request.transaction!);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn("Cache open error:", request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Drops entries of the former localStorage backend once the upgrade
+   * transaction commits. They are not carried over: their payloads predate
+   * the current `VERSION`, and their raw responses are keyed without the
+   * token they were fetched with.
+   * @private
+   */
+  private static clearLocalStorage(transaction: IDBTransaction): void {
+    transaction.oncomplete = () => {
+      try {
+        Object.keys(localStorage)
+          .filter((key) => key.startsWith(this.CACHE_PREFIX))
+          .forEach((key) => localStorage.removeItem(key));
+      } catch (error) {
+        console.warn("Cache migration error:", error);
+      }
+    };
+  }
+
+  /**
+   * Runs `work` in one transaction over both stores and resolves with its
+   * result once the transaction completes. Resolves to null without a
+   * database.
+   * @private
+   */
+  private static async transact<R>(
+    mode: IDBTransactionMode,
+    work: (entries: IDBObjectStore, meta: IDBObjectStore) => R
+  ): Promise<R | null> {
+    const db = await this.openDatabase();
+    if (!db) return null;
+
+    return new Promise<R>((resolve, reject) => {
+      const transaction = db.transaction(
+        [this.ENTRY_STORE, this.META_STORE],
+        mode
+      );
+      const result = work(
+        transaction.objectStore(this.ENTRY_STORE),
+        transaction.objectStore(this.META_STORE)
+      );
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Reads an entry's payload and metadata, queueing its access time.
+   * @private
+   */
+  private static async read<T>(
+    key: string
+  ): Promise<{ data: T; meta: CacheMeta } | null> {
+    const requests = await this.transact("readonly", (entries, meta) => ({
+      record: entries.get(key) as IDBRequest<CacheRecord<T> | undefined>,
+      info: meta.get(key) as IDBRequest<CacheMeta | undefined>,
+    }));
+
+    const record = requests?.record.result;
+    const info = requests?.info.result;
+    if (!record || !info) return null;
+
+    this.touch(key);
+    return { data: record.data, meta: info };
+  }
+
+  /**
+   * Queues an access time; queued times are written together after
+   * `ACCESS_FLUSH_MS`, instead of one write transaction per read.
+   * @private
+   */
+  private static touch(key: string): void {
+    this.pendingAccess.set(key, Date.now());
+    if (this.accessTimer) return;
+
+    this.accessTimer = setTimeout(() => {
+      this.accessTimer = null;
+      this.flushAccess().catch((error) =>
+        console.warn("Cache access update error:", error)
+      );
+    }, this.ACCESS_FLUSH_MS);
+  }
+
+  /**
+   * Writes queued access times in one transaction.
+   * @private
+   */
+  private static async flushAccess(): Promise<void> {
+    const pending = Array.from(this.pendingAccess);
+    this.pendingAccess.clear();
+    if (pending.length === 0) return;
+
+    await this.transact("readwrite", (_entries, meta) => {
+      for (const [key, lastAccessed] of pending) {
+        const info = meta.get(key) as IDBRequest<CacheMeta | undefined>;
+        info.onsuccess = () => {
+          if (info.result && info.result.lastAccessed < lastAccessed) {
+            meta.put({ ...info.result, lastAccessed });
+          }
+        };
+      }
+    });
+  }
+
+  /**
+   * Writes an entry, adding its size to the running total, and evicts
+   * least recently used ones if the total grew past its size limit.
+   * @private
+   */
+  private static async write<T>(
+    key: string,
+    data: T,
+    fields: Pick<CacheMeta, "expiresAt"> & Partial<CacheValidators>
+  ): Promise<void> {
+    const now = Date.now();
+    const meta: CacheMeta = {
+      key,
+      size: this.byteSize(JSON.stringify(data)),
+      cachedAt: now,
+      lastAccessed: now,
+      ...fields,
+    };
+
+    const total = await this.transact("readwrite", (entries, metaStore) => {
+      const result: { size: number | null } = { size: null };
+      const previous = metaStore.get(key) as IDBRequest<CacheMeta | undefined>;
+      const stored = metaStore.get(this.TOTAL_KEY) as IDBRequest<
+        CacheTotal | undefined
+      >;
+      // Requests complete in order, so `previous` is known here
+      stored.onsuccess = () => {
+        if (!stored.result) return;
+        result.size =
+          stored.result.size - (previous.result?.size ?? 0) + meta.size;
+        metaStore.put({ key: this.TOTAL_KEY, size: result.size });
+      };
+
+      entries.put({ key, data } satisfies CacheRecord<T>);
+      metaStore.put(meta);
+      return result;
+    });
+
+    // Without a stored total (new database), evict computes it
+    if (total && (total.size === null || total.size > this.MAX_BYTES)) {
+      await this.evict();
+    }
+  }
+
+  /**
+   * Recomputes the total size and, when it exceeds `MAX_BYTES`, evicts
+   * least recently used entries until the cache is back under
+   * `EVICTION_TARGET` of it. Runs in one transaction, so concurrent writes
+   * cannot skew the stored total.
+   * @private
+   */
+  private static async evict(): Promise<void> {
+    await this.transact("readwrite", (entries, meta) => {
+      const request = meta.getAll() as IDBRequest<
+        Array<CacheMeta | CacheTotal>
+      >;
+      request.onsuccess = () => {
+        const all = request.result
+          .filter((record) => record.key !== this.TOTAL_KEY)
+          .map((record) => {
+            const info = record as CacheMeta;
+            const accessed = this.pendingAccess.get(info.key);
+            return accessed ? { ...info, lastAccessed: accessed } : info;
+          });
+        let total = all.reduce((sum, info) => sum + info.size, 0);
+
+        if (total > this.MAX_BYTES) {
+          const target = this.MAX_BYTES * this.EVICTION_TARGET;
+          all.sort((a, b) => a.lastAccessed - b.lastAccessed);
+          for (const info of all) {
+            if (total <= target) break;
+            entries.delete(info.key);
+            meta.delete(info.key);
+            total -= info.size;
+          }
+        }
+
+        meta.put({ key: this.TOTAL_KEY, size: total } satisfies CacheTotal);
+      };
+    });
+  }
+
+  /**
+   * Reads every metadata record (payloads are not loaded).
+   * @private
+   */
+  private static async readAllMeta(): Promise<CacheMeta[]> {
+    const request = await this.transact(
+      "readonly",
+      (_entries, meta) => meta.getAll() as IDBRequest<CacheMeta[]>
+    );
+    return (request?.result ?? []).filter(
+      (info) => info.key !== this.TOTAL_KEY
+    );
+  }
+
+  /**
+   * Deletes entries by key in a single transaction, subtracting their
+   * sizes from the running total.
+   * @private
+   */
+  private static async deleteKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.transact("readwrite", (entries, meta) => {
+      let freed = 0;
+      keys.forEach((key) => {
+        const info = meta.get(key) as IDBRequest<CacheMeta | undefined>;
+        info.onsuccess = () => {
+          freed += info.result?.size ?? 0;
+        };
+        entries.delete(key);
+        meta.delete(key);
+      });
+
+      const stored = meta.get(this.TOTAL_KEY) as IDBRequest<
+        CacheTotal | undefined
+      >;
+      stored.onsuccess = () => {
+        if (!stored.result) return;
+        meta.put({
+          key: this.TOTAL_KEY,
+          size: Math.max(0, stored.result.size - freed),
+        } satisfies CacheTotal);
+      };
+    });
+  }
+
+  /**
+   * Short FNV-1a hash, to tell tokens apart in keys without storing them
+   * @private
+   */
+  private static hash(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+  }
+
+  /**
+   * UTF-8 size of a serialized payload
+   * @private
+   */
+  private static byteSize(serialized: string): number {
+    return new TextEncoder().encode(serialized).length;
+  }
 }
@@ -22,7 +22,13 @@
  * ```
  */
 
-import { RepositoryStats, UserProfileStats } from "../types";
+import {
+  DurationPercentiles,
+  RepositoryStats,
+  UserProfileStats,
+} from "../types";
+import { DateUtils } from "../utils";
+import { SettingsService } from "./SettingsService";
 
 /**
  * Supported export file formats.
@@ -44,9 +50,11 @@ class ExportServiceClass {
 
   /**
    * Exports repository contributor statistics as a CSV file.
-   * Triggers automatic download of the generated file.
+   * Triggers automatic download of the generated file. Timestamps are
+   * written in the time zone chosen in settings, with their UTC offset.
    *
    * @param {RepositoryStats} data - Repository statistics to export
+   * @param {string} [timeZone] - IANA time zone; defaults to the setting
    * @returns {void}
    *
    * @example
@@ -55,7 +63,10 @@ class ExportServiceClass {
    * // Downloads: "facebook-react-contributors.csv"
    * ```
    */
-  public exportRepositoryCsv(data: RepositoryStats): void {
+  public exportRepositoryCsv(
+    data: RepositoryStats,
+    timeZone: string = SettingsService.getTimeZone()
+  ): void {
     const headers = [
       "username",
       "totalPRs",
@@ -63,10 +74,22 @@ class ExportServiceClass {
       "openPRs",
       "closedPRs",
       "isMaintainer",
+      "maintainerReason",
       "totalAdditions",
       "totalDeletions",
+      "avgReviewTimeHours",
+      "avgMergeTimeHours",
+      "firstReviewP50Hours",
+      "reviewToApprovalP50Hours",
+      "approvalToMergeP50Hours",
+      "firstPRAt",
+      "isFirstTimer",
     ];
 
+    // Percentiles are blank, not 0, when no PR reached the stage
+    const p50 = (percentiles?: DurationPercentiles) =>
+      percentiles?.count ? percentiles.p50 : null;
+
     const rows = data.contributors.map((contributor) => [
       contributor.username,
       contributor.totalPRs,
@@ -74,8 +97,16 @@ class ExportServiceClass {
       contributor.openPRs,
       contributor.closedPRs,
       contributor.isMaintainer,
+      contributor.maintainerEvidence?.reason ?? "",
       contributor.totalAdditions,
       contributor.totalDeletions,
+      contributor.avgReviewTime,
+      contributor.avgMergeTime,
+      p50(contributor.cycleTime?.firstReview),
+      p50(contributor.cycleTime?.reviewToApproval),
+      p50(contributor.cycleTime?.approvalToMerge),
+      DateUtils.toZonedIsoString(contributor.firstPRAt, timeZone),
+      contributor.isFirstTimer,
     ]);
 
     const csv = this.generateCsv(headers, rows);
@@ -113,9 +144,11 @@ class ExportServiceClass {
   // ============================================================================
 
   /**
-   * Exports user pull request history as a CSV file.
+   * Exports user pull request history as a CSV file. Timestamps are written
+   * in the time zone chosen in settings, with their UTC offset.
    *
    * @param {UserProfileStats} data - User statistics to export
+   * @param {string} [timeZone] - IANA time zone; defaults to the setting
    * @returns {void}
    *
    * @example
@@ -124,7 +157,10 @@ class ExportServiceClass {
    * // Downloads: "octocat-pull-requests.csv"
    * ```
    */
-  public exportUserCsv(data: UserProfileStats): void {
+  public exportUserCsv(
+    data: UserProfileStats,
+    timeZone: string = SettingsService.getTimeZone()
+  ): void {
     const headers = [
       "number",
       "title",
@@ -141,8 +177,8 @@ class ExportServiceClass {
       pr.state,
       pr.merged,
       pr.repositoryName,
-      pr.createdAt,
-      pr.mergedAt || "",
+      DateUtils.toZonedIsoString(pr.createdAt, timeZone),
+      pr.mergedAt ? DateUtils.toZonedIsoString(pr.mergedAt, timeZone) : "",
     ]);
 
     const csv = this.generateCsv(headers, rows);
@@ -9,6 +9,9 @@
  * - Unauthenticated: 60 requests/hour
  * - With Personal Access Token: 5,000 requests/hour
  *
+ * All requests go through a shared RequestScheduler, which limits
+ * concurrency and pauses work until the quota resets instead of failing.
+ *
  * @example
  * ```typescript
  * import { GitHubService } from './services';
@@ -24,17 +27,40 @@
 
 import { GITHUB_API_CONFIG, STORAGE_KEYS } from "../constants";
 import {
-  ActivityDataPoint,
   ContributorStats,
+  MaintainerEvidence,
+  OrganizationRepository,
   PullRequest,
+  PullRequestReview,
   RepositoryContribution,
   RepositoryStats,
+  ReviewState,
   ReviewStats,
+  ReviewerStats,
   TimeFilter,
   UserProfileStats,
 } from "../types";
-import { DateUtils, GitHubUrlParser } from "../utils";
-import { CACHE_TTL, CacheService } from "./CacheService";
+import {
+  ActivityTimeline,
+  Bots,
+  Concentration,
+  CycleTime,
+  DateUtils,
+  GitHubUrlParser,
+  Retention,
+} from "../utils";
+import { CACHE_TTL, CacheService, CacheValidators } from "./CacheService";
+import { GraphQLPullRequestFetcher } from "./GraphQLPullRequestFetcher";
+import { MaintainerDetector, RepositorySignals } from "./MaintainerDetector";
+import { ProgressTracker } from "./ProgressTracker";
+import {
+  PullRequestOrder,
+  PullRequestPage,
+  PullRequestStore,
+} from "./PullRequestStore";
+import { BudgetExhaustedError, RequestBudget } from "./RequestBudget";
+import { RateLimitResource, RequestScheduler } from "./RequestScheduler";
+import { SettingsService } from "./SettingsService";
 
 /**
  * GitHub API Error with additional context.
@@ -75,6 +101,18 @@ export class RateLimitError extends GitHubApiError {
   }
 }
 
+/**
+ * Per-call options threaded from public fetch methods down to each request.
+ */
+export interface RequestOptions {
+  /** Shared allowance; every HTTP request consumes one unit */
+  budget?: RequestBudget;
+  /** Cancels the analysis; queued and in-flight requests reject with it */
+  signal?: AbortSignal;
+  /** Receives pages fetched, PRs so far and quota left */
+  progress?: ProgressTracker;
+}
+
 /**
  * GitHub Service Class - Core API integration layer.
  *
@@ -93,6 +131,27 @@ class GitHubServiceClass {
   /** @private Cached personal access token */
   private token: string | null = null;
 
+  /** @private Queues every request against the tracked rate limits */
+  private readonly scheduler = new RequestScheduler();
+
+  /** @private PR source used when a token allows GraphQL access */
+  private readonly graphqlFetcher = new GraphQLPullRequestFetcher(
+    <T>(
+      query: string,
+      variables: Record<string, unknown>,
+      options?: RequestOptions
+    ) => this.graphql<T>(query, variables, options)
+  );
+
+  /** @private Local PR snapshots for incremental sync */
+  private readonly prStore = new PullRequestStore();
+
+  /** @private Infers maintainers from permissions, CODEOWNERS and PR data */
+  private readonly maintainerDetector = new MaintainerDetector(
+    <T>(endpoint: string, options?: RequestOptions) =>
+      this.request<T>(endpoint, options)
+  );
+
   /**
    * Initializes the service and loads any stored token.
    */
@@ -110,11 +169,17 @@ class GitHubServiceClass {
    * @private
    */
   private loadToken(): void {
+    const previous = this.token;
     try {
       this.token = localStorage.getItem(STORAGE_KEYS.GITHUB_TOKEN);
     } catch {
       this.token = null;
     }
+
+    // Quotas belong to the token (or the IP, without one)
+    if (this.token !== previous) {
+      this.scheduler.reset();
+    }
   }
 
   /**
@@ -143,38 +208,68 @@ class GitHubServiceClass {
 
   /**
    * Makes an authenticated request to the GitHub API.
+   * Requests are queued by the scheduler, which waits out exhausted quotas
+   * and secondary rate limits when the wait is short enough.
+   *
+   * Responses are cached with their ETag / Last-Modified validators and
+   * revalidated with `If-None-Match` / `If-Modified-Since`; a 304 reply is
+   * served from the cache and does not count against the rate limit.
    *
    * @private
    * @template T - The expected response type
    * @param {string} endpoint - API endpoint (e.g., '/repos/owner/repo')
+   * @param {RequestOptions} [options] - Request budget and other per-call options
    * @returns {Promise<T>} Parsed JSON response
+   * @throws {BudgetExhaustedError} When the shared request budget is spent
    * @throws {RateLimitError} When rate limit is exceeded
    * @throws {GitHubApiError} For other API errors
+   * @throws {DOMException} An AbortError when `options.signal` is aborted
    *
    * @example
    * ```typescript
    * const data = await this.request<Repository[]>('/users/octocat/repos');
    * ```
    */
-  private async request<T>(endpoint: string): Promise<T> {
+  private async request<T>(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    options.signal?.throwIfAborted();
+    options.budget?.consume();
+
     const url = `${GITHUB_API_CONFIG.BASE_URL}${endpoint}`;
-    const response = await fetch(url, {
-      headers: this.getHeaders(),
-    });
+    const resource: RateLimitResource = endpoint.startsWith("/search/")
+      ? "search"
+      : "core";
+    this.loadToken();
+    const cacheKey = CacheService.responseKey(endpoint, this.token);
+    const cached = await CacheService.getValidated<T>(cacheKey);
+
+    const response = await this.scheduler.schedule(
+      resource,
+      () =>
+        fetch(url, {
+          headers: {
+            ...this.getHeaders(),
+            ...this.getConditionalHeaders(cached),
+          },
+          signal: options.signal,
+        }),
+      options.signal
+    );
+    options.progress?.pageFetched(
+      this.scheduler.getQuota(resource)?.remaining ?? null
+    );
+
+    if (response.status === 304 && cached) {
+      return cached.data;
+    }
 
     if (!response.ok) {
-      // Handle rate limiting
-      if (response.status === 403) {
-        const rateLimitRemaining = response.headers.get(
-          "x-ratelimit-remaining"
-        );
-        if (rateLimitRemaining === "0") {
-          const resetTime = response.headers.get("x-ratelimit-reset");
-          const resetDate = resetTime
-            ? new Date(parseInt(resetTime) * 1000)
-            : new Date();
-          throw new RateLimitError(resetDate);
-        }
+      // Rate limits the scheduler could not wait out
+      const rateLimitError = this.getRateLimitError(response);
+      if (rateLimitError) {
+        throw rateLimitError;
       }
 
       // Handle not found
@@ -190,7 +285,130 @@ class GitHubServiceClass {
       );
     }
 
-    return response.json();
+    const data: T = await response.json();
+    const validators: CacheValidators = {
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+    };
+    if (validators.etag || validators.lastModified) {
+      await CacheService.setValidated(cacheKey, data, validators);
+    }
+
+    return data;
+  }
+
+  /**
+   * Builds conditional request headers from a cached response's validators.
+   * The ETag is preferred; Last-Modified is only sent without one.
+   * @private
+   */
+  private getConditionalHeaders(
+    cached: CacheValidators | null
+  ): Record<string, string> {
+    if (cached?.etag) {
+      return { "If-None-Match": cached.etag };
+    }
+    if (cached?.lastModified) {
+      return { "If-Modified-Since": cached.lastModified };
+    }
+    return {};
+  }
+
+  /**
+   * Executes a query against the GitHub GraphQL API.
+   * GraphQL requires authentication, so callers must check for a token first.
+   *
+   * @private
+   * @template T - The expected shape of the `data` payload
+   * @param {string} query - GraphQL query document
+   * @param {Record<string, unknown>} variables - Query variables
+   * @param {RequestOptions} [options] - Request budget and other per-call options
+   * @returns {Promise<T>} The `data` payload
+   * @throws {RateLimitError} When the GraphQL rate limit is exceeded
+   * @throws {GitHubApiError} For HTTP errors and GraphQL-level errors
+   */
+  private async graphql<T>(
+    query: string,
+    variables: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    options.signal?.throwIfAborted();
+    options.budget?.consume();
+
+    const response = await this.scheduler.schedule(
+      "graphql",
+      () =>
+        fetch(GITHUB_API_CONFIG.GRAPHQL_URL, {
+          method: "POST",
+          headers: { ...this.getHeaders(), "Content-Type": "application/json" },
+          body: JSON.stringify({ query, variables }),
+          signal: options.signal,
+        }),
+      options.signal
+    );
+    options.progress?.pageFetched(
+      this.scheduler.getQuota("graphql")?.remaining ?? null
+    );
+
+    if (!response.ok) {
+      const rateLimitError = this.getRateLimitError(response);
+      if (rateLimitError) {
+        throw rateLimitError;
+      }
+      throw new GitHubApiError(
+        `GitHub GraphQL error: ${response.status}`,
+        response.status,
+        "/graphql"
+      );
+    }
+
+    const body: {
+      data?: T;
+      errors?: Array<{ type?: string; message: string }>;
+    } = await response.json();
+
+    if (body.errors && body.errors.length > 0) {
+      const [error] = body.errors;
+      if (error.type === "RATE_LIMITED") {
+        const quota = this.scheduler.getQuota("graphql");
+        throw new RateLimitError(
+          quota?.resetTime ?? new Date(Date.now() + 60 * 60 * 1000)
+        );
+      }
+      if (error.type === "NOT_FOUND") {
+        throw new GitHubApiError("Repository not found", 404, "/graphql");
+      }
+      throw new GitHubApiError(error.message, 200, "/graphql");
+    }
+
+    return body.data as T;
+  }
+
+  /**
+   * Maps a rate limit response to a RateLimitError: an exhausted quota
+   * resets at `x-ratelimit-reset`, a secondary limit after `retry-after`.
+   * @private
+   * @returns {RateLimitError | null} Null for responses that are not rate limits
+   */
+  private getRateLimitError(response: Response): RateLimitError | null {
+    if (response.status !== 403 && response.status !== 429) {
+      return null;
+    }
+
+    if (response.headers.get("x-ratelimit-remaining") === "0") {
+      const resetTime = response.headers.get("x-ratelimit-reset");
+      return new RateLimitError(
+        resetTime ? new Date(parseInt(resetTime) * 1000) : new Date()
+      );
+    }
+
+    const retryAfter = response.headers.get("retry-after");
+    if (retryAfter !== null || response.status === 429) {
+      const seconds = retryAfter !== null ? parseInt(retryAfter, 10) : 60;
+      return new RateLimitError(new Date(Date.now() + seconds * 1000));
+    }
+
+    return null;
   }
 
   // ============================================================================
@@ -224,6 +442,7 @@ class GitHubServiceClass {
    * @param {string} url - Repository URL or shorthand
    * @param {string} branch - Branch to filter PRs by (empty for all branches)
    * @param {TimeFilter} timeFilter - Time period to analyze
+   * @param {RequestOptions} [options] - Shared request budget, etc.
    * @returns {Promise<RepositoryStats>} Complete repository statistics
    * @throws {GitHubApiError} On API errors
    *
@@ -240,19 +459,25 @@ class GitHubServiceClass {
   public async fetchRepositoryStats(
     url: string,
     branch: string,
-    timeFilter: TimeFilter
+    timeFilter: TimeFilter,
+    options: RequestOptions = {}
   ): Promise<RepositoryStats> {
     const { owner, repo } = this.parseUrl(url);
+    const timeZone = SettingsService.getTimeZone();
+    // A token changes the data source and what can be fetched
+    this.loadToken();
     const cacheKey = CacheService.generateKey(
       "repo_stats",
       owner,
       repo,
       branch || "all",
-      timeFilter
+      timeFilter,
+      timeZone,
+      this.token ? "auth" : "anon"
     );
 
     // Check cache first
-    const cached = CacheService.get<RepositoryStats>(cacheKey);
+    const cached = await CacheService.get<RepositoryStats>(cacheKey);
     if (cached) {
       console.log(`[Cache HIT] Repository stats for ${owner}/${repo}`);
       return cached;
@@ -260,21 +485,52 @@ class GitHubServiceClass {
 
     console.log(`[Cache MISS] Fetching repository stats for ${owner}/${repo}`);
 
-    // Fetch PRs with pagination
-    const prs = await this.fetchPullRequests(owner, repo, branch, timeFilter);
+    // Fetch PRs with reviews attached (GraphQL with a token, REST otherwise)
+    const prs = await this.fetchPullRequestsWithReviews(
+      owner,
+      repo,
+      branch,
+      timeFilter,
+      timeZone,
+      options
+    );
+
+    const maintainers = await this.fetchMaintainers(owner, repo, prs, options);
+    const priorAuthors = await this.fetchPriorAuthors(
+      owner,
+      repo,
+      prs,
+      timeFilter,
+      timeZone,
+      options
+    );
 
     // Calculate aggregated statistics
-    const contributors = this.calculateContributorStats(prs);
+    const contributors = this.calculateContributorStats(
+      prs,
+      maintainers,
+      priorAuthors
+    );
     const labelDistribution = this.calculateLabelDistribution(prs);
-    const activityTimeline = this.calculateActivityTimeline(prs, timeFilter);
-
-    // Review stats placeholder (would require additional API calls)
-    const reviewStats: ReviewStats = {
-      totalReviews: 0,
-      avgTimeToFirstReview: 0,
-      avgTimeToMerge: 0,
-      topReviewers: [],
-    };
+    const activityTimeline = ActivityTimeline.fromPullRequests(
+      prs,
+      timeFilter,
+      timeZone
+    );
+    const reviewStats = this.calculateReviewStats(prs);
+    const cycleTime = CycleTime.getStats(prs);
+    const retention = Retention.getStats(
+      prs,
+      contributors,
+      DateUtils.getEndDate(timeFilter, timeZone),
+      timeZone
+    );
+    const concentration = Concentration.getStats(
+      contributors,
+      prs,
+      timeFilter,
+      timeZone
+    );
 
     const result: RepositoryStats = {
       owner,
@@ -286,11 +542,165 @@ class GitHubServiceClass {
       recentPRs: prs,
       labelDistribution,
       activityTimeline,
+      timeZone,
       reviewStats,
+      cycleTime,
+      retention,
+      concentration,
     };
 
     // Cache the result
-    CacheService.set(cacheKey, result, CACHE_TTL.REPO_STATS);
+    await CacheService.set(cacheKey, result, CACHE_TTL.REPO_STATS);
+    return result;
+  }
+
+  /**
+   * Recomputes repository statistics without bots, from the PRs already
+   * fetched: bot PRs are dropped, and so are bot reviews on the remaining
+   * PRs, which moves their first review and cycle time. Bot contributors
+   * are dropped; everyone else keeps their counts and flags, with review
+   * timings recomputed.
+   *
+   * @param {RepositoryStats} stats - Statistics including bots
+   * @param {string[]} botLogins - User-listed bot logins
+   * @returns {RepositoryStats} Statistics without bots
+   *
+   * @example
+   * ```typescript
+   * const humans = GitHubService.excludeBots(stats, ['release-bot']);
+   * console.log(`${stats.totalPRs - humans.totalPRs} bot PRs`);
+   * ```
+   */
+  public excludeBots(
+    stats: RepositoryStats,
+    botLogins: string[]
+  ): RepositoryStats {
+    const prs = stats.recentPRs
+      .filter((pr) => !Bots.isBotPullRequest(pr, botLogins))
+      .map((pr) =>
+        pr.reviews
+          ? this.attachReviews(
+              pr,
+              pr.reviews.filter(
+                (review) => !Bots.isBotLogin(review.reviewer.login, botLogins)
+              )
+            )
+          : pr
+      );
+
+    const prsByUser = new Map<string, PullRequest[]>();
+    for (const pr of prs) {
+      const userPRs = prsByUser.get(pr.user.login);
+      if (userPRs) userPRs.push(pr);
+      else prsByUser.set(pr.user.login, [pr]);
+    }
+    const contributors = stats.contributors
+      .filter((contributor) => !Bots.isBotContributor(contributor, botLogins))
+      .map((contributor) => {
+        const userPRs = prsByUser.get(contributor.username) ?? [];
+        return {
+          ...contributor,
+          ...CycleTime.getAverages(userPRs),
+          cycleTime: CycleTime.getBreakdown(userPRs),
+        };
+      });
+
+    return {
+      ...stats,
+      totalPRs: prs.length,
+      contributors,
+      recentPRs: prs,
+      labelDistribution: this.calculateLabelDistribution(prs),
+      activityTimeline: ActivityTimeline.fromPullRequests(
+        prs,
+        stats.timeFilter,
+        stats.timeZone
+      ),
+      reviewStats: this.calculateReviewStats(prs),
+      cycleTime: CycleTime.getStats(prs),
+      retention: Retention.getStats(
+        prs,
+        contributors,
+        DateUtils.getEndDate(stats.timeFilter, stats.timeZone),
+        stats.timeZone
+      ),
+      concentration: Concentration.getStats(
+        contributors,
+        prs,
+        stats.timeFilter,
+        stats.timeZone
+      ),
+    };
+  }
+
+  /**
+   * Fetches every open pull request of a repository, however long ago it
+   * was opened, with reviews and the current merge and check status
+   * attached (the status needs a token). Unlike `recentPRs`, this is not
+   * limited to the analyzed window, so long-stale PRs are included.
+   * Without a token, reviews are fetched for the newest few PRs only.
+   *
+   * @param {string} url - Repository URL or owner/repo
+   * @param {string} branch - Base branch filter (empty for all branches)
+   * @param {RequestOptions} [options] - Abort signal, progress, etc.
+   * @returns {Promise<PullRequest[]>} Open PRs, newest first (up to 500)
+   *
+   * @example
+   * ```typescript
+   * const open = await GitHubService.fetchOpenPullRequests('facebook/react', '');
+   * const items = PullRequestAttention.findPullRequests(open, thresholds);
+   * ```
+   */
+  public async fetchOpenPullRequests(
+    url: string,
+    branch: string,
+    options: RequestOptions = {}
+  ): Promise<PullRequest[]> {
+    const { owner, repo } = this.parseUrl(url);
+    this.loadToken();
+    const cacheKey = CacheService.generateKey(
+      "open_prs",
+      owner,
+      repo,
+      branch || "all",
+      this.token ? "auth" : "anon"
+    );
+
+    const cached = await CacheService.get<PullRequest[]>(cacheKey);
+    if (cached) {
+      console.log(`[Cache HIT] Open PRs for ${owner}/${repo}`);
+      return cached;
+    }
+
+    let prs: PullRequest[];
+
+    if (this.token) {
+      prs = (
+        await this.graphqlFetcher.fetchOpen(owner, repo, branch, options)
+      ).map((pr) => this.attachReviews(pr, pr.reviews ?? []));
+    } else {
+      const baseParam = branch ? `&base=${branch}` : "";
+      const listed: PullRequest[] = [];
+
+      for (let page = 1; page <= GITHUB_API_CONFIG.MAX_PAGES; page++) {
+        const data = await this.request<any[]>(
+          `/repos/${owner}/${repo}/pulls?state=open&sort=created&direction=desc&per_page=${GITHUB_API_CONFIG.PER_PAGE}&page=${page}${baseParam}`,
+          options
+        );
+        listed.push(...data.map((pr) => this.mapPullRequest(pr, owner, repo)));
+
+        if (
+          data.length < GITHUB_API_CONFIG.PER_PAGE ||
+          listed.length >= GITHUB_API_CONFIG.MAX_PRS
+        ) {
+          break;
+        }
+      }
+      prs = await this.fetchReviews(owner, repo, listed, options);
+    }
+
+    const result = await this.fetchOpenStatus(owner, repo, prs, options);
+    await CacheService.set(cacheKey, result, CACHE_TTL.REPO_STATS);
     return result;
   }
 
@@ -299,6 +709,7 @@ class GitHubServiceClass {
    *
    * @param {string} owner - Repository owner
    * @param {string} repo - Repository name
+   * @param {RequestOptions} [options] - Abort signal, progress, etc.
    * @returns {Promise<string[]>} Array of branch names
    *
    * @example
@@ -307,11 +718,15 @@ class GitHubServiceClass {
    * // ['main', 'canary', 'experimental', ...]
    * ```
    */
-  public async fetchBranches(owner: string, repo: string): Promise<string[]> {
+  public async fetchBranches(
+    owner: string,
+    repo: string,
+    options: RequestOptions = {}
+  ): Promise<string[]> {
     const cacheKey = CacheService.generateKey("branches", owner, repo);
 
     // Check cache first
-    const cached = CacheService.get<string[]>(cacheKey);
+    const cached = await CacheService.get<string[]>(cacheKey);
     if (cached) {
       console.log(`[Cache HIT] Branches for ${owner}/${repo}`);
       return cached;
@@ -324,7 +739,8 @@ class GitHubServiceClass {
 
       while (page <= maxPages) {
         const data = await this.request<Array<{ name: string }>>(
-          `/repos/${owner}/${repo}/branches?per_page=100&page=${page}`
+          `/repos/${owner}/${repo}/branches?per_page=100&page=${page}`,
+          options
         );
 
         branches.push(...data.map((b) => b.name));
@@ -334,14 +750,68 @@ class GitHubServiceClass {
       }
 
       // Cache the result
-      CacheService.set(cacheKey, branches, CACHE_TTL.BRANCHES);
+      await CacheService.set(cacheKey, branches, CACHE_TTL.BRANCHES);
       return branches;
     } catch (error) {
+      options.signal?.throwIfAborted();
       console.error("Failed to fetch branches:", error);
       return [];
     }
   }
 
+  /**
+   * Lists an organization's public repositories, most recently pushed first.
+   * Falls back to the user endpoint for personal accounts.
+   *
+   * @param {string} org - Organization (or user) login
+   * @param {RequestOptions} [options] - Shared request budget, etc.
+   * @returns {Promise<OrganizationRepository[]>} Up to 100 repositories
+   * @throws {GitHubApiError} If neither an organization nor a user exists
+   *
+   * @example
+   * ```typescript
+   * const repos = await GitHubService.fetchOrganizationRepositories('52North');
+   * ```
+   */
+  public async fetchOrganizationRepositories(
+    org: string,
+    options: RequestOptions = {}
+  ): Promise<OrganizationRepository[]> {
+    const cacheKey = CacheService.generateKey("org_repos", org.toLowerCase());
+    const cached = await CacheService.get<OrganizationRepository[]>(cacheKey);
+    if (cached) {
+      console.log(`[Cache HIT] Repositories for ${org}`);
+      return cached;
+    }
+
+    const query = "per_page=100&sort=pushed&direction=desc";
+    let data: any[];
+    try {
+      data = await this.request<any[]>(
+        `/orgs/${org}/repos?type=public&${query}`,
+        options
+      );
+    } catch (error) {
+      if (!(error instanceof GitHubApiError) || error.status !== 404) {
+        throw error;
+      }
+      data = await this.request<any[]>(`/users/${org}/repos?${query}`, options);
+    }
+
+    const repositories: OrganizationRepository[] = data.map((repo) => ({
+      name: repo.name,
+      fullName: repo.full_name,
+      description: repo.description,
+      stars: repo.stargazers_count || 0,
+      pushedAt: repo.pushed_at,
+      archived: Boolean(repo.archived),
+      fork: Boolean(repo.fork),
+    }));
+
+    await CacheService.set(cacheKey, repositories, CACHE_TTL.BRANCHES);
+    return repositories;
+  }
+
   // ============================================================================
   // Public API - User Operations
   // ============================================================================
@@ -351,6 +821,7 @@ class GitHubServiceClass {
    *
    * @param {string} username - GitHub username
    * @param {TimeFilter} timeFilter - Time period for PR analysis
+   * @param {RequestOptions} [options] - Abort signal, progress, etc.
    * @returns {Promise<UserProfileStats>} User profile with PR statistics
    * @throws {GitHubApiError} On API errors
    *
@@ -362,7 +833,8 @@ class GitHubServiceClass {
    */
   public async fetchUserStats(
     username: string,
-    timeFilter: TimeFilter
+    timeFilter: TimeFilter,
+    options: RequestOptions = {}
   ): Promise<UserProfileStats> {
     const cacheKey = CacheService.generateKey(
       "user_stats",
@@ -371,7 +843,7 @@ class GitHubServiceClass {
     );
 
     // Check cache first
-    const cached = CacheService.get<UserProfileStats>(cacheKey);
+    const cached = await CacheService.get<UserProfileStats>(cacheKey);
     if (cached) {
       console.log(`[Cache HIT] User stats for ${username}`);
       return cached;
@@ -389,13 +861,20 @@ class GitHubServiceClass {
       followers: number;
       following: number;
       created_at: string;
-    }>(`/users/${username}`);
+    }>(`/users/${username}`, options);
 
     // Search for user's PRs
-    const prs = await this.searchUserPullRequests(username, timeFilter);
+    const prs = await this.searchUserPullRequests(
+      username,
+      timeFilter,
+      options
+    );
 
     // Calculate per-repository contributions
     const repositories = this.calculateRepositoryContributions(prs);
+    const maintainerRepos = Object.values(repositories)
+      .filter((contribution) => contribution.isMaintainer)
+      .map((contribution) => contribution.fullName);
 
     // Calculate totals
     const totalStats = {
@@ -417,14 +896,67 @@ class GitHubServiceClass {
       repositories,
       pullRequests: prs,
       totalStats,
-      maintainerRepos: [],
+      maintainerRepos,
     };
 
     // Cache the result
-    CacheService.set(cacheKey, result, CACHE_TTL.USER_PROFILE);
+    await CacheService.set(cacheKey, result, CACHE_TTL.USER_PROFILE);
     return result;
   }
 
+  /**
+   * Searches pull requests merged since a date, selected by merge time
+   * rather than creation time.
+   *
+   * @param {string} scope - Search qualifier, e.g. `repo:owner/name` or
+   *        `user:login` for every repository of an account
+   * @param {Date} since - Earliest merge date
+   * @param {RequestOptions} [options] - Shared request budget, etc.
+   * @returns {Promise<{ total: number; prs: PullRequest[] }>} Number of
+   *          matching PRs and the first 500 of them
+   *
+   * @example
+   * ```typescript
+   * const { total } = await GitHubService.searchMergedPullRequests(
+   *   'user:52North',
+   *   DateUtils.getStartDate('3m')
+   * );
+   * ```
+   */
+  public async searchMergedPullRequests(
+    scope: string,
+    since: Date,
+    options: RequestOptions = {}
+  ): Promise<{ total: number; prs: PullRequest[] }> {
+    return this.searchPullRequests(
+      `${scope} is:pr is:merged merged:>=${DateUtils.toDateString(since)}`,
+      "",
+      options
+    );
+  }
+
+  /**
+   * Searches pull requests opened since a date, in any state.
+   *
+   * @param {string} scope - Search qualifier, e.g. `repo:owner/name` or
+   *        `user:login` for every repository of an account
+   * @param {Date} since - Earliest creation date
+   * @param {RequestOptions} [options] - Shared request budget, etc.
+   * @returns {Promise<{ total: number; prs: PullRequest[] }>} Number of
+   *          matching PRs and the first 500 of them
+   */
+  public async searchCreatedPullRequests(
+    scope: string,
+    since: Date,
+    options: RequestOptions = {}
+  ): Promise<{ total: number; prs: PullRequest[] }> {
+    return this.searchPullRequests(
+      `${scope} is:pr created:>=${DateUtils.toDateString(since)}`,
+      "",
+      options
+    );
+  }
+
   /**
    * Gets current GitHub API rate limit status.
    *
@@ -468,52 +1000,105 @@ class GitHubServiceClass {
   // ============================================================================
 
   /**
-   * Fetches pull requests with pagination support.
+   * Fetches pull requests and their reviews from the best available source.
+   * With a token, a paginated GraphQL query returns diff sizes, labels and
+   * reviews; otherwise the REST list is enriched with reviews for the most
+   * recent PRs. GraphQL failures other than rate limits and missing
+   * repositories fall back to REST.
+   *
+   * Either way, PRs are synced into the local {@link PullRequestStore}, so
+   * only PRs updated since the last analysis and the part of the window
+   * not fetched before are requested.
    * @private
    */
-  private async fetchPullRequests(
+  private async fetchPullRequestsWithReviews(
     owner: string,
     repo: string,
     branch: string,
-    timeFilter: TimeFilter
+    timeFilter: TimeFilter,
+    timeZone: string,
+    options: RequestOptions
   ): Promise<PullRequest[]> {
-    const startDate = DateUtils.getStartDate(timeFilter);
-    const allPRs: PullRequest[] = [];
-    let page = 1;
+    this.loadToken();
+    const startDate = DateUtils.getStartDate(timeFilter, timeZone);
+    const endDate = DateUtils.getEndDate(timeFilter, timeZone);
 
-    try {
-      while (
-        page <= GITHUB_API_CONFIG.MAX_PAGES &&
-        allPRs.length < GITHUB_API_CONFIG.MAX_PRS
-      ) {
-        const baseParam = branch ? `&base=${branch}` : "";
-        const data = await this.request<any[]>(
-          `/repos/${owner}/${repo}/pulls?state=all&sort=created&direction=desc&per_page=${GITHUB_API_CONFIG.PER_PAGE}&page=${page}${baseParam}`
+    if (this.token) {
+      try {
+        return await this.prStore.sync(
+          // graphql2: bot logins carry the "[bot]" suffix, as in REST
+          this.prStore.key(owner, repo, branch, "graphql2"),
+          async (order, after) => {
+            const page = await this.graphqlFetcher.fetchPage(
+              owner,
+              repo,
+              branch,
+              order,
+              after,
+              options
+            );
+            options.progress?.prsFetched(page.prs.length);
+            return {
+              prs: page.prs.map((pr) =>
+                this.attachReviews(pr, pr.reviews ?? [])
+              ),
+              next: page.next,
+            };
+          },
+          startDate,
+          endDate
         );
+      } catch (error) {
+        if (
+          options.signal?.aborted ||
+          error instanceof RateLimitError ||
+          error instanceof BudgetExhaustedError ||
+          (error instanceof GitHubApiError && error.status === 404)
+        ) {
+          throw error;
+        }
+        console.warn("GraphQL fetch failed, falling back to REST:", error);
+      }
+    }
 
-        if (data.length === 0) break;
-
-        // Filter by date and transform
-        const filteredPRs = data
-          .filter((pr) => new Date(pr.created_at) >= startDate)
-          .map((pr) => this.mapPullRequest(pr, owner, repo));
-
-        allPRs.push(...filteredPRs);
-
-        // Stop if we got less than per_page or oldest PR is before startDate
-        if (data.length < GITHUB_API_CONFIG.PER_PAGE) break;
-
-        const oldestPR = new Date(data[data.length - 1].created_at);
-        if (oldestPR < startDate) break;
+    const key = this.prStore.key(owner, repo, branch, "rest");
+    const prs = await this.prStore.sync(
+      key,
+      (order, after) =>
+        this.fetchPullRequestPage(owner, repo, branch, order, after, options),
+      startDate,
+      endDate
+    );
+    const reviewed = await this.fetchReviews(owner, repo, prs, options);
+    await this.prStore.update(key, reviewed);
+    return reviewed;
+  }
 
-        page++;
-      }
+  /**
+   * Fetches one page of the REST pull request list. The resume token is
+   * the next page number.
+   * @private
+   */
+  private async fetchPullRequestPage(
+    owner: string,
+    repo: string,
+    branch: string,
+    order: PullRequestOrder,
+    after: string | null,
+    options: RequestOptions = {}
+  ): Promise<PullRequestPage> {
+    const page = after ? parseInt(after, 10) : 1;
+    const baseParam = branch ? `&base=${branch}` : "";
+    const data = await this.request<any[]>(
+      `/repos/${owner}/${repo}/pulls?state=all&sort=${order}&direction=desc&per_page=${GITHUB_API_CONFIG.PER_PAGE}&page=${page}${baseParam}`,
+      options
+    );
+    options.progress?.prsFetched(data.length);
 
-      return allPRs;
-    } catch (error) {
-      console.error("Failed to fetch pull requests:", error);
-      throw error;
-    }
+    return {
+      prs: data.map((pr) => this.mapPullRequest(pr, owner, repo)),
+      next: data.length < GITHUB_API_CONFIG.PER_PAGE ? null : String(page + 1),
+    };
   }
 
   /**
@@ -522,34 +1107,254 @@ class GitHubServiceClass {
    */
   private async searchUserPullRequests(
     username: string,
-    timeFilter: TimeFilter
+    timeFilter: TimeFilter,
+    options: RequestOptions = {}
   ): Promise<PullRequest[]> {
-    const startDate = DateUtils.getStartDate(timeFilter);
-    const dateStr = DateUtils.toDateString(startDate);
-    const query = `author:${username} is:pr created:>=${dateStr}`;
+    // Custom ranges already use the search syntax for date ranges
+    const created =
+      DateUtils.parseCustomRange(timeFilter) !== null
+        ? timeFilter
+        : `>=${DateUtils.toDateString(DateUtils.getStartDate(timeFilter))}`;
+    const query = `author:${username} is:pr created:${created}`;
+
+    return (await this.searchPullRequests(query, username, options)).prs;
+  }
 
+  /**
+   * Runs an issue search for pull requests, newest first, up to 5 pages.
+   * `login` fills in the author when a result has none.
+   * @private
+   */
+  private async searchPullRequests(
+    query: string,
+    login: string,
+    options: RequestOptions = {}
+  ): Promise<{ total: number; prs: PullRequest[] }> {
     const prs: PullRequest[] = [];
+    let total = 0;
     let page = 1;
     const maxPages = 5;
 
     while (page <= maxPages && prs.length < 500) {
-      const searchResult = await this.request<{ items: any[] }>(
+      const searchResult = await this.request<{
+        total_count: number;
+        items: any[];
+      }>(
         `/search/issues?q=${encodeURIComponent(
           query
-        )}&per_page=100&page=${page}&sort=created&order=desc`
+        )}&per_page=100&page=${page}&sort=created&order=desc`,
+        options
       );
+      options.progress?.prsFetched(searchResult.items.length);
+      total = searchResult.total_count;
 
       if (searchResult.items.length === 0) break;
 
       for (const item of searchResult.items) {
-        prs.push(this.mapSearchResultToPR(item, username));
+        prs.push(this.mapSearchResultToPR(item, login));
       }
 
       if (searchResult.items.length < 100) break;
       page++;
     }
 
-    return prs;
+    return { total, prs };
+  }
+
+  /**
+   * Fetches submitted reviews for the most recent pull requests.
+   * Reviews cost one request per PR, so only the first
+   * `MAX_REVIEWED_PRS` (fewer without a token) are enriched; the rest keep
+   * `reviews: null`. PRs whose reviews are already known (from the local
+   * PR store) are not refetched. Hitting the rate limit or the request
+   * budget stops enrichment instead of failing the whole analysis.
+   * @private
+   */
+  private async fetchReviews(
+    owner: string,
+    repo: string,
+    prs: PullRequest[],
+    options: RequestOptions = {}
+  ): Promise<PullRequest[]> {
+    this.loadToken();
+    const limit = this.token
+      ? GITHUB_API_CONFIG.MAX_REVIEWED_PRS
+      : GITHUB_API_CONFIG.MAX_REVIEWED_PRS_UNAUTHENTICATED;
+    const targets = prs.slice(0, limit).filter((pr) => pr.reviews === null);
+    const enriched = new Map<number, PullRequest>();
+
+    for (
+      let i = 0;
+      i < targets.length;
+      i += GITHUB_API_CONFIG.REVIEW_FETCH_CONCURRENCY
+    ) {
+      const batch = targets.slice(
+        i,
+        i + GITHUB_API_CONFIG.REVIEW_FETCH_CONCURRENCY
+      );
+      const results = await Promise.allSettled(
+        batch.map((pr) =>
+          this.request<any[]>(
+            `/repos/${owner}/${repo}/pulls/${pr.number}/reviews?per_page=100`,
+            options
+          )
+        )
+      );
+
+      let rateLimited = false;
+      results.forEach((result, index) => {
+        const pr = batch[index];
+        if (result.status === "fulfilled") {
+          const reviews = result.value
+            .filter((review) => review.state !== "PENDING")
+            .map((review) => this.mapReview(review));
+          enriched.set(pr.number, this.attachReviews(pr, reviews));
+        } else if (
+          result.reason instanceof RateLimitError ||
+          result.reason instanceof BudgetExhaustedError
+        ) {
+          rateLimited = true;
+        } else {
+          console.warn(
+            `Failed to fetch reviews for #${pr.number}:`,
+            result.reason
+          );
+        }
+      });
+
+      // Aborted requests settle as failures; stop instead of carrying on
+      options.signal?.throwIfAborted();
+
+      if (rateLimited) {
+        console.warn(
+          "Rate limit reached while fetching reviews; using partial data"
+        );
+        break;
+      }
+    }
+
+    return prs.map((pr) => enriched.get(pr.number) ?? pr);
+  }
+
+  /**
+   * Attaches the current merge and check status to open pull requests.
+   * Only GraphQL reports both in one request, so without a token they stay
+   * null. Like reviews, the status is optional: failures other than an
+   * abort leave it null instead of failing the analysis.
+   * @private
+   */
+  private async fetchOpenStatus(
+    owner: string,
+    repo: string,
+    prs: PullRequest[],
+    options: RequestOptions = {}
+  ): Promise<PullRequest[]> {
+    this.loadToken();
+    const open = prs.filter((pr) => pr.state === "open").map((pr) => pr.number);
+    if (!this.token || open.length === 0) return prs;
+
+    try {
+      const statuses = await this.graphqlFetcher.fetchStatus(
+        owner,
+        repo,
+        open,
+        options
+      );
+      return prs.map((pr) => {
+        const status = statuses.get(pr.number);
+        return status ? { ...pr, ...status } : pr;
+      });
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.warn("Failed to fetch merge and check status:", error);
+      return prs;
+    }
+  }
+
+  /**
+   * Finds the PR authors who opened a PR to the repository before the
+   * analyzed window; everyone else is a first-timer. When the PR budget
+   * cut the window short, "before" means before the oldest fetched PR.
+   * The lookup needs GraphQL search, so without a token, or when it fails,
+   * the answer is unknown (null).
+   * @private
+   */
+  private async fetchPriorAuthors(
+    owner: string,
+    repo: string,
+    prs: PullRequest[],
+    timeFilter: TimeFilter,
+    timeZone: string,
+    options: RequestOptions = {}
+  ): Promise<Set<string> | null> {
+    const truncated = prs.length >= GITHUB_API_CONFIG.MAX_PRS;
+
+    // Nothing older was left out
+    if (prs.length === 0 || (timeFilter === "all" && !truncated)) {
+      return new Set();
+    }
+
+    this.loadToken();
+    if (!this.token) return null;
+
+    const before = truncated
+      ? new Date(
+          prs.reduce(
+            (oldest, pr) => (pr.createdAt < oldest ? pr.createdAt : oldest),
+            prs[0].createdAt
+          )
+        )
+      : DateUtils.getStartDate(timeFilter, timeZone);
+    const logins = Array.from(new Set(prs.map((pr) => pr.user.login)));
+
+    try {
+      return await this.graphqlFetcher.fetchPriorAuthors(
+        owner,
+        repo,
+        logins,
+        before,
+        options
+      );
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.warn("Failed to look up earlier PRs of contributors:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Infers repository maintainers. Permission and CODEOWNERS lookups are
+   * cached per repository since they change rarely and do not depend on the
+   * PR window; PR-level signals are recomputed for every analysis.
+   * @private
+   */
+  private async fetchMaintainers(
+    owner: string,
+    repo: string,
+    prs: PullRequest[],
+    options: RequestOptions = {}
+  ): Promise<Record<string, MaintainerEvidence>> {
+    this.loadToken();
+    const cacheKey = CacheService.generateKey(
+      "maintainer_signals",
+      owner,
+      repo,
+      this.token ? "auth" : "anon"
+    );
+
+    const signals = await CacheService.getOrFetch<RepositorySignals>(
+      cacheKey,
+      () =>
+        this.maintainerDetector.fetchRepositorySignals(
+          owner,
+          repo,
+          Boolean(this.token),
+          options
+        ),
+      CACHE_TTL.MAINTAINERS
+    );
+
+    return this.maintainerDetector.infer(signals, prs);
   }
 
   // ============================================================================
@@ -569,6 +1374,7 @@ class GitHubServiceClass {
       createdAt: pr.created_at,
       mergedAt: pr.merged_at,
       closedAt: pr.closed_at,
+      updatedAt: pr.updated_at,
       htmlUrl: pr.html_url,
       repositoryUrl: `https://github.com/${owner}/${repo}`,
       repositoryName: `${owner}/${repo}`,
@@ -576,6 +1382,7 @@ class GitHubServiceClass {
       user: {
         login: pr.user?.login || "unknown",
         avatarUrl: pr.user?.avatar_url || "",
+        isBot: Bots.isBotAccount(pr.user?.login || "", pr.user?.type),
       },
       labels: pr.labels?.map((l: any) => l.name) || [],
       additions: pr.additions || 0,
@@ -583,9 +1390,46 @@ class GitHubServiceClass {
       changedFiles: pr.changed_files || 0,
       reviewComments: pr.review_comments || 0,
       firstReviewAt: null,
+      reviews: null,
+      authorAssociation: pr.author_association || "NONE",
+      mergedBy: pr.merged_by?.login ?? null,
+      mergeable: null,
+      checkStatus: null,
+    };
+  }
+
+  /**
+   * Maps GitHub API review response to internal PullRequestReview type.
+   * @private
+   */
+  private mapReview(review: any): PullRequestReview {
+    return {
+      reviewer: {
+        login: review.user?.login || "unknown",
+        avatarUrl: review.user?.avatar_url || "",
+      },
+      state: review.state as ReviewState,
+      submittedAt: review.submitted_at,
     };
   }
 
+  /**
+   * Attaches reviews to a PR and derives `firstReviewAt` from the earliest
+   * review left by someone other than the PR author.
+   * @private
+   */
+  private attachReviews(
+    pr: PullRequest,
+    reviews: PullRequestReview[]
+  ): PullRequest {
+    const times = reviews
+      .filter((r) => r.reviewer.login !== pr.user.login && r.submittedAt)
+      .map((r) => r.submittedAt)
+      .sort();
+
+    return { ...pr, reviews, firstReviewAt: times[0] ?? null };
+  }
+
   /**
    * Maps search API result to PullRequest type.
    * @private
@@ -603,6 +1447,7 @@ class GitHubServiceClass {
       createdAt: item.created_at,
       mergedAt: item.pull_request?.merged_at || null,
       closedAt: item.closed_at,
+      updatedAt: item.updated_at,
       htmlUrl: item.html_url,
       repositoryUrl: item.repository_url || "",
       repositoryName: `${owner}/${repo}`,
@@ -610,6 +1455,7 @@ class GitHubServiceClass {
       user: {
         login: item.user?.login || username,
         avatarUrl: item.user?.avatar_url || "",
+        isBot: Bots.isBotAccount(item.user?.login || username, item.user?.type),
       },
       labels:
         item.labels?.map((l: any) =>
@@ -620,6 +1466,11 @@ class GitHubServiceClass {
       changedFiles: 0,
       reviewComments: 0,
       firstReviewAt: null,
+      reviews: null,
+      authorAssociation: item.author_association || "NONE",
+      mergedBy: null,
+      mergeable: null,
+      checkStatus: null,
     };
   }
 
@@ -628,16 +1479,25 @@ class GitHubServiceClass {
   // ============================================================================
 
   /**
-   * Calculates per-contributor statistics from pull requests.
+   * Calculates per-contributor statistics from pull requests, including
+   * each contributor's cycle time percentiles and whether they are a
+   * first-timer (`priorAuthors` lists lowercase logins with earlier PRs;
+   * null when unknown).
    * @private
    */
-  private calculateContributorStats(prs: PullRequest[]): ContributorStats[] {
+  private calculateContributorStats(
+    prs: PullRequest[],
+    maintainers: Record<string, MaintainerEvidence> = {},
+    priorAuthors: Set<string> | null = null
+  ): ContributorStats[] {
     const statsMap = new Map<string, ContributorStats>();
+    const prsByUser = new Map<string, PullRequest[]>();
 
     for (const pr of prs) {
       const { login: username } = pr.user;
 
       if (!statsMap.has(username)) {
+        const evidence = maintainers[username.toLowerCase()] ?? null;
         statsMap.set(username, {
           username,
           avatarUrl: pr.user.avatarUrl,
@@ -645,18 +1505,30 @@ class GitHubServiceClass {
           mergedPRs: 0,
           openPRs: 0,
           closedPRs: 0,
-          isMaintainer: false,
+          isMaintainer: evidence !== null,
+          maintainerEvidence: evidence,
+          isBot: pr.user.isBot || Bots.isBotAccount(username),
           totalAdditions: 0,
           totalDeletions: 0,
           avgReviewTime: 0,
           avgMergeTime: 0,
+          cycleTime: CycleTime.getBreakdown([]),
+          firstPRAt: pr.createdAt,
+          isFirstTimer: priorAuthors
+            ? !priorAuthors.has(username.toLowerCase())
+            : null,
         });
+        prsByUser.set(username, []);
       }
 
+      prsByUser.get(username)!.push(pr);
       const stats = statsMap.get(username)!;
       stats.totalPRs++;
       stats.totalAdditions += pr.additions;
       stats.totalDeletions += pr.deletions;
+      if (pr.createdAt < stats.firstPRAt) {
+        stats.firstPRAt = pr.createdAt;
+      }
 
       if (pr.merged) {
         stats.mergedPRs++;
@@ -667,6 +1539,12 @@ class GitHubServiceClass {
       }
     }
 
+    for (const [username, userPRs] of prsByUser) {
+      Object.assign(statsMap.get(username)!, CycleTime.getAverages(userPRs), {
+        cycleTime: CycleTime.getBreakdown(userPRs),
+      });
+    }
+
     return Array.from(statsMap.values());
   }
 
@@ -689,46 +1567,86 @@ class GitHubServiceClass {
   }
 
   /**
-   * Calculates daily activity timeline from pull requests.
+   * Calculates review statistics from pull requests with fetched reviews.
+   * Durations are reported in hours; reviewers are ranked by review count.
    * @private
    */
-  private calculateActivityTimeline(
-    prs: PullRequest[],
-    timeFilter: TimeFilter
-  ): ActivityDataPoint[] {
-    const dateRange = DateUtils.generateDateRange(timeFilter);
-    const timeline = new Map<string, ActivityDataPoint>();
-
-    // Initialize all dates with zero counts
-    for (const date of dateRange) {
-      timeline.set(date, { date, opened: 0, merged: 0, closed: 0 });
-    }
+  private calculateReviewStats(prs: PullRequest[]): ReviewStats {
+    const reviewers = new Map<string, ReviewerStats>();
+    const firstReviewHours: number[] = [];
+    const mergeHours: number[] = [];
+    let totalReviews = 0;
+    let reviewedPRs = 0;
 
-    // Aggregate PR counts per day
     for (const pr of prs) {
-      const createdDate = DateUtils.toDateString(new Date(pr.createdAt));
-      if (timeline.has(createdDate)) {
-        timeline.get(createdDate)!.opened++;
+      if (pr.mergedAt) {
+        mergeHours.push(
+          DateUtils.diffInHours(new Date(pr.createdAt), new Date(pr.mergedAt))
+        );
       }
 
-      if (pr.mergedAt) {
-        const mergedDate = DateUtils.toDateString(new Date(pr.mergedAt));
-        if (timeline.has(mergedDate)) {
-          timeline.get(mergedDate)!.merged++;
+      if (!pr.reviews) continue;
+      reviewedPRs++;
+
+      if (pr.firstReviewAt) {
+        firstReviewHours.push(
+          DateUtils.diffInHours(
+            new Date(pr.createdAt),
+            new Date(pr.firstReviewAt)
+          )
+        );
+      }
+
+      for (const review of pr.reviews) {
+        // Authors replying in their own PR thread are not reviewers
+        if (review.reviewer.login === pr.user.login) continue;
+        totalReviews++;
+
+        const { login, avatarUrl } = review.reviewer;
+        if (!reviewers.has(login)) {
+          reviewers.set(login, {
+            username: login,
+            avatarUrl,
+            reviewCount: 0,
+            approvedCount: 0,
+            changesRequestedCount: 0,
+          });
         }
-      } else if (pr.closedAt) {
-        const closedDate = DateUtils.toDateString(new Date(pr.closedAt));
-        if (timeline.has(closedDate)) {
-          timeline.get(closedDate)!.closed++;
+
+        const stats = reviewers.get(login)!;
+        stats.reviewCount++;
+        if (review.state === "APPROVED") {
+          stats.approvedCount++;
+        } else if (review.state === "CHANGES_REQUESTED") {
+          stats.changesRequestedCount++;
         }
       }
     }
 
-    return Array.from(timeline.values());
+    const average = (values: number[]): number =>
+      values.length > 0
+        ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+        : 0;
+
+    const ranked = Array.from(reviewers.values()).sort(
+      (a, b) => b.reviewCount - a.reviewCount
+    );
+
+    return {
+      totalReviews,
+      reviewedPRs,
+      firstReviewedPRs: firstReviewHours.length,
+      avgTimeToFirstReview: average(firstReviewHours),
+      avgTimeToMerge: average(mergeHours),
+      reviewers: ranked,
+      topReviewers: ranked.slice(0, 10),
+    };
   }
 
   /**
    * Calculates per-repository contribution statistics.
+   * A user counts as a maintainer of a repository when any of their PRs there
+   * carries an OWNER, MEMBER or COLLABORATOR author association.
    * @private
    */
   private calculateRepositoryContributions(
@@ -745,6 +1663,20 @@ class GitHubServiceClass {
           prCount: 0,
           mergedCount: 0,
           isMaintainer: false,
+          maintainerEvidence: null,
+        };
+      }
+
+      const association = pr.authorAssociation;
+      if (
+        !repositories[repoName].isMaintainer &&
+        ["OWNER", "MEMBER", "COLLABORATOR"].includes(association)
+      ) {
+        repositories[repoName].isMaintainer = true;
+        repositories[repoName].maintainerEvidence = {
+          confidence: association === "MEMBER" ? "medium" : "high",
+          reason: `GitHub lists them as ${association}`,
+          signals: ["association"],
         };
       }
 
@@ -0,0 +1,497 @@
+/**
+ * @fileoverview GraphQL-backed pull request fetcher.
+ * Fetches PRs together with diff sizes, labels and reviews in one paginated
+ * query, which the REST list endpoint cannot provide.
+ *
+ * @module services/GraphQLPullRequestFetcher
+ * @description
+ * The GitHub GraphQL API only accepts authenticated requests, so this fetcher
+ * is used by GitHubService when a personal access token is configured.
+ * The transport is injected so token handling and error mapping stay in
+ * GitHubService.
+ */
+
+import { GITHUB_API_CONFIG } from "../constants";
+import {
+  CheckStatus,
+  MergeableState,
+  PullRequest,
+  PullRequestReview,
+  ReviewState,
+} from "../types";
+import { Bots } from "../utils";
+import type { RequestOptions } from "./GitHubService";
+import type { PullRequestOrder, PullRequestPage } from "./PullRequestStore";
+
+/**
+ * Executes a GraphQL query and resolves with its `data` payload.
+ */
+export type GraphQLQueryFn = <T>(
+  query: string,
+  variables: Record<string, unknown>,
+  options?: RequestOptions
+) => Promise<T>;
+
+/**
+ * Author, reviewer or merger of a pull request.
+ */
+interface ActorNode {
+  __typename: string;
+  login: string;
+  avatarUrl: string;
+}
+
+/**
+ * Pull request node shape returned by {@link PULL_REQUESTS_QUERY}.
+ */
+interface PullRequestNode {
+  number: number;
+  title: string;
+  state: "OPEN" | "CLOSED" | "MERGED";
+  merged: boolean;
+  createdAt: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  updatedAt: string;
+  url: string;
+  baseRefName: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  author: ActorNode | null;
+  authorAssociation: string;
+  mergedBy: Pick<ActorNode, "__typename" | "login"> | null;
+  labels: { nodes: Array<{ name: string }> };
+  reviews: {
+    nodes: Array<{
+      author: ActorNode | null;
+      state: ReviewState;
+      submittedAt: string | null;
+      comments: { totalCount: number };
+    }>;
+  };
+}
+
+/**
+ * Response shape of {@link PULL_REQUESTS_QUERY}.
+ */
+interface PullRequestsResponse {
+  repository: {
+    pullRequests: {
+      nodes: PullRequestNode[];
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    };
+  } | null;
+}
+
+/**
+ * Newest-first PR page with everything the dashboard aggregates.
+ * `baseRefName: null` disables the branch filter, `states: null` the state
+ * filter.
+ */
+const PULL_REQUESTS_QUERY = `
+  query PullRequests(
+    $owner: String!
+    $repo: String!
+    $first: Int!
+    $after: String
+    $base: String
+    $states: [PullRequestState!]
+    $orderBy: PullRequestOrderField!
+  ) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(
+        first: $first
+        after: $after
+        baseRefName: $base
+        states: $states
+        orderBy: { field: $orderBy, direction: DESC }
+      ) {
+        nodes {
+          number
+          title
+          state
+          merged
+          createdAt
+          mergedAt
+          closedAt
+          updatedAt
+          url
+          baseRefName
+          additions
+          deletions
+          changedFiles
+          author { __typename login avatarUrl }
+          authorAssociation
+          mergedBy { __typename login }
+          labels(first: 20) { nodes { name } }
+          reviews(first: 50) {
+            nodes {
+              author { __typename login avatarUrl }
+              state
+              submittedAt
+              comments { totalCount }
+            }
+          }
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+/**
+ * Combined state of a commit's checks and statuses.
+ */
+type RollupState = "SUCCESS" | "FAILURE" | "ERROR" | "PENDING" | "EXPECTED";
+
+/**
+ * Merge and check status node shape returned by
+ * {@link buildStatusQuery}.
+ */
+interface PullRequestStatusNode {
+  number: number;
+  mergeable: "MERGEABLE" | "CONFLICTING" | "UNKNOWN";
+  commits: {
+    nodes: Array<{
+      commit: {
+        statusCheckRollup: { state: RollupState } | null;
+      };
+    }>;
+  };
+}
+
+/**
+ * Merge and check status of an open pull request.
+ */
+export type PullRequestStatus = Pick<PullRequest, "mergeable" | "checkStatus">;
+
+/**
+ * Query for the current merge and check status of the given PRs, one
+ * aliased `pullRequest` field per number. These change without bumping
+ * `updatedAt` (a push to the base branch, a finished CI run), so they are
+ * fetched fresh instead of being kept with the synced PRs.
+ */
+function buildStatusQuery(numbers: number[]): string {
+  const fields = numbers
+    .map(
+      (number) => `
+      pr${number}: pullRequest(number: ${number}) {
+        number
+        mergeable
+        commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+      }`
+    )
+    .join("");
+
+  return `
+  query PullRequestStatus($owner: String!, $repo: String!) {
+    repository(owner: $owner, name: $repo) {${fields}
+    }
+  }
+`;
+}
+
+/**
+ * Query counting, per author, the PRs opened before a date. Each author is
+ * one aliased `search` field whose query string is passed as a variable.
+ */
+function buildPriorAuthorsQuery(count: number): string {
+  const indexes = Array.from({ length: count }, (_, index) => index);
+  const variables = indexes.map((index) => `$q${index}: String!`).join(", ");
+  const fields = indexes
+    .map(
+      (index) => `
+    a${index}: search(query: $q${index}, type: ISSUE, first: 1) { issueCount }`
+    )
+    .join("");
+
+  return `
+  query PriorAuthors(${variables}) {${fields}
+  }
+`;
+}
+
+/**
+ * Check status of each rollup state.
+ */
+const CHECK_STATUSES: Record<RollupState, CheckStatus> = {
+  SUCCESS: "success",
+  FAILURE: "failure",
+  ERROR: "failure",
+  PENDING: "pending",
+  EXPECTED: "pending",
+};
+
+/**
+ * Login of an actor as REST reports it. GraphQL drops the "[bot]" suffix
+ * of GitHub App accounts, which REST, search and bot detection rely on.
+ */
+function actorLogin(actor: Pick<ActorNode, "__typename" | "login">): string {
+  return actor.__typename === "Bot" ? `${actor.login}[bot]` : actor.login;
+}
+
+/**
+ * GraphQL order field of each listing order.
+ */
+const ORDER_FIELDS: Record<PullRequestOrder, string> = {
+  created: "CREATED_AT",
+  updated: "UPDATED_AT",
+};
+
+/**
+ * GraphQL pull request fetcher.
+ *
+ * @class GraphQLPullRequestFetcher
+ * @description
+ * Fetches single pages of the `pullRequests` connection, newest first.
+ * Walking and stopping is left to PullRequestStore, which resumes from the
+ * returned cursor on later syncs.
+ */
+export class GraphQLPullRequestFetcher {
+  /**
+   * @param {GraphQLQueryFn} query - Authenticated GraphQL transport
+   */
+  constructor(private readonly query: GraphQLQueryFn) {}
+
+  /**
+   * Fetches one page of pull requests.
+   *
+   * @param {string} owner - Repository owner
+   * @param {string} repo - Repository name
+   * @param {string} branch - Base branch filter (empty for all branches)
+   * @param {PullRequestOrder} order - Listing order
+   * @param {string | null} after - Cursor of the previous page
+   * @param {RequestOptions} [options] - Shared request budget, etc.
+   * @returns {Promise<PullRequestPage>} PRs with reviews attached, newest
+   *          first, and the cursor of the next page
+   * @throws {GitHubApiError} When the repository does not exist
+   */
+  public async fetchPage(
+    owner: string,
+    repo: string,
+    branch: string,
+    order: PullRequestOrder,
+    after: string | null,
+    options: RequestOptions = {}
+  ): Promise<PullRequestPage> {
+    const data: PullRequestsResponse = await this.query(
+      PULL_REQUESTS_QUERY,
+      {
+        owner,
+        repo,
+        first: GITHUB_API_CONFIG.GRAPHQL_PAGE_SIZE,
+        after,
+        base: branch || null,
+        states: null,
+        orderBy: ORDER_FIELDS[order],
+      },
+      options
+    );
+
+    if (!data.repository) return { prs: [], next: null };
+    const { nodes, pageInfo } = data.repository.pullRequests;
+
+    return {
+      prs: nodes.map((node) => this.mapNode(node, owner, repo)),
+      next: pageInfo.hasNextPage && nodes.length > 0 ? pageInfo.endCursor : null,
+    };
+  }
+
+  /**
+   * Fetches every open pull request, however long ago it was opened,
+   * newest first, up to `MAX_PRS`.
+   *
+   * @param {string} owner - Repository owner
+   * @param {string} repo - Repository name
+   * @param {string} branch - Base branch filter (empty for all branches)
+   * @param {RequestOptions} [options] - Shared request budget, etc.
+   * @returns {Promise<PullRequest[]>} Open PRs with reviews attached
+   */
+  public async fetchOpen(
+    owner: string,
+    repo: string,
+    branch: string,
+    options: RequestOptions = {}
+  ): Promise<PullRequest[]> {
+    const prs: PullRequest[] = [];
+    let after: string | null = null;
+
+    do {
+      const data: PullRequestsResponse = await this.query(
+        PULL_REQUESTS_QUERY,
+        {
+          owner,
+          repo,
+          first: GITHUB_API_CONFIG.GRAPHQL_PAGE_SIZE,
+          after,
+          base: branch || null,
+          states: ["OPEN"],
+          orderBy: ORDER_FIELDS.created,
+        },
+        options
+      );
+      if (!data.repository) break;
+
+      const { nodes, pageInfo } = data.repository.pullRequests;
+      prs.push(...nodes.map((node) => this.mapNode(node, owner, repo)));
+      after =
+        pageInfo.hasNextPage && nodes.length > 0 ? pageInfo.endCursor : null;
+    } while (after && prs.length < GITHUB_API_CONFIG.MAX_PRS);
+
+    return prs.slice(0, GITHUB_API_CONFIG.MAX_PRS);
+  }
+
+  /**
+   * Fetches the current merge and check status of pull requests, in
+   * batches of one page size.
+   *
+   * @param {string} owner - Repository owner
+   * @param {string} repo - Repository name
+   * @param {number[]} numbers - PR numbers, usually the open ones
+   * @param {RequestOptions} [options] - Shared request budget, etc.
+   * @returns {Promise<Map<number, PullRequestStatus>>} Status by PR number;
+   *          PRs that no longer exist are missing
+   */
+  public async fetchStatus(
+    owner: string,
+    repo: string,
+    numbers: number[],
+    options: RequestOptions = {}
+  ): Promise<Map<number, PullRequestStatus>> {
+    const statuses = new Map<number, PullRequestStatus>();
+
+    for (
+      let i = 0;
+      i < numbers.length;
+      i += GITHUB_API_CONFIG.GRAPHQL_PAGE_SIZE
+    ) {
+      const batch = numbers.slice(i, i + GITHUB_API_CONFIG.GRAPHQL_PAGE_SIZE);
+      const data: {
+        repository: Record<string, PullRequestStatusNode | null> | null;
+      } = await this.query(buildStatusQuery(batch), { owner, repo }, options);
+
+      for (const node of Object.values(data.repository ?? {})) {
+        if (!node) continue;
+        const rollup = node.commits.nodes[0]?.commit.statusCheckRollup;
+        statuses.set(node.number, {
+          mergeable: node.mergeable.toLowerCase() as MergeableState,
+          checkStatus: rollup ? CHECK_STATUSES[rollup.state] : null,
+        });
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Finds the authors who opened a PR to the repository before a date.
+   *
+   * @param {string} owner - Repository owner
+   * @param {string} repo - Repository name
+   * @param {string[]} logins - Authors to check
+   * @param {Date} before - Cut-off; PRs created earlier count
+   * @param {RequestOptions} [options] - Shared request budget, etc.
+   * @returns {Promise<Set<string>>} Lowercase logins with an earlier PR
+   */
+  public async fetchPriorAuthors(
+    owner: string,
+    repo: string,
+    logins: string[],
+    before: Date,
+    options: RequestOptions = {}
+  ): Promise<Set<string>> {
+    const prior = new Set<string>();
+    const created = before.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+    for (
+      let i = 0;
+      i < logins.length;
+      i += GITHUB_API_CONFIG.GRAPHQL_SEARCH_BATCH_SIZE
+    ) {
+      const batch = logins.slice(
+        i,
+        i + GITHUB_API_CONFIG.GRAPHQL_SEARCH_BATCH_SIZE
+      );
+      const variables: Record<string, string> = {};
+      batch.forEach((login, index) => {
+        // Search addresses GitHub Apps as app/<name>, not <name>[bot]
+        const author = login.endsWith("[bot]")
+          ? `app/${login.slice(0, -"[bot]".length)}`
+          : login;
+        variables[`q${index}`] =
+          `repo:${owner}/${repo} is:pr author:${author} created:<${created}`;
+      });
+
+      const data: Record<string, { issueCount: number }> = await this.query(
+        buildPriorAuthorsQuery(batch.length),
+        variables,
+        options
+      );
+      batch.forEach((login, index) => {
+        if (data[`a${index}`]?.issueCount > 0) prior.add(login.toLowerCase());
+      });
+    }
+
+    return prior;
+  }
+
+  /**
+   * Maps a GraphQL pull request node to the internal PullRequest type.
+   * `firstReviewAt` is left for GitHubService to derive from `reviews`.
+   * @private
+   */
+  private mapNode(
+    node: PullRequestNode,
+    owner: string,
+    repo: string
+  ): PullRequest {
+    const reviews: PullRequestReview[] = node.reviews.nodes
+      .filter((review) => review.state !== "PENDING" && review.submittedAt)
+      .map((review) => ({
+        reviewer: {
+          login: review.author ? actorLogin(review.author) : "unknown",
+          avatarUrl: review.author?.avatarUrl || "",
+        },
+        state: review.state,
+        submittedAt: review.submittedAt as string,
+      }));
+
+    return {
+      number: node.number,
+      title: node.title,
+      state: node.state === "OPEN" ? "open" : "closed",
+      merged: node.merged,
+      createdAt: node.createdAt,
+      mergedAt: node.mergedAt,
+      closedAt: node.closedAt,
+      updatedAt: node.updatedAt,
+      htmlUrl: node.url,
+      repositoryUrl: `https://github.com/${owner}/${repo}`,
+      repositoryName: `${owner}/${repo}`,
+      targetBranch: node.baseRefName,
+      user: {
+        login: node.author ? actorLogin(node.author) : "unknown",
+        avatarUrl: node.author?.avatarUrl || "",
+        isBot: Bots.isBotAccount(
+          node.author?.login || "",
+          node.author?.__typename
+        ),
+      },
+      labels: node.labels.nodes.map((label) => label.name),
+      additions: node.additions,
+      deletions: node.deletions,
+      changedFiles: node.changedFiles,
+      reviewComments: node.reviews.nodes.reduce(
+        (sum, review) => sum + review.comments.totalCount,
+        0
+      ),
+      firstReviewAt: null,
+      reviews,
+      authorAssociation: node.authorAssociation,
+      mergedBy: node.mergedBy ? actorLogin(node.mergedBy) : null,
+      mergeable: null,
+      checkStatus: null,
+    };
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Maintainer inference for repository contributors.
+ * Combines several independent GitHub signals into a maintainer flag with a
+ * confidence level and a reason the UI can display.
+ *
+ * @module services/MaintainerDetector
+ * @description
+ * Signals, strongest first:
+ * - Collaborator permission (admin / maintain / push) — needs a token with
+ *   push access to the repository, silently skipped otherwise
+ * - Merge actor — merged a PR, which requires write access
+ * - `author_association` of OWNER or COLLABORATOR on the user's own PRs
+ * - CODEOWNERS entries and MEMBER association (medium confidence)
+ *
+ * Every signal is best-effort: a failing lookup contributes nothing rather
+ * than failing the analysis.
+ */
+
+import { GITHUB_API_CONFIG } from "../constants";
+import { MaintainerEvidence, MaintainerSignal, PullRequest } from "../types";
+import type { RequestOptions } from "./GitHubService";
+
+/**
+ * Performs a GET request against the GitHub REST API.
+ */
+export type RestRequestFn = <T>(
+  endpoint: string,
+  options?: RequestOptions
+) => Promise<T>;
+
+/**
+ * Locations GitHub reads CODEOWNERS from, in lookup order.
+ */
+const CODEOWNERS_PATHS = [
+  ".github/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+/**
+ * Associations that imply write access to the repository.
+ */
+const WRITE_ASSOCIATIONS = new Set(["OWNER", "COLLABORATOR"]);
+
+/**
+ * Signals strong enough on their own for a high-confidence flag.
+ */
+const HIGH_CONFIDENCE_SIGNALS: MaintainerSignal[] = [
+  "permission",
+  "merge-actor",
+];
+
+/**
+ * Repository-level signals, independent of the analyzed PR window.
+ */
+export interface RepositorySignals {
+  /** Collaborators with write access and their highest permission */
+  collaborators: Array<{ login: string; permission: string }>;
+  /** Individual users listed in CODEOWNERS */
+  codeowners: string[];
+}
+
+/**
+ * Collaborator shape returned by the collaborators endpoint.
+ * @private
+ */
+interface CollaboratorResponse {
+  login: string;
+  permissions?: {
+    admin?: boolean;
+    maintain?: boolean;
+    push?: boolean;
+  };
+}
+
+/**
+ * Per-user signal accumulator.
+ * @private
+ */
+interface SignalRecord {
+  signals: Set<MaintainerSignal>;
+  reasons: string[];
+  highAssociation: boolean;
+}
+
+/**
+ * Maintainer Detector - infers maintainers from GitHub signals.
+ *
+ * @class MaintainerDetector
+ */
+export class MaintainerDetector {
+  /**
+   * @param {RestRequestFn} request - REST transport from GitHubService
+   */
+  constructor(private readonly request: RestRequestFn) {}
+
+  /**
+   * Fetches the repository-level signals: write collaborators and
+   * CODEOWNERS entries. These do not depend on the analyzed time window,
+   * so callers can cache them.
+   *
+   * @param {string} owner - Repository owner
+   * @param {string} repo - Repository name
+   * @param {boolean} authenticated - Whether a token is configured
+   * @param {RequestOptions} [options] - Shared request budget, etc.
+   * @returns {Promise<RepositorySignals>} Collaborators and code owners
+   */
+  public async fetchRepositorySignals(
+    owner: string,
+    repo: string,
+    authenticated: boolean,
+    options: RequestOptions = {}
+  ): Promise<RepositorySignals> {
+    const [collaborators, codeowners] = await Promise.all([
+      authenticated
+        ? this.fetchCollaborators(owner, repo, options)
+        : Promise.resolve([]),
+      this.fetchCodeowners(owner, repo, options),
+    ]);
+
+    return { collaborators, codeowners };
+  }
+
+  /**
+   * Combines repository signals with PR-level signals into maintainer
+   * evidence.
+   *
+   * @param {RepositorySignals} repositorySignals - From fetchRepositorySignals
+   * @param {PullRequest[]} prs - Pull requests already fetched for the repo
+   * @returns {Record<string, MaintainerEvidence>} Evidence keyed by
+   *          lowercase login
+   *
+   * @example
+   * ```typescript
+   * const maintainers = detector.infer(signals, prs);
+   * maintainers['gaearon']?.reason; // "Has admin permission · Merged 40 PRs"
+   * ```
+   */
+  public infer(
+    repositorySignals: RepositorySignals,
+    prs: PullRequest[]
+  ): Record<string, MaintainerEvidence> {
+    const records = new Map<string, SignalRecord>();
+    const add = (
+      login: string,
+      signal: MaintainerSignal,
+      reason: string,
+      highAssociation = false
+    ): void => {
+      const key = login.toLowerCase();
+      if (!records.has(key)) {
+        records.set(key, { signals: new Set(), reasons: [], highAssociation });
+      }
+      const record = records.get(key)!;
+      if (!record.signals.has(signal)) {
+        record.signals.add(signal);
+        record.reasons.push(reason);
+      }
+      record.highAssociation = record.highAssociation || highAssociation;
+    };
+
+    for (const { login, permission } of repositorySignals.collaborators) {
+      add(login, "permission", `Has ${permission} permission`);
+    }
+
+    for (const [login, count] of this.countMerges(prs)) {
+      add(login, "merge-actor", `Merged ${count} PR${count !== 1 ? "s" : ""}`);
+    }
+
+    for (const pr of prs) {
+      const association = pr.authorAssociation;
+      if (WRITE_ASSOCIATIONS.has(association)) {
+        add(
+          pr.user.login,
+          "association",
+          `GitHub lists them as ${association}`,
+          true
+        );
+      } else if (association === "MEMBER") {
+        add(pr.user.login, "association", "Member of the owning organization");
+      }
+    }
+
+    for (const login of repositorySignals.codeowners) {
+      add(login, "codeowners", "Listed in CODEOWNERS");
+    }
+
+    const result: Record<string, MaintainerEvidence> = {};
+    for (const [login, record] of records) {
+      const signals = Array.from(record.signals);
+      const isHigh =
+        record.highAssociation ||
+        signals.length > 1 ||
+        signals.some((s) => HIGH_CONFIDENCE_SIGNALS.includes(s));
+
+      result[login] = {
+        confidence: isHigh ? "high" : "medium",
+        reason: record.reasons.join(" · "),
+        signals,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Lists collaborators with write-level permission, page by page up to
+   * `MAX_PAGES`. Later pages are skipped once the request budget is spent,
+   * keeping the collaborators found so far.
+   * Returns an empty list when the token cannot read collaborators.
+   * @private
+   */
+  private async fetchCollaborators(
+    owner: string,
+    repo: string,
+    options: RequestOptions
+  ): Promise<Array<{ login: string; permission: string }>> {
+    const users: CollaboratorResponse[] = [];
+
+    try {
+      for (let page = 1; page <= GITHUB_API_CONFIG.MAX_PAGES; page++) {
+        if (page > 1 && options.budget?.exhausted) break;
+
+        const data = await this.request<CollaboratorResponse[]>(
+          `/repos/${owner}/${repo}/collaborators?per_page=${GITHUB_API_CONFIG.PER_PAGE}&page=${page}`,
+          options
+        );
+        users.push(...data);
+
+        if (data.length < GITHUB_API_CONFIG.PER_PAGE) break;
+      }
+    } catch {
+      options.signal?.throwIfAborted();
+      // Requires push access to the repository; not an error for visitors.
+      // A later page failing keeps the earlier ones.
+    }
+
+    return users
+      .map((user) => ({
+        login: user.login,
+        permission: user.permissions?.admin
+          ? "admin"
+          : user.permissions?.maintain
+          ? "maintain"
+          : user.permissions?.push
+          ? "write"
+          : "",
+      }))
+      .filter((user) => user.permission !== "");
+  }
+
+  /**
+   * Reads individual owners (not teams) from the repository's CODEOWNERS.
+   * @private
+   */
+  private async fetchCodeowners(
+    owner: string,
+    repo: string,
+    options: RequestOptions
+  ): Promise<string[]> {
+    for (const path of CODEOWNERS_PATHS) {
+      try {
+        const file = await this.request<{ content: string; encoding: string }>(
+          `/repos/${owner}/${repo}/contents/${path}`,
+          options
+        );
+        const text =
+          file.encoding === "base64"
+            ? atob(file.content.replace(/\n/g, ""))
+            : file.content;
+        return this.parseCodeowners(text);
+      } catch {
+        options.signal?.throwIfAborted();
+        // Not present at this path, try the next one
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Extracts `@user` owners from CODEOWNERS content.
+   * Team owners (`@org/team`) and email owners are ignored.
+   * @private
+   */
+  private parseCodeowners(content: string): string[] {
+    const owners = new Set<string>();
+
+    for (const rawLine of content.split("\n")) {
+      const line = rawLine.split("#")[0].trim();
+      if (!line) continue;
+
+      for (const token of line.split(/\s+/).slice(1)) {
+        if (token.startsWith("@") && !token.includes("/")) {
+          owners.add(token.slice(1));
+        }
+      }
+    }
+
+    return Array.from(owners);
+  }
+
+  /**
+   * Counts merges per merge actor. Self-merges count too: merging any PR
+   * requires write access.
+   * @private
+   */
+  private countMerges(prs: PullRequest[]): Map<string, number> {
+    const counts = new Map<string, number>();
+
+    for (const pr of prs) {
+      if (!pr.mergedBy) continue;
+      counts.set(pr.mergedBy, (counts.get(pr.mergedBy) || 0) + 1);
+    }
+
+    return counts;
+  }
+}
@@ -0,0 +1,544 @@
+/**
+ * @fileoverview Organization-wide analysis across several repositories.
+ * Lists an organization's repositories, analyzes the most recently active
+ * ones and merges their statistics into one dashboard. Also computes the
+ * compact health summary shown on GSoC directory cards.
+ *
+ * @module services/OrganizationService
+ * @description
+ * All repository analyses draw from one {@link RequestBudget} sized from the
+ * caller's remaining rate limit, so a large organization cannot drain the
+ * quota. Repositories that do not fit in the budget are reported as skipped
+ * instead of failing the analysis.
+ *
+ * @example
+ * ```typescript
+ * import { OrganizationService } from './services';
+ *
+ * const stats = await OrganizationService.fetchOrganizationStats('52North', '3m');
+ * console.log(`${stats.repositories.length} repos, ${stats.totalPRs} PRs`);
+ * ```
+ */
+
+import { ORG_ANALYSIS_CONFIG } from "../constants";
+import {
+  ActivityDataPoint,
+  OrganizationContributorStats,
+  OrganizationHealth,
+  OrganizationRepository,
+  OrganizationStats,
+  PullRequest,
+  RepositoryStats,
+  ReviewStats,
+  ReviewerStats,
+  TimeFilter,
+} from "../types";
+import {
+  Bots,
+  CycleTime,
+  DateUtils,
+  GitHubUrlParseError,
+  GitHubUrlParser,
+} from "../utils";
+import { CACHE_TTL, CacheService } from "./CacheService";
+import {
+  GitHubService,
+  RateLimitError,
+  RequestOptions,
+} from "./GitHubService";
+import { BudgetExhaustedError, RequestBudget } from "./RequestBudget";
+import { SettingsService } from "./SettingsService";
+
+/**
+ * Organization Service Class - multi-repository analysis.
+ *
+ * @class OrganizationServiceClass
+ */
+class OrganizationServiceClass {
+  // ============================================================================
+  // Public API
+  // ============================================================================
+
+  /**
+   * Analyzes an organization's most active repositories and merges the
+   * results.
+   *
+   * @param {string} org - Organization login
+   * @param {TimeFilter} timeFilter - Time period to analyze
+   * @param {RequestOptions} [options] - Abort signal and progress; the
+   *        request budget is sized here
+   * @returns {Promise<OrganizationStats>} Merged statistics with a
+   *          per-repository breakdown
+   * @throws {GitHubApiError} If the organization does not exist
+   * @throws {RateLimitError} If the rate limit is hit before any repository
+   *         could be analyzed
+   */
+  public async fetchOrganizationStats(
+    org: string,
+    timeFilter: TimeFilter,
+    options: Omit<RequestOptions, "budget"> = {}
+  ): Promise<OrganizationStats> {
+    // Merged timelines are counted in the time zone of the analysis. Bots
+    // are kept; excludeBots leaves them out without refetching.
+    const cacheKey = CacheService.generateKey(
+      "org_stats",
+      org.toLowerCase(),
+      timeFilter,
+      SettingsService.getTimeZone()
+    );
+
+    const cached = await CacheService.get<OrganizationStats>(cacheKey);
+    if (cached) {
+      console.log(`[Cache HIT] Organization stats for ${org}`);
+      return cached;
+    }
+
+    const { listed, analyzed, skippedRepositories, budget } =
+      await this.analyzeRepositories(org, timeFilter, options);
+    const result = this.mergeRepositories(
+      {
+        org,
+        timeFilter,
+        skippedRepositories,
+        analyzedRepositories: analyzed,
+        requestsUsed: budget.used,
+      },
+      analyzed,
+      new Map(listed.map((repo) => [repo.fullName, repo.stars]))
+    );
+
+    await CacheService.set(cacheKey, result, CACHE_TTL.REPO_STATS);
+    return result;
+  }
+
+  /**
+   * Merges the analyzed repositories again without bot accounts, e.g. when
+   * the settings exclude them. Works on the kept per-repository analyses,
+   * so nothing is refetched.
+   *
+   * @param {OrganizationStats} stats - Organization stats, bots included
+   * @param {string[]} botLogins - Extra logins to treat as bots
+   * @returns {OrganizationStats} Stats without bot PRs, reviews or
+   *          contributors
+   */
+  public excludeBots(
+    stats: OrganizationStats,
+    botLogins: string[]
+  ): OrganizationStats {
+    return this.mergeRepositories(
+      stats,
+      stats.analyzedRepositories.map((repo) =>
+        GitHubService.excludeBots(repo, botLogins)
+      ),
+      new Map(stats.repositories.map((repo) => [repo.fullName, repo.stars]))
+    );
+  }
+
+  /**
+   * Computes the compact health summary shown on GSoC directory cards:
+   * merged PRs, active contributors and median merge time over the last
+   * three months. Everything comes from the search API: merged PRs are
+   * counted across the whole account (or the single repository) by merge
+   * date, and active contributors are the authors of PRs opened in the
+   * window. Bots are left out when the settings exclude them.
+   *
+   * @param {string} sourceCodeUrl - The org's `source_code` link; either a
+   *        GitHub account (all its repositories) or a single repository
+   * @returns {Promise<OrganizationHealth>} Activity summary
+   * @throws {GitHubUrlParseError} If the link does not point to GitHub
+   *
+   * @example
+   * ```typescript
+   * const health = await OrganizationService.fetchOrganizationHealth(
+   *   'https://github.com/52North'
+   * );
+   * console.log(`${health.mergedPRs} PRs merged`);
+   * ```
+   */
+  public async fetchOrganizationHealth(
+    sourceCodeUrl: string
+  ): Promise<OrganizationHealth> {
+    const urlInfo = GitHubUrlParser.detectUrlType(sourceCodeUrl);
+    const since = DateUtils.getStartDate(
+      ORG_ANALYSIS_CONFIG.HEALTH_TIME_FILTER
+    );
+
+    let source: string;
+    let scope: string;
+
+    if (urlInfo.type === "repo" && urlInfo.owner && urlInfo.repo) {
+      source = `${urlInfo.owner}/${urlInfo.repo}`;
+      scope = `repo:${source}`;
+    } else if (urlInfo.type === "org" || urlInfo.type === "user") {
+      source = (urlInfo.org || urlInfo.username) as string;
+      scope = `user:${source}`;
+    } else {
+      throw new GitHubUrlParseError(
+        "Source code link is not a GitHub account or repository",
+        sourceCodeUrl
+      );
+    }
+
+    // Two searches of at most five pages each, instead of a full analysis
+    // with reviews. Merges are selected by merge date, so older PRs merged
+    // recently count too.
+    const merged = await GitHubService.searchMergedPullRequests(scope, since);
+    const created = await GitHubService.searchCreatedPullRequests(scope, since);
+    const { excludeBots, botLogins } = SettingsService.getBotSettings();
+    const isCounted = (pr: PullRequest) =>
+      !excludeBots || !Bots.isBotPullRequest(pr, botLogins);
+
+    const mergeTimes = merged.prs
+      .filter((pr) => pr.mergedAt && isCounted(pr))
+      .map((pr) =>
+        DateUtils.diffInHours(new Date(pr.createdAt), new Date(pr.mergedAt!))
+      );
+    // Bot merges past the first 500 results can't be told apart
+    const botMerges = merged.prs.filter((pr) => !isCounted(pr)).length;
+
+    // Authors past the first 500 created PRs are not seen
+    const prs = created.prs.filter(isCounted);
+    const repositories = new Set(
+      [...merged.prs, ...created.prs].map((pr) => pr.repositoryName)
+    );
+
+    return {
+      source,
+      repositories: repositories.size,
+      mergedPRs: merged.total - botMerges,
+      activeContributors: new Set(prs.map((pr) => pr.user.login.toLowerCase()))
+        .size,
+      medianTimeToMerge: this.median(mergeTimes),
+    };
+  }
+
+  // ============================================================================
+  // Private Helpers - Planning
+  // ============================================================================
+
+  /**
+   * Lists an organization's repositories and analyzes the selected ones
+   * against a shared budget.
+   * @private
+   */
+  private async analyzeRepositories(
+    org: string,
+    timeFilter: TimeFilter,
+    options: Omit<RequestOptions, "budget"> = {}
+  ): Promise<{
+    listed: OrganizationRepository[];
+    analyzed: RepositoryStats[];
+    skippedRepositories: string[];
+    budget: RequestBudget;
+  }> {
+    const budget = await this.createBudget();
+    const listed = await GitHubService.fetchOrganizationRepositories(org, {
+      ...options,
+      budget,
+    });
+    const candidates = this.selectRepositories(listed, timeFilter);
+
+    const analyzed: RepositoryStats[] = [];
+    const skippedRepositories: string[] = [];
+
+    // Sequential on purpose: the shared budget decides how far we get
+    for (const repo of candidates) {
+      if (budget.exhausted) {
+        skippedRepositories.push(repo.fullName);
+        continue;
+      }
+
+      try {
+        const stats = await GitHubService.fetchRepositoryStats(
+          repo.fullName,
+          "",
+          timeFilter,
+          { ...options, budget }
+        );
+        analyzed.push(stats);
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        if (error instanceof RateLimitError && analyzed.length === 0) {
+          throw error;
+        }
+        if (!(error instanceof BudgetExhaustedError)) {
+          console.warn(`Skipping ${repo.fullName}:`, error);
+        }
+        skippedRepositories.push(repo.fullName);
+      }
+    }
+
+    return { listed, analyzed, skippedRepositories, budget };
+  }
+
+  /**
+   * Sizes the shared budget from the remaining rate limit, keeping a reserve
+   * for the rest of the app.
+   * @private
+   */
+  private async createBudget(): Promise<RequestBudget> {
+    const { remaining } = await GitHubService.getRateLimitStatus();
+    const available = remaining - ORG_ANALYSIS_CONFIG.RESERVED_REQUESTS;
+
+    return new RequestBudget(
+      Math.max(0, Math.min(ORG_ANALYSIS_CONFIG.MAX_REQUESTS, available))
+    );
+  }
+
+  /**
+   * Builds organization stats from per-repository analyses.
+   * @private
+   */
+  private mergeRepositories(
+    base: Pick<
+      OrganizationStats,
+      | "org"
+      | "timeFilter"
+      | "skippedRepositories"
+      | "analyzedRepositories"
+      | "requestsUsed"
+    >,
+    analyzed: RepositoryStats[],
+    stars: Map<string, number>
+  ): OrganizationStats {
+    return {
+      org: base.org,
+      timeFilter: base.timeFilter,
+      totalPRs: analyzed.reduce((sum, stats) => sum + stats.totalPRs, 0),
+      repositories: analyzed
+        .map((stats) => ({
+          fullName: `${stats.owner}/${stats.repo}`,
+          totalPRs: stats.totalPRs,
+          mergedPRs: stats.contributors.reduce((s, c) => s + c.mergedPRs, 0),
+          openPRs: stats.contributors.reduce((s, c) => s + c.openPRs, 0),
+          contributors: stats.contributors.length,
+          stars: stars.get(`${stats.owner}/${stats.repo}`) ?? 0,
+        }))
+        .sort((a, b) => b.totalPRs - a.totalPRs),
+      skippedRepositories: base.skippedRepositories,
+      contributors: this.mergeContributors(analyzed),
+      labelDistribution: this.mergeLabelDistributions(analyzed),
+      activityTimeline: this.mergeTimelines(analyzed),
+      reviewStats: this.mergeReviewStats(analyzed),
+      analyzedRepositories: base.analyzedRepositories,
+      requestsUsed: base.requestsUsed,
+    };
+  }
+
+  /**
+   * Picks source repositories pushed within the window, most recent first.
+   * Falls back to the most recently pushed ones when none are in the window.
+   * @private
+   */
+  private selectRepositories(
+    repositories: OrganizationRepository[],
+    timeFilter: TimeFilter
+  ): OrganizationRepository[] {
+    const startDate = DateUtils.getStartDate(timeFilter);
+    const sources = repositories.filter((repo) => !repo.archived && !repo.fork);
+    const active = sources.filter(
+      (repo) => repo.pushedAt && new Date(repo.pushedAt) >= startDate
+    );
+
+    return (active.length > 0 ? active : sources).slice(
+      0,
+      ORG_ANALYSIS_CONFIG.MAX_REPOS
+    );
+  }
+
+  // ============================================================================
+  // Private Helpers - Merging
+  // ============================================================================
+
+  /**
+   * Median of a list of numbers, 0 for an empty list.
+   * @private
+   */
+  private median(values: number[]): number {
+    if (values.length === 0) return 0;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 === 0
+      ? Math.round((sorted[mid - 1] + sorted[mid]) / 2)
+      : sorted[mid];
+  }
+
+  /**
+   * Merges contributors across repositories by login. Cycle time
+   * percentiles and averages can't be summed, so they are recomputed from
+   * the contributor's PRs in every analyzed repository.
+   * @private
+   */
+  private mergeContributors(
+    analyzed: RepositoryStats[]
+  ): OrganizationContributorStats[] {
+    const merged = new Map<string, OrganizationContributorStats>();
+
+    for (const stats of analyzed) {
+      const fullName = `${stats.owner}/${stats.repo}`;
+
+      for (const contributor of stats.contributors) {
+        const key = contributor.username.toLowerCase();
+        const existing = merged.get(key);
+
+        if (!existing) {
+          merged.set(key, { ...contributor, repositories: [fullName] });
+          continue;
+        }
+
+        existing.totalPRs += contributor.totalPRs;
+        existing.mergedPRs += contributor.mergedPRs;
+        existing.openPRs += contributor.openPRs;
+        existing.closedPRs += contributor.closedPRs;
+        existing.totalAdditions += contributor.totalAdditions;
+        existing.totalDeletions += contributor.totalDeletions;
+        existing.repositories.push(fullName);
+
+        // A first-timer to the org had no earlier PR in any repository
+        if (contributor.firstPRAt < existing.firstPRAt) {
+          existing.firstPRAt = contributor.firstPRAt;
+        }
+        existing.isFirstTimer =
+          existing.isFirstTimer === null || contributor.isFirstTimer === null
+            ? null
+            : existing.isFirstTimer && contributor.isFirstTimer;
+
+        // Keep the strongest maintainer evidence from any repository
+        if (
+          contributor.maintainerEvidence &&
+          existing.maintainerEvidence?.confidence !== "high"
+        ) {
+          existing.isMaintainer = true;
+          existing.maintainerEvidence = {
+            ...contributor.maintainerEvidence,
+            reason: `${contributor.maintainerEvidence.reason} (${fullName})`,
+          };
+        }
+      }
+    }
+
+    const prsByUser = new Map<string, PullRequest[]>();
+    for (const pr of analyzed.flatMap((stats) => stats.recentPRs)) {
+      const key = pr.user.login.toLowerCase();
+      const prs = prsByUser.get(key);
+      if (prs) prs.push(pr);
+      else prsByUser.set(key, [pr]);
+    }
+    for (const [key, contributor] of merged) {
+      const prs = prsByUser.get(key) ?? [];
+      Object.assign(contributor, CycleTime.getAverages(prs), {
+        cycleTime: CycleTime.getBreakdown(prs),
+      });
+    }
+
+    return Array.from(merged.values()).sort((a, b) => b.totalPRs - a.totalPRs);
+  }
+
+  /**
+   * Sums label counts across repositories.
+   * @private
+   */
+  private mergeLabelDistributions(
+    analyzed: RepositoryStats[]
+  ): Record<string, number> {
+    const distribution: Record<string, number> = {};
+
+    for (const stats of analyzed) {
+      for (const [label, count] of Object.entries(stats.labelDistribution)) {
+        distribution[label] = (distribution[label] || 0) + count;
+      }
+    }
+
+    return distribution;
+  }
+
+  /**
+   * Sums activity per date. Every repository shares the same time filter, so
+   * the date axes line up.
+   * @private
+   */
+  private mergeTimelines(analyzed: RepositoryStats[]): ActivityDataPoint[] {
+    const timeline = new Map<string, ActivityDataPoint>();
+
+    for (const stats of analyzed) {
+      for (const point of stats.activityTimeline) {
+        const existing = timeline.get(point.date);
+        if (existing) {
+          existing.opened += point.opened;
+          existing.merged += point.merged;
+          existing.closed += point.closed;
+        } else {
+          timeline.set(point.date, { ...point });
+        }
+      }
+    }
+
+    return Array.from(timeline.values()).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+  }
+
+  /**
+   * Merges review statistics. Averages are weighted by the number of PRs
+   * each repository's average was computed from.
+   * @private
+   */
+  private mergeReviewStats(analyzed: RepositoryStats[]): ReviewStats {
+    const reviewers = new Map<string, ReviewerStats>();
+    let totalReviews = 0;
+    let reviewedPRs = 0;
+    let firstReviewedPRs = 0;
+    let firstReviewWeighted = 0;
+    let mergeWeighted = 0;
+    let mergedPRs = 0;
+
+    for (const stats of analyzed) {
+      const { reviewStats } = stats;
+      const merged = stats.contributors.reduce((s, c) => s + c.mergedPRs, 0);
+
+      totalReviews += reviewStats.totalReviews;
+      reviewedPRs += reviewStats.reviewedPRs;
+      firstReviewedPRs += reviewStats.firstReviewedPRs;
+      firstReviewWeighted +=
+        reviewStats.avgTimeToFirstReview * reviewStats.firstReviewedPRs;
+      mergeWeighted += reviewStats.avgTimeToMerge * merged;
+      mergedPRs += merged;
+
+      for (const reviewer of reviewStats.reviewers) {
+        const existing = reviewers.get(reviewer.username);
+        if (existing) {
+          existing.reviewCount += reviewer.reviewCount;
+          existing.approvedCount += reviewer.approvedCount;
+          existing.changesRequestedCount += reviewer.changesRequestedCount;
+        } else {
+          reviewers.set(reviewer.username, { ...reviewer });
+        }
+      }
+    }
+
+    const ranked = Array.from(reviewers.values()).sort(
+      (a, b) => b.reviewCount - a.reviewCount
+    );
+
+    return {
+      totalReviews,
+      reviewedPRs,
+      firstReviewedPRs,
+      avgTimeToFirstReview:
+        firstReviewedPRs > 0
+          ? Math.round(firstReviewWeighted / firstReviewedPRs)
+          : 0,
+      avgTimeToMerge: mergedPRs > 0 ? Math.round(mergeWeighted / mergedPRs) : 0,
+      reviewers: ranked,
+      topReviewers: ranked.slice(0, 10),
+    };
+  }
+}
+
+/**
+ * Singleton instance of the organization service.
+ * @type {OrganizationServiceClass}
+ */
+export const OrganizationService = new OrganizationServiceClass();
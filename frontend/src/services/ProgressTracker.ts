@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Progress reporting for multi-request analyses.
+ * Shared across every fetch of one analysis, like RequestBudget, so the UI
+ * sees a single running count however the work is split.
+ *
+ * @module services/ProgressTracker
+ */
+
+import { AnalysisProgress } from "../types";
+
+/**
+ * Progress tracker - accumulates progress and reports every change.
+ *
+ * @class ProgressTracker
+ *
+ * @example
+ * ```typescript
+ * const progress = new ProgressTracker((p) => console.log(p.pagesFetched));
+ * await GitHubService.fetchRepositoryStats('facebook/react', '', 'all', { progress });
+ * ```
+ */
+export class ProgressTracker {
+  private progress: AnalysisProgress = {
+    pagesFetched: 0,
+    prsFetched: 0,
+    rateLimitRemaining: null,
+  };
+
+  /**
+   * @param {(progress: AnalysisProgress) => void} onProgress - Called with
+   *        a fresh snapshot after every update
+   */
+  constructor(
+    private readonly onProgress: (progress: AnalysisProgress) => void
+  ) {}
+
+  /** Current progress snapshot */
+  public get current(): AnalysisProgress {
+    return this.progress;
+  }
+
+  /**
+   * Records a completed request.
+   * @param {number | null} rateLimitRemaining - Quota left after it, if known
+   */
+  public pageFetched(rateLimitRemaining: number | null): void {
+    this.report({
+      pagesFetched: this.progress.pagesFetched + 1,
+      rateLimitRemaining: rateLimitRemaining ?? this.progress.rateLimitRemaining,
+    });
+  }
+
+  /**
+   * Records pull requests received.
+   * @param {number} count - Number of PRs in the latest page
+   */
+  public prsFetched(count: number): void {
+    if (count === 0) return;
+    this.report({ prsFetched: this.progress.prsFetched + count });
+  }
+
+  /**
+   * Merges an update into the snapshot and reports it.
+   * @private
+   */
+  private report(update: Partial<AnalysisProgress>): void {
+    this.progress = { ...this.progress, ...update };
+    this.onProgress(this.progress);
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * @fileoverview Local per-repository pull request store with incremental sync.
+ * Keeps every PR fetched for a repository and branch, so re-analyzing or
+ * switching time filters only asks GitHub for what changed.
+ *
+ * @module services/PullRequestStore
+ * @description
+ * A snapshot holds the PRs created since `coveredSince`, newest first, plus
+ * the point to resume walking the creation-ordered list from. Each sync:
+ *
+ * 1. Walks PRs by `updated` (newest first) until it reaches the previous
+ *    sync time, replacing changed PRs and adding new ones.
+ * 2. Backfills older PRs in creation order, from the stored resume point,
+ *    until the requested window is covered or the PR budget is reached.
+ *
+ * Every `TimeFilter` view (presets and custom ranges alike) is then derived
+ * from the stored set; widening 3m to 6m only fetches the three missing
+ * months. Pages come from an
+ * injected pager so REST and GraphQL share the same sync logic.
+ */
+
+import { GITHUB_API_CONFIG } from "../constants";
+import { PullRequest } from "../types";
+import { CacheService } from "./CacheService";
+
+/**
+ * Sort order of a pull request listing (always newest first).
+ */
+export type PullRequestOrder = "created" | "updated";
+
+/**
+ * One page of a pull request listing.
+ */
+export interface PullRequestPage {
+  prs: PullRequest[];
+  /** Opaque resume token for the next page; null on the last page */
+  next: string | null;
+}
+
+/**
+ * Fetches the page after `after` (null for the first page).
+ */
+export type PullRequestPager = (
+  order: PullRequestOrder,
+  after: string | null
+) => Promise<PullRequestPage>;
+
+/**
+ * Stored pull requests of one repository and branch.
+ */
+export interface PullRequestSnapshot {
+  /** PRs created since `coveredSince`, newest first */
+  prs: PullRequest[];
+  /** Creation time of the oldest PR walked in creation order */
+  coveredSince: string | null;
+  /** Resume token for the creation-ordered backfill */
+  cursor: string | null;
+  /** True once the backfill reached the repository's first PR */
+  exhausted: boolean;
+  /** When updates were last fetched (ISO) */
+  syncedAt: string;
+}
+
+/**
+ * Creation date bounds of a view.
+ * @private
+ */
+interface ViewRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Pull Request Store - persists PR snapshots and syncs them incrementally.
+ *
+ * @class PullRequestStore
+ *
+ * @example
+ * ```typescript
+ * const store = new PullRequestStore();
+ * const prs = await store.sync(key, pager, DateUtils.getStartDate("6m"));
+ * ```
+ */
+export class PullRequestStore {
+  /** Snapshots are kept until evicted; the sync keeps them fresh */
+  private static readonly TTL = 30 * 24 * 60 * 60 * 1000;
+
+  /**
+   * Overlap subtracted from the sync time, so PRs updated while a sync was
+   * running (or hidden by clock skew) are picked up by the next one.
+   */
+  private static readonly SYNC_OVERLAP_MS = 5 * 60 * 1000;
+
+  /**
+   * Cache key of a repository's snapshot. `source` separates snapshots
+   * whose PRs carry different detail (GraphQL vs REST).
+   *
+   * @param {string} owner - Repository owner
+   * @param {string} repo - Repository name
+   * @param {string} branch - Base branch filter (empty for all branches)
+   * @param {string} source - Data source the snapshot was built from
+   * @returns {string} Cache key
+   */
+  public key(
+    owner: string,
+    repo: string,
+    branch: string,
+    source: string
+  ): string {
+    return CacheService.generateKey(
+      "pr_store",
+      source,
+      owner.toLowerCase(),
+      repo.toLowerCase(),
+      branch || "all"
+    );
+  }
+
+  /**
+   * Brings the snapshot up to date and returns the PRs created between
+   * `startDate` and `endDate`, newest first.
+   *
+   * @param {string} key - Snapshot key from {@link PullRequestStore.key}
+   * @param {PullRequestPager} pager - Fetches listing pages
+   * @param {Date} startDate - Oldest creation date of the requested view
+   * @param {Date} [endDate] - Newest creation date of the requested view
+   * @param {number} [maxPRs] - PR budget of the view
+   * @returns {Promise<PullRequest[]>} The view, at most `maxPRs` long
+   */
+  public async sync(
+    key: string,
+    pager: PullRequestPager,
+    startDate: Date,
+    endDate: Date = new Date(),
+    maxPRs: number = GITHUB_API_CONFIG.MAX_PRS
+  ): Promise<PullRequest[]> {
+    const range = { startDate, endDate };
+    const startedAt = Date.now();
+    let snapshot = await CacheService.get<PullRequestSnapshot>(key);
+
+    if (snapshot && !(await this.fetchUpdates(snapshot, pager))) {
+      // Too far behind to catch up incrementally: start over
+      snapshot = null;
+    }
+
+    snapshot ??= {
+      prs: [],
+      coveredSince: null,
+      cursor: null,
+      exhausted: false,
+      syncedAt: "",
+    };
+
+    await this.backfill(snapshot, pager, range, maxPRs);
+
+    snapshot.syncedAt = new Date(
+      startedAt - PullRequestStore.SYNC_OVERLAP_MS
+    ).toISOString();
+    await CacheService.set(key, snapshot, PullRequestStore.TTL);
+
+    return this.view(snapshot, range, maxPRs);
+  }
+
+  /**
+   * Replaces stored PRs with enriched copies (e.g. with reviews attached),
+   * matched by number. PRs not in the snapshot are ignored.
+   *
+   * @param {string} key - Snapshot key
+   * @param {PullRequest[]} prs - Updated PRs
+   */
+  public async update(key: string, prs: PullRequest[]): Promise<void> {
+    const snapshot = await CacheService.get<PullRequestSnapshot>(key);
+    if (!snapshot) return;
+
+    const updated = new Map(prs.map((pr) => [pr.number, pr]));
+    snapshot.prs = snapshot.prs.map((pr) => updated.get(pr.number) ?? pr);
+    await CacheService.set(key, snapshot, PullRequestStore.TTL);
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Merges PRs updated since the last sync into the snapshot.
+   * @returns False when the page limit ran out before reaching the last sync
+   * @private
+   */
+  private async fetchUpdates(
+    snapshot: PullRequestSnapshot,
+    pager: PullRequestPager
+  ): Promise<boolean> {
+    const since = new Date(snapshot.syncedAt);
+    const changed: PullRequest[] = [];
+    let after: string | null = null;
+
+    for (let page = 0; page < GITHUB_API_CONFIG.MAX_PAGES; page++) {
+      const { prs, next } = await pager("updated", after);
+
+      for (const pr of prs) {
+        if (new Date(pr.updatedAt) < since) {
+          this.merge(snapshot, changed);
+          return true;
+        }
+        changed.push(pr);
+      }
+
+      if (next === null) {
+        this.merge(snapshot, changed);
+        return true;
+      }
+      after = next;
+    }
+
+    return false;
+  }
+
+  /**
+   * Walks older PRs in creation order until the view is covered.
+   * @private
+   */
+  private async backfill(
+    snapshot: PullRequestSnapshot,
+    pager: PullRequestPager,
+    range: ViewRange,
+    maxPRs: number
+  ): Promise<void> {
+    for (
+      let page = 0;
+      page < GITHUB_API_CONFIG.MAX_PAGES &&
+      !snapshot.exhausted &&
+      (snapshot.coveredSince === null ||
+        new Date(snapshot.coveredSince) > range.startDate) &&
+      this.view(snapshot, range, maxPRs).length < maxPRs;
+      page++
+    ) {
+      const { prs, next } = await pager("created", snapshot.cursor);
+
+      // Pages can overlap when new PRs shift REST page boundaries; the
+      // merge keeps one copy per number
+      this.merge(snapshot, prs, true);
+      if (prs.length > 0) {
+        snapshot.coveredSince = prs[prs.length - 1].createdAt;
+      }
+      snapshot.cursor = next;
+      snapshot.exhausted = next === null;
+    }
+  }
+
+  /**
+   * Upserts PRs by number, keeping the newest-first order. Unless
+   * `backfilling`, PRs created before the covered range are dropped so the
+   * snapshot never has gaps.
+   * @private
+   */
+  private merge(
+    snapshot: PullRequestSnapshot,
+    prs: PullRequest[],
+    backfilling: boolean = false
+  ): void {
+    const byNumber = new Map(snapshot.prs.map((pr) => [pr.number, pr]));
+    const coveredSince = snapshot.coveredSince
+      ? new Date(snapshot.coveredSince)
+      : null;
+
+    for (const pr of prs) {
+      const existing = byNumber.get(pr.number);
+      if (
+        !backfilling &&
+        !existing &&
+        coveredSince &&
+        new Date(pr.createdAt) < coveredSince
+      ) {
+        continue;
+      }
+      // Unchanged copies (page overlap) keep the stored one, which may
+      // already have reviews attached
+      if (
+        existing &&
+        new Date(existing.updatedAt) >= new Date(pr.updatedAt)
+      ) {
+        continue;
+      }
+      byNumber.set(pr.number, pr);
+    }
+
+    snapshot.prs = Array.from(byNumber.values()).sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  /**
+   * PRs of the snapshot created within the range, newest first.
+   * @private
+   */
+  private view(
+    snapshot: PullRequestSnapshot,
+    { startDate, endDate }: ViewRange,
+    maxPRs: number
+  ): PullRequest[] {
+    return snapshot.prs
+      .filter((pr) => {
+        const createdAt = new Date(pr.createdAt);
+        return createdAt >= startDate && createdAt <= endDate;
+      })
+      .slice(0, maxPRs);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Shared request budget for multi-request analyses.
+ * Lets several fetches draw from one allowance so a long analysis cannot
+ * spend the whole GitHub rate limit.
+ *
+ * @module services/RequestBudget
+ */
+
+/**
+ * Thrown when a request is attempted after the budget is spent.
+ * @extends Error
+ */
+export class BudgetExhaustedError extends Error {
+  /**
+   * @param {number} limit - The budget that was exhausted
+   */
+  constructor(public readonly limit: number) {
+    super(`Request budget of ${limit} exhausted`);
+    this.name = "BudgetExhaustedError";
+  }
+}
+
+/**
+ * Request budget - counts HTTP requests against a fixed allowance.
+ *
+ * @class RequestBudget
+ *
+ * @example
+ * ```typescript
+ * const budget = new RequestBudget(200);
+ * await GitHubService.fetchRepositoryStats('facebook/react', '', '1m', { budget });
+ * console.log(`${budget.used} requests used, ${budget.remaining} left`);
+ * ```
+ */
+export class RequestBudget {
+  /** Requests consumed so far */
+  private consumed = 0;
+
+  /**
+   * @param {number} limit - Maximum number of requests allowed
+   */
+  constructor(public readonly limit: number) {}
+
+  /** Number of requests consumed */
+  public get used(): number {
+    return this.consumed;
+  }
+
+  /** Number of requests still available */
+  public get remaining(): number {
+    return Math.max(0, this.limit - this.consumed);
+  }
+
+  /** Whether no requests are left */
+  public get exhausted(): boolean {
+    return this.consumed >= this.limit;
+  }
+
+  /**
+   * Consumes one request from the budget.
+   * @throws {BudgetExhaustedError} If the budget is already spent
+   */
+  public consume(): void {
+    if (this.exhausted) {
+      throw new BudgetExhaustedError(this.limit);
+    }
+    this.consumed++;
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * @fileoverview Rate-limit-aware scheduler for GitHub API requests.
+ * Every request goes through one queue that limits concurrency, tracks the
+ * remaining quota of each rate limit resource from response headers, and
+ * waits out exhausted quotas and secondary rate limits instead of failing.
+ *
+ * @module services/RequestScheduler
+ * @description
+ * GitHub keeps separate quotas per resource: `core` (REST), `search`
+ * (30/minute with a token, 10 without) and `graphql`. A resource whose quota
+ * is spent is paused until its `x-ratelimit-reset`; other resources keep
+ * flowing. Secondary rate limits (403/429 with `retry-after`, or the
+ * "secondary rate limit" message) pause every resource, as GitHub asks.
+ *
+ * Waits longer than `RATE_LIMIT_CONFIG.MAX_WAIT_MS` are not taken: the
+ * response is handed back so the caller fails with a rate limit error
+ * rather than stalling for up to an hour.
+ */
+
+import { RATE_LIMIT_CONFIG } from "../constants";
+
+/**
+ * Rate limit resource a request counts against.
+ */
+export type RateLimitResource = "core" | "search" | "graphql";
+
+/**
+ * Last known quota of one resource.
+ */
+export interface RateLimitQuota {
+  /** Requests allowed per window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** When the window resets */
+  resetTime: Date;
+}
+
+/**
+ * Quota tracking for one resource.
+ * @private
+ */
+interface Bucket {
+  limit: number | null;
+  remaining: number | null;
+  /** Reset time in epoch milliseconds (0 when unknown) */
+  resetAt: number;
+  /** Requests dispatched but not yet answered */
+  inFlight: number;
+}
+
+/**
+ * A request waiting for a free slot and quota.
+ * @private
+ */
+interface QueuedRequest {
+  resource: RateLimitResource;
+  start: () => void;
+}
+
+/**
+ * Request Scheduler - queues requests against GitHub's rate limits.
+ *
+ * @class RequestScheduler
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new RequestScheduler();
+ * const response = await scheduler.schedule("search", () =>
+ *   fetch("https://api.github.com/search/issues?q=is:pr")
+ * );
+ * ```
+ */
+export class RequestScheduler {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly queue: QueuedRequest[] = [];
+  private active = 0;
+  /** Secondary rate limit pause for all resources (epoch ms) */
+  private pausedUntil = 0;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Set while `pump` runs; a nested call only asks for another pass */
+  private pumping = false;
+  private pumpAgain = false;
+
+  /**
+   * @param {number} [maxConcurrent] - Requests allowed in flight at once
+   * @param {number} [maxWaitMs] - Longest pause taken before giving up
+   */
+  constructor(
+    private readonly maxConcurrent: number = RATE_LIMIT_CONFIG.MAX_CONCURRENT_REQUESTS,
+    private readonly maxWaitMs: number = RATE_LIMIT_CONFIG.MAX_WAIT_MS
+  ) {}
+
+  /**
+   * Sends a request once a slot and quota are available, retrying after
+   * rate limit responses that can be waited out.
+   *
+   * @param {RateLimitResource} resource - Quota the request counts against
+   * @param {() => Promise<Response>} send - Issues the HTTP request
+   * @param {AbortSignal} [signal] - Drops the request while it is queued
+   * @returns {Promise<Response>} The final response (possibly still a
+   *          rate limit error, when waiting would take too long)
+   * @throws {DOMException} The signal's reason when aborted while queued
+   */
+  public async schedule(
+    resource: RateLimitResource,
+    send: () => Promise<Response>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.dispatch(resource, send, signal);
+      this.record(resource, response);
+
+      const delay = await this.getRetryDelay(resource, response, attempt);
+      if (delay === null) {
+        return response;
+      }
+
+      if (delay > this.maxWaitMs || attempt >= RATE_LIMIT_CONFIG.MAX_RETRIES) {
+        return response;
+      }
+
+      // Primary limits are waited out by the bucket itself; secondary
+      // limits pause everything
+      if (!this.isQuotaExhausted(response)) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+      }
+    }
+  }
+
+  /**
+   * Last known quota of a resource, or null before any response reported it.
+   *
+   * @param {RateLimitResource} resource - Rate limit resource
+   * @returns {RateLimitQuota | null} Quota from the latest response headers
+   */
+  public getQuota(resource: RateLimitResource): RateLimitQuota | null {
+    const bucket = this.buckets.get(resource);
+    if (!bucket || bucket.limit === null || bucket.remaining === null) {
+      return null;
+    }
+    return {
+      limit: bucket.limit,
+      remaining: bucket.remaining,
+      resetTime: new Date(bucket.resetAt),
+    };
+  }
+
+  /**
+   * Forgets all quotas, e.g. after the token changes. Queued requests stay
+   * queued and are re-evaluated against the cleared state.
+   */
+  public reset(): void {
+    for (const bucket of this.buckets.values()) {
+      bucket.limit = null;
+      bucket.remaining = null;
+      bucket.resetAt = 0;
+    }
+    this.pausedUntil = 0;
+    this.pump();
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Waits for a turn, then sends the request. Aborting while queued
+   * removes the request without sending it.
+   * @private
+   */
+  private dispatch(
+    resource: RateLimitResource,
+    send: () => Promise<Response>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return new Promise<Response>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal!.reason);
+        }
+      };
+
+      const request: QueuedRequest = {
+        resource,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          send()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.getBucket(resource).inFlight--;
+              this.pump();
+            });
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(request);
+      this.pump();
+    });
+  }
+
+  /**
+   * Starts every queued request that has a free slot and quota, in order,
+   * and schedules a wake-up for the earliest paused one.
+   *
+   * Starting a request can call back into `pump` (a token change resets
+   * the quotas); that call is deferred to another pass of the running loop
+   * so two loops never dequeue at once.
+   * @private
+   */
+  private pump(): void {
+    if (this.pumping) {
+      this.pumpAgain = true;
+      return;
+    }
+
+    this.pumping = true;
+    try {
+      do {
+        this.pumpAgain = false;
+        this.startReady();
+      } while (this.pumpAgain);
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  /**
+   * One pass of {@link pump}.
+   * @private
+   */
+  private startReady(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    for (let i = 0; i < this.queue.length && this.active < this.maxConcurrent; ) {
+      const request = this.queue[i];
+      const readyAt = this.getReadyAt(request.resource, now);
+
+      if (readyAt > now) {
+        nextWake = Math.min(nextWake, readyAt);
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      this.active++;
+      this.getBucket(request.resource).inFlight++;
+      request.start();
+    }
+
+    if (nextWake !== Infinity) {
+      this.wakeTimer = setTimeout(() => this.pump(), nextWake - now);
+    }
+  }
+
+  /**
+   * When a request against `resource` may be sent.
+   * In-flight requests count as spent so a burst cannot overdraw the quota.
+   * @private
+   */
+  private getReadyAt(resource: RateLimitResource, now: number): number {
+    if (this.pausedUntil > now) {
+      return this.pausedUntil;
+    }
+
+    const bucket = this.getBucket(resource);
+    if (
+      bucket.remaining !== null &&
+      bucket.remaining - bucket.inFlight <= 0 &&
+      bucket.resetAt > now
+    ) {
+      return bucket.resetAt;
+    }
+
+    return now;
+  }
+
+  /**
+   * Updates quota tracking from rate limit response headers. GitHub names
+   * the resource in `x-ratelimit-resource`; the guess is only a fallback.
+   * @private
+   */
+  private record(resource: RateLimitResource, response: Response): void {
+    const remaining = response.headers.get("x-ratelimit-remaining");
+    if (remaining === null) {
+      return;
+    }
+
+    const bucket = this.getBucket(
+      response.headers.get("x-ratelimit-resource") ?? resource
+    );
+    const limit = response.headers.get("x-ratelimit-limit");
+    const reset = response.headers.get("x-ratelimit-reset");
+
+    bucket.remaining = parseInt(remaining, 10);
+    if (limit !== null) bucket.limit = parseInt(limit, 10);
+    if (reset !== null) bucket.resetAt = parseInt(reset, 10) * 1000;
+  }
+
+  /**
+   * Milliseconds to wait before retrying, or null when the response is not
+   * a rate limit response.
+   * @private
+   */
+  private async getRetryDelay(
+    resource: RateLimitResource,
+    response: Response,
+    attempt: number
+  ): Promise<number | null> {
+    if (response.status !== 403 && response.status !== 429) {
+      return null;
+    }
+
+    // Primary quota exhausted: wait for the window to reset
+    if (this.isQuotaExhausted(response)) {
+      const resetAt = this.getBucket(
+        response.headers.get("x-ratelimit-resource") ?? resource
+      ).resetAt;
+      return Math.max(0, resetAt - Date.now());
+    }
+
+    const retryAfter = response.headers.get("retry-after");
+    if (retryAfter !== null) {
+      return parseInt(retryAfter, 10) * 1000;
+    }
+
+    // Secondary limits without retry-after: back off exponentially
+    const body = await response
+      .clone()
+      .text()
+      .catch(() => "");
+    if (/secondary rate limit/i.test(body)) {
+      return RATE_LIMIT_CONFIG.SECONDARY_BACKOFF_MS * 2 ** attempt;
+    }
+
+    // A plain 403 (e.g. missing permissions) is not retried
+    return null;
+  }
+
+  /**
+   * Whether a response reports the primary quota as spent.
+   * @private
+   */
+  private isQuotaExhausted(response: Response): boolean {
+    return response.headers.get("x-ratelimit-remaining") === "0";
+  }
+
+  /**
+   * Returns the bucket for a resource, creating it on first use.
+   * @private
+   */
+  private getBucket(resource: string): Bucket {
+    let bucket = this.buckets.get(resource);
+    if (!bucket) {
+      bucket = { limit: null, remaining: null, resetAt: 0, inFlight: 0 };
+      this.buckets.set(resource, bucket);
+    }
+    return bucket;
+  }
+}
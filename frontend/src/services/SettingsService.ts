@@ -0,0 +1,150 @@
+/**
+ * @fileoverview User preferences for the dashboard: default time filter,
+ * time zone, needs-attention thresholds and bot exclusion. Persisted in
+ * localStorage and broadcast to subscribers on every change; the theme is
+ * delegated to ThemeService.
+ *
+ * @module services/SettingsService
+ */
+
+import { STORAGE_KEYS } from "../constants";
+import { AttentionThresholds, UserSettings } from "../types";
+import { DateUtils } from "../utils";
+import { ThemeService } from "./ThemeService";
+
+/**
+ * Settings owned by this service; the theme stays with ThemeService
+ */
+type StoredSettings = Omit<UserSettings, "theme">;
+
+/**
+ * Defaults for settings never changed. UTC keeps day boundaries identical
+ * for every viewer until someone picks a zone on purpose.
+ */
+const DEFAULT_SETTINGS: StoredSettings = {
+  defaultTimeFilter: "3m",
+  timeZone: "UTC",
+  attentionThresholds: {
+    staleDays: 14,
+    awaitingReviewDays: 3,
+  },
+  excludeBots: false,
+  botLogins: [],
+};
+
+/**
+ * True for a whole number of days of at least one
+ */
+function isDayCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Settings service for dashboard preferences
+ * @class SettingsServiceClass
+ */
+class SettingsServiceClass {
+  private settings: StoredSettings;
+  private listeners: Set<(settings: UserSettings) => void> = new Set();
+
+  /**
+   * Initialize settings from localStorage
+   */
+  constructor() {
+    this.settings = this.loadSettings();
+  }
+
+  /**
+   * Load settings from storage, dropping values this browser can't use
+   */
+  private loadSettings(): StoredSettings {
+    try {
+      const data = localStorage.getItem(STORAGE_KEYS.SETTINGS);
+      const stored: Partial<StoredSettings> = data ? JSON.parse(data) : {};
+      const settings = { ...DEFAULT_SETTINGS, ...stored };
+
+      if (!DateUtils.isValidTimeZone(settings.timeZone)) {
+        settings.timeZone = DEFAULT_SETTINGS.timeZone;
+      }
+      if (!DateUtils.isTimeFilter(settings.defaultTimeFilter)) {
+        settings.defaultTimeFilter = DEFAULT_SETTINGS.defaultTimeFilter;
+      }
+
+      // Stored before a threshold existed, or edited by hand
+      const thresholds = { ...DEFAULT_SETTINGS.attentionThresholds };
+      const keys = Object.keys(thresholds) as (keyof AttentionThresholds)[];
+      for (const key of keys) {
+        const value = stored.attentionThresholds?.[key];
+        if (isDayCount(value)) thresholds[key] = value;
+      }
+      settings.attentionThresholds = thresholds;
+
+      if (typeof settings.excludeBots !== "boolean") {
+        settings.excludeBots = DEFAULT_SETTINGS.excludeBots;
+      }
+      settings.botLogins = Array.isArray(settings.botLogins)
+        ? settings.botLogins.filter((login) => typeof login === "string")
+        : [];
+      return settings;
+    } catch {
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  /**
+   * Get current settings
+   */
+  public getSettings(): UserSettings {
+    return { ...this.settings, theme: ThemeService.getTheme() };
+  }
+
+  /**
+   * Get the time zone dates are bucketed in
+   */
+  public getTimeZone(): string {
+    return this.settings.timeZone;
+  }
+
+  /**
+   * Get the thresholds of the "Needs attention" panel
+   */
+  public getAttentionThresholds(): AttentionThresholds {
+    return this.settings.attentionThresholds;
+  }
+
+  /**
+   * Get whether bots are left out, and which extra logins count as bots
+   */
+  public getBotSettings(): Pick<UserSettings, "excludeBots" | "botLogins"> {
+    const { excludeBots, botLogins } = this.settings;
+    return { excludeBots, botLogins };
+  }
+
+  /**
+   * Update and persist settings
+   */
+  public updateSettings(changes: Partial<StoredSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(this.settings));
+    this.notifyListeners();
+  }
+
+  /**
+   * Subscribe to settings changes
+   */
+  public subscribe(listener: (settings: UserSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Notify all listeners
+   */
+  private notifyListeners(): void {
+    const settings = this.getSettings();
+    this.listeners.forEach((listener) => listener(settings));
+  }
+}
+
+// Export singleton instance
+export const SettingsService = new SettingsServiceClass();
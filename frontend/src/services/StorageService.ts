@@ -7,6 +7,7 @@
  * Provides CRUD operations for locally stored data including:
  * - Repository and user bookmarks
  * - Analysis history with pagination
+ * - GSoC organizations selected for comparison
  *
  * All data is persisted in localStorage and survives page refreshes.
  * Implements data size limits to prevent localStorage quota issues.
@@ -37,6 +38,17 @@ export class BookmarkExistsError extends Error {
   }
 }
 
+/**
+ * Comparison selection is full error.
+ * @extends Error
+ */
+export class ComparisonLimitError extends Error {
+  constructor(public readonly limit: number) {
+    super(`At most ${limit} organizations can be compared`);
+    this.name = "ComparisonLimitError";
+  }
+}
+
 /**
  * Paginated response type for history queries.
  */
@@ -380,6 +392,76 @@ class StorageServiceClass {
     localStorage.removeItem(STORAGE_KEYS.RECENT_SEARCHES);
   }
 
+  // ============================================================================
+  // Org Comparison Operations
+  // ============================================================================
+
+  /**
+   * Retrieves the GSoC org slugs selected for comparison.
+   *
+   * @returns {string[]} Org slugs, in the order they were selected
+   *
+   * @example
+   * ```typescript
+   * const slugs = StorageService.getComparedOrgs();
+   * ```
+   */
+  public getComparedOrgs(): string[] {
+    try {
+      const data = localStorage.getItem(STORAGE_KEYS.COMPARED_ORGS);
+      const slugs: string[] = data ? JSON.parse(data) : [];
+      return slugs.slice(0, PAGINATION_CONFIG.MAX_COMPARED_ORGS);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Adds an org to the comparison. Already selected orgs are left in place.
+   *
+   * @param {string} slug - GSoC org slug
+   * @returns {string[]} The updated selection
+   * @throws {ComparisonLimitError} If the selection is already full
+   *
+   * @example
+   * ```typescript
+   * StorageService.addComparedOrg('python-software-foundation');
+   * ```
+   */
+  public addComparedOrg(slug: string): string[] {
+    const slugs = this.getComparedOrgs();
+    if (slugs.includes(slug)) return slugs;
+
+    if (slugs.length >= PAGINATION_CONFIG.MAX_COMPARED_ORGS) {
+      throw new ComparisonLimitError(PAGINATION_CONFIG.MAX_COMPARED_ORGS);
+    }
+
+    slugs.push(slug);
+    this.saveComparedOrgs(slugs);
+    return slugs;
+  }
+
+  /**
+   * Removes an org from the comparison.
+   *
+   * @param {string} slug - GSoC org slug
+   * @returns {string[]} The updated selection
+   */
+  public removeComparedOrg(slug: string): string[] {
+    const slugs = this.getComparedOrgs().filter((s) => s !== slug);
+    this.saveComparedOrgs(slugs);
+    return slugs;
+  }
+
+  /**
+   * Clears the comparison selection.
+   *
+   * @returns {void}
+   */
+  public clearComparedOrgs(): void {
+    localStorage.removeItem(STORAGE_KEYS.COMPARED_ORGS);
+  }
+
   // ============================================================================
   // Private Helpers
   // ============================================================================
@@ -424,6 +506,14 @@ class StorageServiceClass {
     );
   }
 
+  /**
+   * Saves the comparison selection to localStorage.
+   * @private
+   */
+  private saveComparedOrgs(slugs: string[]): void {
+    localStorage.setItem(STORAGE_KEYS.COMPARED_ORGS, JSON.stringify(slugs));
+  }
+
   /**
    * Generates a unique ID.
    * @private
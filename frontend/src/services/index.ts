@@ -1,5 +1,9 @@
 export { CACHE_TTL, CacheService } from "./CacheService";
 export { ExportService } from "./ExportService";
 export { GitHubService } from "./GitHubService";
-export { StorageService } from "./StorageService";
+export { OrganizationService } from "./OrganizationService";
+export { ProgressTracker } from "./ProgressTracker";
+export { BudgetExhaustedError, RequestBudget } from "./RequestBudget";
+export { SettingsService } from "./SettingsService";
+export { ComparisonLimitError, StorageService } from "./StorageService";
 export { ThemeService, type Theme } from "./ThemeService";
@@ -1,7 +1,18 @@
 /**
- * Time filter options
+ * Time filter presets, each a window ending now
  */
-export type TimeFilter = "2w" | "1m" | "3m" | "6m" | "12m" | "all";
+export type TimeFilterPreset = "2w" | "1m" | "3m" | "6m" | "12m" | "all";
+
+/**
+ * Custom date range, inclusive on both ends: "YYYY-MM-DD..YYYY-MM-DD"
+ * (the same syntax GitHub search uses for date qualifiers)
+ */
+export type CustomTimeRange = `${string}..${string}`;
+
+/**
+ * Time filter: a preset window ending now, or a custom date range
+ */
+export type TimeFilter = TimeFilterPreset | CustomTimeRange;
 
 /**
  * Pull request interface
@@ -14,6 +25,8 @@ export interface PullRequest {
   createdAt: string;
   mergedAt: string | null;
   closedAt: string | null;
+  /** Last activity on the PR; drives incremental sync */
+  updatedAt: string;
   htmlUrl: string;
   repositoryUrl: string;
   repositoryName: string;
@@ -21,6 +34,12 @@ export interface PullRequest {
   user: {
     login: string;
     avatarUrl: string;
+    /**
+     * GitHub reports the author as a bot (account type Bot or a "[bot]"
+     * login). Logins on the user's bot list are matched separately, so
+     * edits to the list apply without refetching.
+     */
+    isBot: boolean;
   };
   labels: string[];
   additions: number;
@@ -28,6 +47,67 @@ export interface PullRequest {
   changedFiles: number;
   reviewComments: number;
   firstReviewAt: string | null;
+  /** Submitted reviews, or null when reviews were not fetched for this PR */
+  reviews: PullRequestReview[] | null;
+  /** Author's relationship to the repository (OWNER, MEMBER, COLLABORATOR...) */
+  authorAssociation: string;
+  /** Login of the user who merged the PR, when the data source provides it */
+  mergedBy: string | null;
+  /** Whether an open PR merges cleanly; null when not fetched */
+  mergeable: MergeableState | null;
+  /** Combined check result of an open PR's head commit; null when not fetched or no checks ran */
+  checkStatus: CheckStatus | null;
+}
+
+/**
+ * Mergeability of a pull request as computed by GitHub
+ */
+export type MergeableState = "mergeable" | "conflicting" | "unknown";
+
+/**
+ * Combined status of the checks on a commit
+ */
+export type CheckStatus = "success" | "failure" | "pending";
+
+/**
+ * Review state as reported by GitHub
+ */
+export type ReviewState =
+  | "APPROVED"
+  | "CHANGES_REQUESTED"
+  | "COMMENTED"
+  | "DISMISSED"
+  | "PENDING";
+
+/**
+ * Pull request review
+ */
+export interface PullRequestReview {
+  reviewer: {
+    login: string;
+    avatarUrl: string;
+  };
+  state: ReviewState;
+  submittedAt: string;
+}
+
+/**
+ * Signals used to infer that a user maintains a repository
+ */
+export type MaintainerSignal =
+  | "permission"
+  | "codeowners"
+  | "merge-actor"
+  | "association";
+
+/**
+ * Why a user was flagged as a maintainer, for display next to the badge
+ */
+export interface MaintainerEvidence {
+  confidence: "high" | "medium";
+  /** Human-readable explanation, e.g. "Merged 12 PRs · Listed in CODEOWNERS" */
+  reason: string;
+  signals: MaintainerSignal[];
 }
 
 /**
@@ -41,10 +121,23 @@ export interface ContributorStats {
   openPRs: number;
   closedPRs: number;
   isMaintainer: boolean;
+  maintainerEvidence: MaintainerEvidence | null;
   totalAdditions: number;
   totalDeletions: number;
+  /** Mean hours from opening to the first review, 0 without reviews */
   avgReviewTime: number;
+  /** Mean hours from opening to merge, 0 without merged PRs */
   avgMergeTime: number;
+  cycleTime: CycleTimeBreakdown;
+  /** GitHub reports the contributor as a bot */
+  isBot: boolean;
+  /** Creation time of the contributor's earliest PR in the analyzed window */
+  firstPRAt: string;
+  /**
+   * Whether that PR is their first to the repository at all; null when
+   * earlier PRs could not be looked up
+   */
+  isFirstTimer: boolean | null;
 }
 
 /**
@@ -57,13 +150,68 @@ export interface ActivityDataPoint {
   closed: number;
 }
 
+/**
+ * Bucket size of an activity timeline chart
+ */
+export type TimelineGranularity = "day" | "week" | "month";
+
+/**
+ * Stage of a pull request's review cycle: opened → first review, first
+ * review → first approval, first approval → merge
+ */
+export type CycleStage = "firstReview" | "reviewToApproval" | "approvalToMerge";
+
+/**
+ * Percentiles of a sample of durations, in hours
+ */
+export interface DurationPercentiles {
+  /** PRs the percentiles were computed from */
+  count: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+/**
+ * Duration percentiles per cycle stage
+ */
+export type CycleTimeBreakdown = Record<CycleStage, DurationPercentiles>;
+
+/**
+ * Histogram bucket of cycle stage durations
+ */
+export interface CycleTimeBucket {
+  /** e.g. "1–4h" */
+  label: string;
+  /** Inclusive lower bound, in hours */
+  minHours: number;
+  /** Exclusive upper bound, in hours; null for the last bucket */
+  maxHours: number | null;
+  counts: Record<CycleStage, number>;
+}
+
+/**
+ * Repository-wide cycle time analysis
+ */
+export interface CycleTimeStats {
+  breakdown: CycleTimeBreakdown;
+  histogram: CycleTimeBucket[];
+}
+
 /**
  * Review statistics
  */
 export interface ReviewStats {
   totalReviews: number;
+  /** Number of PRs whose reviews were fetched */
+  reviewedPRs: number;
+  /** Number of those PRs with a first review, which the average is over */
+  firstReviewedPRs: number;
   avgTimeToFirstReview: number;
   avgTimeToMerge: number;
+  /** Every reviewer, most reviews first */
+  reviewers: ReviewerStats[];
+  /** First 10 of `reviewers` */
   topReviewers: ReviewerStats[];
 }
 
@@ -91,7 +239,152 @@ export interface RepositoryStats {
   recentPRs: PullRequest[];
   labelDistribution: Record<string, number>;
   activityTimeline: ActivityDataPoint[];
+  /** Time zone the activity timeline days were counted in */
+  timeZone: string;
   reviewStats: ReviewStats;
+  cycleTime: CycleTimeStats;
+  retention: RetentionStats;
+  concentration: ConcentrationStats;
+}
+
+/**
+ * How much of a repository's work rests on few contributors
+ */
+export interface ConcentrationMetrics {
+  /** PRs the metrics were computed from */
+  totalPRs: number;
+  /** Fewest contributors behind half of the merged PRs, 0 without merges */
+  busFactor: number;
+  /** Gini coefficient of PR counts per contributor: 0 even, 1 one person */
+  gini: number;
+  /** Shares (0-1) of PRs opened by the top 1, 5 and 10 contributors */
+  top1Share: number;
+  top5Share: number;
+  top10Share: number;
+}
+
+/**
+ * Concentration metrics of one period of the window
+ */
+export interface ConcentrationTrendPoint extends ConcentrationMetrics {
+  /** First and last day of the period, "YYYY-MM-DD" */
+  from: string;
+  to: string;
+}
+
+/**
+ * Concentration over the whole window and its trend, oldest period first
+ */
+export interface ConcentrationStats extends ConcentrationMetrics {
+  trend: ConcentrationTrendPoint[];
+}
+
+/**
+ * How many first-time contributors opened a second PR. Only first-timers
+ * whose first PR is at least 30 (or 90) days before the end of the window
+ * are eligible, so recent ones don't count as lost before they had the
+ * chance to return.
+ */
+export interface RetentionCounts {
+  /** Contributors whose first PR to the repository is in the window */
+  firstTimers: number;
+  eligible30d: number;
+  /** Eligible first-timers who opened a second PR within 30 days */
+  returned30d: number;
+  eligible90d: number;
+  /** Eligible first-timers who opened a second PR within 90 days */
+  returned90d: number;
+}
+
+/**
+ * First-timers grouped by the month of their first PR
+ */
+export interface RetentionCohort extends RetentionCounts {
+  /** Month of the first PR, "YYYY-MM" */
+  month: string;
+}
+
+/**
+ * First-time contributor retention of a repository
+ */
+export interface RetentionStats extends RetentionCounts {
+  /** False when first-timers could not be identified (needs a token) */
+  available: boolean;
+  /** Monthly cohorts, oldest first */
+  cohorts: RetentionCohort[];
+}
+
+/**
+ * Repository listed for an organization
+ */
+export interface OrganizationRepository {
+  name: string;
+  fullName: string;
+  description: string | null;
+  stars: number;
+  pushedAt: string;
+  archived: boolean;
+  fork: boolean;
+}
+
+/**
+ * Per-repository row in an organization analysis
+ */
+export interface RepositoryBreakdown {
+  fullName: string;
+  totalPRs: number;
+  mergedPRs: number;
+  openPRs: number;
+  contributors: number;
+  stars: number;
+}
+
+/**
+ * Contributor statistics merged across an organization's repositories
+ */
+export interface OrganizationContributorStats extends ContributorStats {
+  /** Repositories (owner/repo) the contributor opened PRs in */
+  repositories: string[];
+}
+
+/**
+ * Organization-wide statistics merged from several repositories
+ */
+export interface OrganizationStats {
+  org: string;
+  timeFilter: TimeFilter;
+  totalPRs: number;
+  /** Repositories that were analyzed, most active first */
+  repositories: RepositoryBreakdown[];
+  /** Repositories listed but not analyzed because the budget ran out */
+  skippedRepositories: string[];
+  contributors: OrganizationContributorStats[];
+  labelDistribution: Record<string, number>;
+  activityTimeline: ActivityDataPoint[];
+  reviewStats: ReviewStats;
+  /**
+   * Per-repository analyses with bots included, so they can be merged again
+   * without bots locally
+   */
+  analyzedRepositories: RepositoryStats[];
+  /** Requests spent from the shared budget */
+  requestsUsed: number;
+}
+
+/**
+ * Compact activity summary for a GSoC directory card
+ */
+export interface OrganizationHealth {
+  /** GitHub account or `owner/repo` the summary was computed for */
+  source: string;
+  /** Repositories with PRs opened or merged in the summary window */
+  repositories: number;
+  /** PRs merged in the summary window, by merge date */
+  mergedPRs: number;
+  /** Distinct PR authors in the summary window */
+  activeContributors: number;
+  /** Median hours from creation to merge of those PRs (0 if none) */
+  medianTimeToMerge: number;
 }
 
 /**
@@ -102,6 +395,7 @@ export interface RepositoryContribution {
   prCount: number;
   mergedCount: number;
   isMaintainer: boolean;
+  maintainerEvidence: MaintainerEvidence | null;
 }
 
 /**
@@ -156,6 +450,18 @@ export interface AnalysisHistory {
   analyzedAt: string;
 }
 
+/**
+ * Progress of a running analysis, reported after every request
+ */
+export interface AnalysisProgress {
+  /** API requests (pages) completed */
+  pagesFetched: number;
+  /** Pull requests received so far */
+  prsFetched: number;
+  /** Requests left in the current rate limit window, when known */
+  rateLimitRemaining: number | null;
+}
+
 /**
  * Authenticated user
  */
@@ -173,6 +479,48 @@ export interface User {
 export interface UserSettings {
   theme: "light" | "dark";
   defaultTimeFilter: TimeFilter;
+  /**
+   * IANA time zone dates are bucketed and exported in, e.g. "UTC" or
+   * "Europe/Berlin"
+   */
+  timeZone: string;
+  /** When an open PR is flagged as needing attention */
+  attentionThresholds: AttentionThresholds;
+  /** Leave bot accounts out of contributors, labels and activity */
+  excludeBots: boolean;
+  /** Extra logins treated as bots, e.g. an org's release bot */
+  botLogins: string[];
+}
+
+/**
+ * Thresholds of the "Needs attention" panel, in days
+ */
+export interface AttentionThresholds {
+  /** Days without any activity before an open PR counts as stale */
+  staleDays: number;
+  /** Days an open PR may wait for its first review */
+  awaitingReviewDays: number;
+}
+
+/**
+ * Why an open pull request needs attention
+ */
+export type AttentionReason =
+  | "stale"
+  | "awaitingReview"
+  | "conflicting"
+  | "failingChecks";
+
+/**
+ * Open pull request flagged by the "Needs attention" panel
+ */
+export interface AttentionItem {
+  pr: PullRequest;
+  reasons: AttentionReason[];
+  /** Whole days since the last activity */
+  idleDays: number;
+  /** Whole days since the PR was opened */
+  openDays: number;
 }
 
 /**
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Activity timeline calculation, bucketing and smoothing.
+ * Timelines are computed per day in a time zone; charts regroup them by
+ * week or month.
+ * @module utils/activityTimeline
+ */
+
+import {
+  ActivityDataPoint,
+  PullRequest,
+  TimeFilter,
+  TimelineGranularity,
+} from "../types";
+import { DateUtils } from "./dateUtils";
+
+/** Longest range, in days, still charted per day when picked automatically */
+const MAX_DAILY_RANGE_DAYS = 92;
+
+/** Longest range, in days, still charted per week when picked automatically */
+const MAX_WEEKLY_RANGE_DAYS = 366;
+
+/**
+ * Moving average window per granularity, in buckets: a week of days,
+ * a month of weeks, a quarter of months.
+ */
+export const MOVING_AVERAGE_WINDOWS: Record<TimelineGranularity, number> = {
+  day: 7,
+  week: 4,
+  month: 3,
+};
+
+/**
+ * Activity timeline helpers.
+ */
+export const ActivityTimeline = {
+  /**
+   * Counts PRs opened, merged and closed (unmerged) per day of a time
+   * filter. Days are calendar days in `timeZone`, so a PR merged at 23:30
+   * UTC lands on the next day in Berlin and on the same day in New York.
+   *
+   * @param {PullRequest[]} prs - Pull requests
+   * @param {TimeFilter} filter - Time filter the days span
+   * @param {string} [timeZone="UTC"] - IANA time zone days are counted in
+   * @returns {ActivityDataPoint[]} One point per day, in date order
+   */
+  fromPullRequests(
+    prs: PullRequest[],
+    filter: TimeFilter,
+    timeZone: string = "UTC"
+  ): ActivityDataPoint[] {
+    const timeline = new Map<string, ActivityDataPoint>();
+
+    // Initialize all dates with zero counts
+    for (const date of DateUtils.generateDateRange(filter, timeZone)) {
+      timeline.set(date, { date, opened: 0, merged: 0, closed: 0 });
+    }
+
+    const dayOf = (isoDate: string) =>
+      timeline.get(DateUtils.toDateString(new Date(isoDate), timeZone));
+
+    // Aggregate PR counts per day
+    for (const pr of prs) {
+      const opened = dayOf(pr.createdAt);
+      if (opened) opened.opened++;
+
+      if (pr.mergedAt) {
+        const merged = dayOf(pr.mergedAt);
+        if (merged) merged.merged++;
+      } else if (pr.closedAt) {
+        const closed = dayOf(pr.closedAt);
+        if (closed) closed.closed++;
+      }
+    }
+
+    return Array.from(timeline.values());
+  },
+
+  /**
+   * Picks a granularity from the length of a time filter's range, so long
+   * ranges are not charted as thousands of daily points.
+   *
+   * @param {TimeFilter} filter - The time filter
+   * @returns {TimelineGranularity} day up to ~3 months, week up to a year,
+   *          month beyond
+   *
+   * @example
+   * ```typescript
+   * ActivityTimeline.pickGranularity('1m');  // 'day'
+   * ActivityTimeline.pickGranularity('all'); // 'month'
+   * ```
+   */
+  pickGranularity(filter: TimeFilter): TimelineGranularity {
+    const days =
+      (DateUtils.getEndDate(filter).getTime() -
+        DateUtils.getStartDate(filter).getTime()) /
+      (1000 * 60 * 60 * 24);
+
+    if (days <= MAX_DAILY_RANGE_DAYS) return "day";
+    if (days <= MAX_WEEKLY_RANGE_DAYS) return "week";
+    return "month";
+  },
+
+  /**
+   * First day of the bucket a date falls in: the date itself, the Monday of
+   * its week, or the first of its month.
+   *
+   * @param {string} date - ISO date (YYYY-MM-DD)
+   * @param {TimelineGranularity} granularity - Bucket size
+   * @returns {string} Bucket start date (YYYY-MM-DD)
+   */
+  getBucketStart(date: string, granularity: TimelineGranularity): string {
+    switch (granularity) {
+      case "day":
+        return date;
+      case "week": {
+        // getUTCDay() is 0 on Sunday; shift so weeks start on Monday
+        const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+        return DateUtils.addDays(date, -((weekday + 6) % 7));
+      }
+      case "month":
+        return `${date.slice(0, 7)}-01`;
+    }
+  },
+
+  /**
+   * Sums a daily timeline into buckets, dated by their first day.
+   *
+   * @param {ActivityDataPoint[]} points - Daily points, in date order
+   * @param {TimelineGranularity} granularity - Bucket size
+   * @returns {ActivityDataPoint[]} One point per bucket, in date order
+   */
+  bucket(
+    points: ActivityDataPoint[],
+    granularity: TimelineGranularity
+  ): ActivityDataPoint[] {
+    if (granularity === "day") return points;
+
+    const buckets = new Map<string, ActivityDataPoint>();
+    for (const point of points) {
+      const date = this.getBucketStart(point.date, granularity);
+      const bucket = buckets.get(date);
+      if (bucket) {
+        bucket.opened += point.opened;
+        bucket.merged += point.merged;
+        bucket.closed += point.closed;
+      } else {
+        buckets.set(date, { ...point, date });
+      }
+    }
+
+    return Array.from(buckets.values());
+  },
+
+  /**
+   * Trailing moving average: each point averages itself and up to
+   * `window - 1` points before it.
+   *
+   * @param {ActivityDataPoint[]} points - Points, in date order
+   * @param {number} window - Number of points averaged
+   * @returns {ActivityDataPoint[]} Averaged points, aligned with the input
+   */
+  movingAverage(
+    points: ActivityDataPoint[],
+    window: number
+  ): ActivityDataPoint[] {
+    const sums = { opened: 0, merged: 0, closed: 0 };
+
+    return points.map((point, index) => {
+      sums.opened += point.opened;
+      sums.merged += point.merged;
+      sums.closed += point.closed;
+
+      const dropped = points[index - window];
+      if (dropped) {
+        sums.opened -= dropped.opened;
+        sums.merged -= dropped.merged;
+        sums.closed -= dropped.closed;
+      }
+
+      const size = Math.min(index + 1, window);
+      return {
+        date: point.date,
+        opened: sums.opened / size,
+        merged: sums.merged / size,
+        closed: sums.closed / size,
+      };
+    });
+  },
+
+  /**
+   * Formats a bucket's date for chart axes and tooltips.
+   *
+   * @param {string} date - Bucket start date (YYYY-MM-DD)
+   * @param {TimelineGranularity} granularity - Bucket size
+   * @returns {string} e.g. "Jun 2", "Week of Jun 2" or "Jun 2025"
+   */
+  formatBucket(date: string, granularity: TimelineGranularity): string {
+    const day = new Date(`${date}T00:00:00Z`);
+    if (granularity === "month") {
+      return day.toLocaleDateString(undefined, {
+        month: "short",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+    }
+
+    const label = day.toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+    return granularity === "week" ? `Week of ${label}` : label;
+  },
+};
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Detection of open pull requests that need a maintainer:
+ * stale ones, ones still waiting for a first review, and ones blocked by
+ * merge conflicts or failing checks.
+ * @module utils/attention
+ */
+
+import {
+  AttentionItem,
+  AttentionReason,
+  AttentionThresholds,
+  PullRequest,
+} from "../types";
+
+/** Display labels of the reasons */
+export const ATTENTION_REASON_LABELS: Record<AttentionReason, string> = {
+  stale: "Stale",
+  awaitingReview: "Awaiting first review",
+  conflicting: "Merge conflicts",
+  failingChecks: "Failing checks",
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Needs-attention calculations.
+ */
+export const PullRequestAttention = {
+  /**
+   * Reasons an open PR needs attention. Closed PRs never do. A PR whose
+   * reviews were not fetched is not reported as awaiting review, and one
+   * without merge or check status is not reported as blocked.
+   *
+   * @param {PullRequest} pr - Pull request
+   * @param {AttentionThresholds} thresholds - Day thresholds
+   * @param {Date} [now] - Reference time
+   * @returns {AttentionReason[]} Reasons, empty when the PR is fine
+   *
+   * @example
+   * ```typescript
+   * PullRequestAttention.getReasons(pr, { staleDays: 14, awaitingReviewDays: 3 });
+   * // ["stale", "awaitingReview"]
+   * ```
+   */
+  getReasons(
+    pr: PullRequest,
+    thresholds: AttentionThresholds,
+    now: Date = new Date()
+  ): AttentionReason[] {
+    if (pr.state !== "open") return [];
+
+    const reasons: AttentionReason[] = [];
+    if (this.daysSince(pr.updatedAt, now) >= thresholds.staleDays) {
+      reasons.push("stale");
+    }
+    if (
+      pr.reviews !== null &&
+      pr.firstReviewAt === null &&
+      this.daysSince(pr.createdAt, now) >= thresholds.awaitingReviewDays
+    ) {
+      reasons.push("awaitingReview");
+    }
+    if (pr.mergeable === "conflicting") {
+      reasons.push("conflicting");
+    }
+    if (pr.checkStatus === "failure") {
+      reasons.push("failingChecks");
+    }
+    return reasons;
+  },
+
+  /**
+   * Open PRs that need attention, longest idle first.
+   *
+   * @param {PullRequest[]} prs - Pull requests
+   * @param {AttentionThresholds} thresholds - Day thresholds
+   * @param {Date} [now] - Reference time
+   * @returns {AttentionItem[]} Flagged PRs with their reasons
+   */
+  findPullRequests(
+    prs: PullRequest[],
+    thresholds: AttentionThresholds,
+    now: Date = new Date()
+  ): AttentionItem[] {
+    return prs
+      .map((pr) => ({
+        pr,
+        reasons: this.getReasons(pr, thresholds, now),
+        idleDays: this.daysSince(pr.updatedAt, now),
+        openDays: this.daysSince(pr.createdAt, now),
+      }))
+      .filter((item) => item.reasons.length > 0)
+      .sort((a, b) => b.idleDays - a.idleDays);
+  },
+
+  /**
+   * Whole days elapsed since a timestamp.
+   *
+   * @param {string} iso - ISO 8601 timestamp
+   * @param {Date} now - Reference time
+   * @returns {number} Days, never negative
+   */
+  daysSince(iso: string, now: Date): number {
+    return Math.max(
+      0,
+      Math.floor((now.getTime() - new Date(iso).getTime()) / MS_PER_DAY)
+    );
+  },
+};
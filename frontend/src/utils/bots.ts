@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Bot account detection. GitHub marks app accounts with the
+ * `Bot` type and a "[bot]" login suffix; other automation (an org's release
+ * account, say) is a regular user and has to be listed by hand.
+ * @module utils/bots
+ */
+
+import { ContributorStats, PullRequest } from "../types";
+
+/**
+ * Bot detection helpers.
+ */
+export const Bots = {
+  /**
+   * Whether GitHub reports an account as a bot.
+   *
+   * @param {string} login - Account login
+   * @param {string | null} [type] - Account type from the API ("User",
+   *        "Bot", "Organization") or GraphQL `__typename`
+   * @returns {boolean} True for app accounts
+   *
+   * @example
+   * ```typescript
+   * Bots.isBotAccount('dependabot[bot]'); // true
+   * Bots.isBotAccount('renovate', 'Bot'); // true
+   * ```
+   */
+  isBotAccount(login: string, type?: string | null): boolean {
+    return type === "Bot" || login.toLowerCase().endsWith("[bot]");
+  },
+
+  /**
+   * Whether a login is on the user's bot list. Matching ignores case and
+   * the "[bot]" suffix, so "renovate" also covers "renovate[bot]".
+   *
+   * @param {string} login - Account login
+   * @param {string[]} botLogins - User-listed bot logins
+   * @returns {boolean} True when listed
+   */
+  isListed(login: string, botLogins: string[]): boolean {
+    const name = login.toLowerCase().replace(/\[bot\]$/, "");
+    return botLogins.some(
+      (listed) => listed.toLowerCase().replace(/\[bot\]$/, "") === name
+    );
+  },
+
+  /**
+   * Whether a login belongs to a bot, when only the login is known (e.g.
+   * a reviewer).
+   *
+   * @param {string} login - Account login
+   * @param {string[]} botLogins - User-listed bot logins
+   * @returns {boolean} True for bot accounts
+   */
+  isBotLogin(login: string, botLogins: string[]): boolean {
+    return this.isBotAccount(login) || this.isListed(login, botLogins);
+  },
+
+  /**
+   * Whether a pull request was opened by a bot.
+   *
+   * @param {PullRequest} pr - Pull request
+   * @param {string[]} botLogins - User-listed bot logins
+   * @returns {boolean} True for bot PRs
+   */
+  isBotPullRequest(pr: PullRequest, botLogins: string[]): boolean {
+    return pr.user.isBot || this.isBotLogin(pr.user.login, botLogins);
+  },
+
+  /**
+   * Whether a contributor is a bot.
+   *
+   * @param {ContributorStats} contributor - Contributor
+   * @param {string[]} botLogins - User-listed bot logins
+   * @returns {boolean} True for bot accounts
+   */
+  isBotContributor(
+    contributor: ContributorStats,
+    botLogins: string[]
+  ): boolean {
+    return (
+      contributor.isBot || this.isBotLogin(contributor.username, botLogins)
+    );
+  },
+
+  /**
+   * Parses a comma or whitespace separated list of logins, dropping
+   * duplicates and any leading "@".
+   *
+   * @param {string} text - Logins as typed
+   * @returns {string[]} Logins in input order
+   *
+   * @example
+   * ```typescript
+   * Bots.parseLogins('@release-bot, ci-user release-bot');
+   * // ['release-bot', 'ci-user']
+   * ```
+   */
+  parseLogins(text: string): string[] {
+    const logins = text
+      .split(/[\s,]+/)
+      .map((login) => login.replace(/^@/, "").trim())
+      .filter(Boolean);
+    return Array.from(new Set(logins));
+  },
+};
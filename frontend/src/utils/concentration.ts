@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Contribution concentration: bus factor, Gini coefficient of
+ * PR counts and the share of PRs from the top contributors, for the whole
+ * window and for consecutive periods of it.
+ * @module utils/concentration
+ */
+
+import {
+  ConcentrationMetrics,
+  ConcentrationStats,
+  ConcentrationTrendPoint,
+  PullRequest,
+  TimeFilter,
+} from "../types";
+import { DateUtils } from "./dateUtils";
+
+/** Periods the window is split into for the trend */
+export const CONCENTRATION_TREND_PERIODS = 4;
+
+/**
+ * PR counts of one contributor; ContributorStats has this shape
+ */
+interface ContributionCounts {
+  totalPRs: number;
+  mergedPRs: number;
+}
+
+/**
+ * Concentration calculations.
+ */
+export const Concentration = {
+  /**
+   * Concentration of a set of contributors' PRs.
+   *
+   * @param {ContributionCounts[]} contributors - PR counts per contributor
+   * @returns {ConcentrationMetrics} Bus factor, Gini and top-N shares
+   *
+   * @example
+   * ```typescript
+   * Concentration.getMetrics([
+   *   { totalPRs: 8, mergedPRs: 6 },
+   *   { totalPRs: 2, mergedPRs: 2 },
+   * ]);
+   * // { totalPRs: 10, busFactor: 1, gini: 0.3, top1Share: 0.8, ... }
+   * ```
+   */
+  getMetrics(contributors: ContributionCounts[]): ConcentrationMetrics {
+    const counts = contributors
+      .map((contributor) => contributor.totalPRs)
+      .filter((count) => count > 0)
+      .sort((a, b) => b - a);
+    const totalPRs = counts.reduce((sum, count) => sum + count, 0);
+    const topShare = (n: number): number =>
+      totalPRs > 0
+        ? counts.slice(0, n).reduce((sum, count) => sum + count, 0) / totalPRs
+        : 0;
+
+    return {
+      totalPRs,
+      busFactor: this.getBusFactor(
+        contributors.map((contributor) => contributor.mergedPRs)
+      ),
+      gini: this.getGini(counts),
+      top1Share: topShare(1),
+      top5Share: topShare(5),
+      top10Share: topShare(10),
+    };
+  },
+
+  /**
+   * Fewest contributors who together account for at least half of the
+   * merged PRs.
+   *
+   * @param {number[]} mergedCounts - Merged PRs per contributor
+   * @returns {number} Bus factor, 0 when nothing was merged
+   */
+  getBusFactor(mergedCounts: number[]): number {
+    const sorted = mergedCounts
+      .filter((count) => count > 0)
+      .sort((a, b) => b - a);
+    const total = sorted.reduce((sum, count) => sum + count, 0);
+
+    let covered = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      covered += sorted[i];
+      if (covered * 2 >= total) return i + 1;
+    }
+    return 0;
+  },
+
+  /**
+   * Gini coefficient of a sample, rounded to two decimals.
+   *
+   * @param {number[]} values - Non-negative values, in any order
+   * @returns {number} 0 for an even spread (or fewer than two values),
+   *          approaching 1 when one value holds everything
+   */
+  getGini(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const n = sorted.length;
+    const total = sorted.reduce((sum, value) => sum + value, 0);
+    if (n < 2 || total === 0) return 0;
+
+    const weighted = sorted.reduce(
+      (sum, value, index) => sum + (2 * (index + 1) - n - 1) * value,
+      0
+    );
+    return Math.round((weighted / (n * total)) * 100) / 100;
+  },
+
+  /**
+   * Metrics per period, splitting the window into
+   * {@link CONCENTRATION_TREND_PERIODS} periods of equal length. The window
+   * starts at the oldest PR when that is later than the filter's start, so
+   * a window cut short by the PR budget has no empty leading periods.
+   *
+   * @param {PullRequest[]} prs - Pull requests of the window
+   * @param {TimeFilter} filter - Time filter of the analysis
+   * @param {string} [timeZone="UTC"] - IANA time zone of the days
+   * @returns {ConcentrationTrendPoint[]} Periods, oldest first
+   */
+  getTrend(
+    prs: PullRequest[],
+    filter: TimeFilter,
+    timeZone: string = "UTC"
+  ): ConcentrationTrendPoint[] {
+    if (prs.length === 0) return [];
+
+    const dayOf = (iso: string) =>
+      DateUtils.toDateString(new Date(iso), timeZone);
+    const oldest = prs.reduce(
+      (min, pr) => (pr.createdAt < min ? pr.createdAt : min),
+      prs[0].createdAt
+    );
+    const filterStart = DateUtils.toDateString(
+      DateUtils.getStartDate(filter, timeZone),
+      timeZone
+    );
+    const first = dayOf(oldest) > filterStart ? dayOf(oldest) : filterStart;
+    const last = DateUtils.toDateString(
+      DateUtils.getEndDate(filter, timeZone),
+      timeZone
+    );
+
+    let days = 1;
+    for (let day = first; day < last; day = DateUtils.addDays(day, 1)) {
+      days++;
+    }
+    const periodDays = Math.ceil(days / CONCENTRATION_TREND_PERIODS);
+
+    const trend: ConcentrationTrendPoint[] = [];
+    for (
+      let from = first;
+      from <= last;
+      from = DateUtils.addDays(from, periodDays)
+    ) {
+      const end = DateUtils.addDays(from, periodDays - 1);
+      const to = end < last ? end : last;
+
+      const byAuthor = new Map<string, ContributionCounts>();
+      for (const pr of prs) {
+        const day = dayOf(pr.createdAt);
+        if (day < from || day > to) continue;
+        const counts = byAuthor.get(pr.user.login) ?? {
+          totalPRs: 0,
+          mergedPRs: 0,
+        };
+        counts.totalPRs++;
+        if (pr.merged) counts.mergedPRs++;
+        byAuthor.set(pr.user.login, counts);
+      }
+
+      trend.push({
+        from,
+        to,
+        ...this.getMetrics(Array.from(byAuthor.values())),
+      });
+    }
+
+    return trend;
+  },
+
+  /**
+   * Concentration of a repository's contributors and its trend.
+   *
+   * @param {ContributionCounts[]} contributors - Aggregated contributors
+   * @param {PullRequest[]} prs - Pull requests of the window
+   * @param {TimeFilter} filter - Time filter of the analysis
+   * @param {string} [timeZone="UTC"] - IANA time zone of the periods
+   * @returns {ConcentrationStats} Window metrics and trend
+   */
+  getStats(
+    contributors: ContributionCounts[],
+    prs: PullRequest[],
+    filter: TimeFilter,
+    timeZone: string = "UTC"
+  ): ConcentrationStats {
+    return {
+      ...this.getMetrics(contributors),
+      trend: this.getTrend(prs, filter, timeZone),
+    };
+  },
+};
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Pull request cycle time: how long PRs wait for a first
+ * review, for approval after it, and for merge after approval. Reported as
+ * percentiles, which unlike averages are not skewed by a few stale PRs.
+ * @module utils/cycleTime
+ */
+
+import {
+  CycleStage,
+  CycleTimeBreakdown,
+  CycleTimeBucket,
+  CycleTimeStats,
+  DurationPercentiles,
+  PullRequest,
+} from "../types";
+import { DateUtils } from "./dateUtils";
+
+/** Stages in the order a PR goes through them */
+export const CYCLE_STAGES: readonly CycleStage[] = [
+  "firstReview",
+  "reviewToApproval",
+  "approvalToMerge",
+];
+
+/** Display labels of the stages */
+export const CYCLE_STAGE_LABELS: Record<CycleStage, string> = {
+  firstReview: "Time to first review",
+  reviewToApproval: "Review to approval",
+  approvalToMerge: "Approval to merge",
+};
+
+/** Upper bounds (hours) of the histogram buckets; the last one is open */
+const HISTOGRAM_BOUNDS = [1, 4, 24, 72, 168, 336, 672];
+
+/**
+ * Histogram bucket label, e.g. "<1h", "4h–1d" or "28d+".
+ */
+function bucketLabel(minHours: number, maxHours: number | null): string {
+  if (maxHours === null) return `${DateUtils.formatDuration(minHours)}+`;
+  if (minHours === 0) return `<${DateUtils.formatDuration(maxHours)}`;
+  return `${DateUtils.formatDuration(minHours)}–${DateUtils.formatDuration(
+    maxHours
+  )}`;
+}
+
+/**
+ * Cycle time calculations.
+ */
+export const CycleTime = {
+  /**
+   * Stage durations of one PR, in hours. A stage is missing until the PR
+   * reaches its end: no review, no approval or not merged. Reviews by the
+   * author are ignored, and PRs whose reviews were not fetched have no
+   * stages at all.
+   *
+   * @param {PullRequest} pr - Pull request
+   * @returns {Partial<Record<CycleStage, number>>} Hours per reached stage
+   */
+  getStageDurations(pr: PullRequest): Partial<Record<CycleStage, number>> {
+    if (!pr.reviews) return {};
+
+    const reviews = pr.reviews
+      .filter((r) => r.reviewer.login !== pr.user.login && r.submittedAt)
+      .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+    const firstReview = reviews[0];
+    if (!firstReview) return {};
+
+    const hoursBetween = (start: string, end: string) =>
+      Math.max(0, DateUtils.diffInHours(new Date(start), new Date(end)));
+
+    const durations: Partial<Record<CycleStage, number>> = {
+      firstReview: hoursBetween(pr.createdAt, firstReview.submittedAt),
+    };
+
+    const approval = reviews.find((r) => r.state === "APPROVED");
+    if (approval) {
+      durations.reviewToApproval = hoursBetween(
+        firstReview.submittedAt,
+        approval.submittedAt
+      );
+      if (pr.mergedAt) {
+        durations.approvalToMerge = hoursBetween(
+          approval.submittedAt,
+          pr.mergedAt
+        );
+      }
+    }
+
+    return durations;
+  },
+
+  /**
+   * Linearly interpolated percentiles of a sample, rounded to hours.
+   *
+   * @param {number[]} values - Durations in hours, in any order
+   * @returns {DurationPercentiles} p50/p75/p90, all 0 for an empty sample
+   *
+   * @example
+   * ```typescript
+   * CycleTime.getPercentiles([1, 2, 3, 4, 100]);
+   * // { count: 5, p50: 3, p75: 4, p90: 62 }
+   * ```
+   */
+  getPercentiles(values: number[]): DurationPercentiles {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (p: number): number => {
+      if (sorted.length === 0) return 0;
+      const index = (sorted.length - 1) * p;
+      const lower = Math.floor(index);
+      const upper = Math.ceil(index);
+      return Math.round(
+        sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+      );
+    };
+
+    return {
+      count: sorted.length,
+      p50: at(0.5),
+      p75: at(0.75),
+      p90: at(0.9),
+    };
+  },
+
+  /**
+   * Stage durations of many PRs, grouped by stage.
+   *
+   * @param {PullRequest[]} prs - Pull requests
+   * @returns {Record<CycleStage, number[]>} Hours per stage
+   */
+  collectDurations(prs: PullRequest[]): Record<CycleStage, number[]> {
+    const durations: Record<CycleStage, number[]> = {
+      firstReview: [],
+      reviewToApproval: [],
+      approvalToMerge: [],
+    };
+
+    for (const pr of prs) {
+      const stages = this.getStageDurations(pr);
+      for (const stage of CYCLE_STAGES) {
+        const hours = stages[stage];
+        if (hours !== undefined) durations[stage].push(hours);
+      }
+    }
+
+    return durations;
+  },
+
+  /**
+   * Percentiles per stage for a set of PRs.
+   *
+   * @param {PullRequest[]} prs - Pull requests
+   * @returns {CycleTimeBreakdown} Percentiles per stage
+   */
+  getBreakdown(prs: PullRequest[]): CycleTimeBreakdown {
+    const durations = this.collectDurations(prs);
+    return {
+      firstReview: this.getPercentiles(durations.firstReview),
+      reviewToApproval: this.getPercentiles(durations.reviewToApproval),
+      approvalToMerge: this.getPercentiles(durations.approvalToMerge),
+    };
+  },
+
+  /**
+   * Histogram of stage durations, from under an hour to over four weeks.
+   *
+   * @param {PullRequest[]} prs - Pull requests
+   * @returns {CycleTimeBucket[]} Buckets in duration order
+   */
+  getHistogram(prs: PullRequest[]): CycleTimeBucket[] {
+    const durations = this.collectDurations(prs);
+    const histogram: CycleTimeBucket[] = [0, ...HISTOGRAM_BOUNDS].map(
+      (minHours, index) => {
+        const maxHours = HISTOGRAM_BOUNDS[index] ?? null;
+        return {
+          label: bucketLabel(minHours, maxHours),
+          minHours,
+          maxHours,
+          counts: { firstReview: 0, reviewToApproval: 0, approvalToMerge: 0 },
+        };
+      }
+    );
+
+    for (const stage of CYCLE_STAGES) {
+      for (const hours of durations[stage]) {
+        const bucket = histogram.find(
+          (b) => b.maxHours === null || hours < b.maxHours
+        )!;
+        bucket.counts[stage]++;
+      }
+    }
+
+    return histogram;
+  },
+
+  /**
+   * Percentiles and a duration histogram per stage, for a repository.
+   *
+   * @param {PullRequest[]} prs - Pull requests
+   * @returns {CycleTimeStats} Breakdown and histogram
+   */
+  getStats(prs: PullRequest[]): CycleTimeStats {
+    return {
+      breakdown: this.getBreakdown(prs),
+      histogram: this.getHistogram(prs),
+    };
+  },
+
+  /**
+   * Mean hours from opening to first review and to merge, for the
+   * contributor averages. 0 when no PR reached that point.
+   *
+   * @param {PullRequest[]} prs - Pull requests
+   * @returns {{ avgReviewTime: number; avgMergeTime: number }} Mean hours
+   */
+  getAverages(prs: PullRequest[]): {
+    avgReviewTime: number;
+    avgMergeTime: number;
+  } {
+    const average = (values: number[]): number =>
+      values.length > 0
+        ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+        : 0;
+
+    return {
+      avgReviewTime: average(
+        prs
+          .filter((pr) => pr.firstReviewAt)
+          .map((pr) =>
+            DateUtils.diffInHours(
+              new Date(pr.createdAt),
+              new Date(pr.firstReviewAt!)
+            )
+          )
+      ),
+      avgMergeTime: average(
+        prs
+          .filter((pr) => pr.mergedAt)
+          .map((pr) =>
+            DateUtils.diffInHours(new Date(pr.createdAt), new Date(pr.mergedAt!))
+          )
+      ),
+    };
+  },
+};
@@ -4,7 +4,69 @@
  * @module utils/dateUtils
  */
 
-import { TimeFilter } from "../types";
+import { CustomTimeRange, TimeFilter } from "../types";
+
+/** Preset values accepted by {@link DateUtils.isTimeFilter} */
+const TIME_FILTER_PRESETS: readonly string[] = [
+  "2w",
+  "1m",
+  "3m",
+  "6m",
+  "12m",
+  "all",
+];
+
+/** Shape of a custom range: two ISO dates joined by ".." */
+const CUSTOM_RANGE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/;
+
+/** Formatters per time zone; building one is comparatively expensive */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar and clock fields of a date as seen in a time zone.
+ */
+function getZonedParts(date: Date, timeZone: string): Record<string, string> {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return parts;
+}
+
+/**
+ * Instant a calendar day starts in a time zone (its local midnight).
+ */
+function getZonedMidnight(day: string, timeZone: string): Date {
+  const midnight = new Date(`${day}T00:00:00Z`);
+  if (timeZone === "UTC") return midnight;
+
+  // Shift by the zone's offset, then again in case that crossed a DST change
+  let instant = midnight.getTime();
+  for (let i = 0; i < 2; i++) {
+    const { year, month, day: date, hour, minute, second } = getZonedParts(
+      new Date(instant),
+      timeZone
+    );
+    const wallClock = Date.UTC(+year, +month - 1, +date, +hour, +minute, +second);
+    instant += midnight.getTime() - wallClock;
+  }
+  return new Date(instant);
+}
 
 /**
  * Date utility functions for time filtering operations.
@@ -15,8 +77,11 @@ export const DateUtils = {
    * Calculates the start date based on the given time filter.
    * Used to determine the date range for fetching historical data.
    *
-   * @param {TimeFilter} filter - The time filter option (2w, 1m, 3m, 6m, all)
-   * @returns {Date} The calculated start date
+   * @param {TimeFilter} filter - The time filter option (2w, 1m, 3m, 6m,
+   *        all) or a custom range
+   * @param {string} [timeZone="UTC"] - Time zone custom range days are in
+   * @returns {Date} The calculated start date (local midnight of the first
+   *          day for custom ranges)
    *
    * @example
    * ```typescript
@@ -24,7 +89,12 @@ export const DateUtils = {
    * // Returns a Date object for 1 month ago
    * ```
    */
-  getStartDate(filter: TimeFilter): Date {
+  getStartDate(filter: TimeFilter, timeZone: string = "UTC"): Date {
+    const range = this.parseCustomRange(filter);
+    if (range) {
+      return getZonedMidnight(range.from, timeZone);
+    }
+
     const now = new Date();
 
     switch (filter) {
@@ -47,10 +117,123 @@ export const DateUtils = {
   },
 
   /**
-   * Generates an array of date strings from the filter's start date to today.
+   * Calculates the end date of a time filter: now for presets, the end of
+   * the last day in the given time zone for custom ranges, capped at now.
+   *
+   * @param {TimeFilter} filter - The time filter
+   * @param {string} [timeZone="UTC"] - Time zone custom range days are in
+   * @returns {Date} The calculated end date
+   *
+   * @example
+   * ```typescript
+   * DateUtils.getEndDate('2025-05-27..2025-09-01', 'Europe/Berlin');
+   * // 2025-09-01T21:59:59.999Z
+   * ```
+   */
+  getEndDate(filter: TimeFilter, timeZone: string = "UTC"): Date {
+    const now = new Date();
+    const range = this.parseCustomRange(filter);
+    if (!range) {
+      return now;
+    }
+
+    const end = new Date(
+      getZonedMidnight(this.addDays(range.to, 1), timeZone).getTime() - 1
+    );
+    return end < now ? end : now;
+  },
+
+  /**
+   * Builds a custom range filter. Swapped bounds are put in order.
+   *
+   * @param {string} from - First day (YYYY-MM-DD)
+   * @param {string} to - Last day (YYYY-MM-DD)
+   * @returns {CustomTimeRange} The range filter
+   *
+   * @example
+   * ```typescript
+   * DateUtils.toCustomRange('2025-05-27', '2025-09-01');
+   * // '2025-05-27..2025-09-01'
+   * ```
+   */
+  toCustomRange(from: string, to: string): CustomTimeRange {
+    return from <= to ? `${from}..${to}` : `${to}..${from}`;
+  },
+
+  /**
+   * Custom range covering the last `days` days up to today, e.g. as the
+   * starting point of a date range picker.
+   *
+   * @param {number} days - Days before today to start from
+   * @returns {CustomTimeRange} The range filter
+   */
+  getRecentRange(days: number): CustomTimeRange {
+    const today = new Date();
+    const from = new Date(today);
+    from.setDate(from.getDate() - days);
+    return this.toCustomRange(this.toDateString(from), this.toDateString(today));
+  },
+
+  /**
+   * Splits a custom range filter into its bounds.
+   *
+   * @param {TimeFilter} filter - The time filter
+   * @returns {{ from: string; to: string } | null} The bounds, or null for
+   *          presets
+   */
+  parseCustomRange(filter: TimeFilter): { from: string; to: string } | null {
+    const match = CUSTOM_RANGE_PATTERN.exec(filter);
+    return match ? { from: match[1], to: match[2] } : null;
+  },
+
+  /**
+   * Checks whether a string (e.g. a query parameter) is a valid time filter.
+   *
+   * @param {string} value - Value to check
+   * @returns {boolean} True for presets and well-formed custom ranges
+   */
+  isTimeFilter(value: string): value is TimeFilter {
+    const range = CUSTOM_RANGE_PATTERN.exec(value);
+    if (range) {
+      return (
+        !isNaN(Date.parse(range[1])) &&
+        !isNaN(Date.parse(range[2])) &&
+        range[1] <= range[2]
+      );
+    }
+    return TIME_FILTER_PRESETS.includes(value);
+  },
+
+  /**
+   * Describes a time filter for headings, e.g. "Last 3m" or
+   * "May 27, 2025 – Sep 1, 2025".
+   *
+   * @param {TimeFilter} filter - The time filter
+   * @returns {string} Human-readable description
+   */
+  describeTimeFilter(filter: TimeFilter): string {
+    const range = this.parseCustomRange(filter);
+    if (!range) {
+      return `Last ${filter === "all" ? "all time" : filter}`;
+    }
+
+    const format = (day: string) =>
+      new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        timeZone: "UTC",
+      });
+    return `${format(range.from)} – ${format(range.to)}`;
+  },
+
+  /**
+   * Generates an array of date strings from the filter's start date to its
+   * end date (today for presets).
    * Useful for creating timeline charts and activity heatmaps.
    *
    * @param {TimeFilter} filter - The time filter to generate range for
+   * @param {string} [timeZone="UTC"] - Time zone the days are counted in
    * @returns {string[]} Array of ISO date strings (YYYY-MM-DD format)
    *
    * @example
@@ -59,34 +242,130 @@ export const DateUtils = {
    * // Returns ['2024-01-01', '2024-01-02', ..., '2024-01-14']
    * ```
    */
-  generateDateRange(filter: TimeFilter): string[] {
+  generateDateRange(filter: TimeFilter, timeZone: string = "UTC"): string[] {
     const dates: string[] = [];
-    const startDate = this.getStartDate(filter);
-    const now = new Date();
+    const range = this.parseCustomRange(filter);
+    // Custom ranges name calendar days already; presets are instants
+    const last = range?.to ?? this.toDateString(this.getEndDate(filter), timeZone);
+    let current =
+      range?.from ?? this.toDateString(this.getStartDate(filter), timeZone);
 
-    const current = new Date(startDate);
-    while (current <= now) {
-      dates.push(this.toDateString(current));
-      current.setDate(current.getDate() + 1);
+    while (current <= last) {
+      dates.push(current);
+      current = this.addDays(current, 1);
     }
 
     return dates;
   },
 
   /**
-   * Converts a Date object to an ISO date string (YYYY-MM-DD).
+   * Shifts a calendar day by a number of days.
+   *
+   * @param {string} day - ISO date (YYYY-MM-DD)
+   * @param {number} days - Days to add (negative to go back)
+   * @returns {string} The shifted ISO date
+   *
+   * @example
+   * ```typescript
+   * DateUtils.addDays('2025-06-02', -1); // '2025-06-01'
+   * ```
+   */
+  addDays(day: string, days: number): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return this.toDateString(date);
+  },
+
+  /**
+   * Converts a Date object to an ISO date string (YYYY-MM-DD): the calendar
+   * day the instant falls on in the given time zone.
    *
    * @param {Date} date - The date to convert
+   * @param {string} [timeZone="UTC"] - IANA time zone, e.g. "Europe/Berlin"
    * @returns {string} ISO date string in YYYY-MM-DD format
    *
    * @example
    * ```typescript
-   * const dateStr = DateUtils.toDateString(new Date('2024-01-15T10:30:00'));
+   * DateUtils.toDateString(new Date('2024-01-15T23:30:00Z'));
    * // Returns '2024-01-15'
+   * DateUtils.toDateString(new Date('2024-01-15T23:30:00Z'), 'Europe/Berlin');
+   * // Returns '2024-01-16'
    * ```
    */
-  toDateString(date: Date): string {
-    return date.toISOString().split("T")[0];
+  toDateString(date: Date, timeZone: string = "UTC"): string {
+    if (timeZone === "UTC") {
+      return date.toISOString().split("T")[0];
+    }
+
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return `${year}-${month}-${day}`;
+  },
+
+  /**
+   * Formats an instant as ISO 8601 local time in a time zone, with its UTC
+   * offset, so exported timestamps read the same for every viewer.
+   *
+   * @param {string} isoDate - ISO timestamp (e.g. a PR's mergedAt)
+   * @param {string} [timeZone="UTC"] - IANA time zone
+   * @returns {string} e.g. "2024-01-16T00:30:00+01:00"
+   */
+  toZonedIsoString(isoDate: string, timeZone: string = "UTC"): string {
+    const date = new Date(isoDate);
+    const { year, month, day, hour, minute, second } = getZonedParts(
+      date,
+      timeZone
+    );
+
+    // Offset = zoned wall clock read as UTC, minus the instant itself
+    const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+    const offsetMinutes = Math.round(
+      (wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000
+    );
+    const sign = offsetMinutes < 0 ? "-" : "+";
+    const abs = Math.abs(offsetMinutes);
+    const offset = `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(
+      abs % 60
+    ).padStart(2, "0")}`;
+
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`;
+  },
+
+  /**
+   * Time zone of the browser, e.g. "America/New_York".
+   *
+   * @returns {string} IANA time zone name
+   */
+  getLocalTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  },
+
+  /**
+   * Time zones offered in settings: UTC, then every zone the browser knows
+   * (just UTC and the local zone on browsers without `supportedValuesOf`).
+   *
+   * @returns {string[]} IANA time zone names
+   */
+  getTimeZones(): string[] {
+    const intl = Intl as { supportedValuesOf?: (key: string) => string[] };
+    const zones = intl.supportedValuesOf?.("timeZone") ?? [
+      this.getLocalTimeZone(),
+    ];
+    return ["UTC", ...zones.filter((zone) => zone !== "UTC")];
+  },
+
+  /**
+   * Checks whether a string names a time zone this browser supports.
+   *
+   * @param {string} timeZone - Value to check
+   * @returns {boolean} True if dates can be formatted in it
+   */
+  isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
   },
 
   /**
@@ -3,7 +3,26 @@
  * @module utils
  */
 
+export { ActivityTimeline, MOVING_AVERAGE_WINDOWS } from "./activityTimeline";
+export { ATTENTION_REASON_LABELS, PullRequestAttention } from "./attention";
+export { Bots } from "./bots";
+export {
+  CONCENTRATION_TREND_PERIODS,
+  Concentration,
+} from "./concentration";
+export { CYCLE_STAGES, CYCLE_STAGE_LABELS, CycleTime } from "./cycleTime";
 export { DateUtils } from "./dateUtils";
+export {
+  PROGRAM_PHASE_LABELS,
+  PROGRAM_TIMELINES,
+  ProgramCalendar,
+} from "./programCalendar";
+export type {
+  ProgramPhase,
+  ProgramPreset,
+  ProgramTimeline,
+} from "./programCalendar";
+export { Retention } from "./retention";
 export {
   GitHubUrlParseError,
   GitHubUrlParser,
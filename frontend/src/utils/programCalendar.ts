@@ -0,0 +1,224 @@
+/**
+ * @fileoverview GSoC program calendar: per-year timeline dates and the
+ * time filter presets derived from them.
+ * @module utils/programCalendar
+ */
+
+import { CustomTimeRange, PullRequest, TimeFilter } from "../types";
+import { DateUtils } from "./dateUtils";
+
+/**
+ * Key dates of one program year (YYYY-MM-DD, UTC).
+ */
+export interface ProgramTimeline {
+  year: number;
+  /** Accepted organizations are published */
+  orgsAnnounced: string;
+  applicationsOpen: string;
+  /** Contributor application deadline */
+  applicationsClose: string;
+  /** Accepted contributor projects are published; bonding starts */
+  projectsAnnounced: string;
+  codingStart: string;
+  /** End of the standard coding period */
+  codingEnd: string;
+}
+
+/**
+ * Program phases a contributor's activity is split into.
+ */
+export type ProgramPhase = "preApplication" | "communityBonding" | "coding";
+
+/**
+ * Time filter preset tied to the program calendar.
+ */
+export interface ProgramPreset {
+  year: number;
+  /** Phase, or "sinceAnnouncement" for orgs announced → today */
+  phase: ProgramPhase | "sinceAnnouncement";
+  label: string;
+  value: CustomTimeRange;
+}
+
+/**
+ * Published GSoC timelines, newest first. Add a year once Google publishes
+ * its timeline (developers.google.com/open-source/gsoc/timeline).
+ */
+export const PROGRAM_TIMELINES: readonly ProgramTimeline[] = [
+  {
+    year: 2026,
+    orgsAnnounced: "2026-02-19",
+    applicationsOpen: "2026-03-16",
+    applicationsClose: "2026-03-31",
+    projectsAnnounced: "2026-04-30",
+    codingStart: "2026-05-25",
+    codingEnd: "2026-08-24",
+  },
+  {
+    year: 2025,
+    orgsAnnounced: "2025-02-27",
+    applicationsOpen: "2025-03-24",
+    applicationsClose: "2025-04-08",
+    projectsAnnounced: "2025-05-08",
+    codingStart: "2025-06-02",
+    codingEnd: "2025-09-01",
+  },
+  {
+    year: 2024,
+    orgsAnnounced: "2024-02-21",
+    applicationsOpen: "2024-03-18",
+    applicationsClose: "2024-04-02",
+    projectsAnnounced: "2024-05-01",
+    codingStart: "2024-05-27",
+    codingEnd: "2024-08-26",
+  },
+];
+
+/**
+ * Display labels of the phases, in program order.
+ */
+export const PROGRAM_PHASE_LABELS: Record<ProgramPhase, string> = {
+  preApplication: "Pre-application period",
+  communityBonding: "Community bonding",
+  coding: "Coding period",
+};
+
+/**
+ * Program calendar lookups.
+ */
+export const ProgramCalendar = {
+  /**
+   * Program years whose organizations have been announced, newest first.
+   *
+   * @returns {number[]} Years with a known, started timeline
+   */
+  getYears(): number[] {
+    const today = DateUtils.toDateString(new Date());
+    return PROGRAM_TIMELINES.filter(
+      (timeline) => timeline.orgsAnnounced <= today
+    ).map((timeline) => timeline.year);
+  },
+
+  /**
+   * Timeline of a program year.
+   *
+   * @param {number} year - Program year
+   * @returns {ProgramTimeline | null} The timeline, or null if unknown
+   */
+  getTimeline(year: number): ProgramTimeline | null {
+    return PROGRAM_TIMELINES.find((timeline) => timeline.year === year) ?? null;
+  },
+
+  /**
+   * Date range of a phase, inclusive. The pre-application period runs from
+   * the org announcement to the application deadline; bonding from the
+   * project announcement to the day before coding starts.
+   *
+   * @param {ProgramTimeline} timeline - Program year timeline
+   * @param {ProgramPhase} phase - Phase
+   * @returns {CustomTimeRange} The phase as a time filter
+   *
+   * @example
+   * ```typescript
+   * ProgramCalendar.getPhaseRange(ProgramCalendar.getTimeline(2025)!, 'coding');
+   * // '2025-06-02..2025-09-01'
+   * ```
+   */
+  getPhaseRange(timeline: ProgramTimeline, phase: ProgramPhase): CustomTimeRange {
+    switch (phase) {
+      case "preApplication":
+        return DateUtils.toCustomRange(
+          timeline.orgsAnnounced,
+          timeline.applicationsClose
+        );
+      case "communityBonding":
+        return DateUtils.toCustomRange(
+          timeline.projectsAnnounced,
+          DateUtils.addDays(timeline.codingStart, -1)
+        );
+      case "coding":
+        return DateUtils.toCustomRange(timeline.codingStart, timeline.codingEnd);
+    }
+  },
+
+  /**
+   * Time filter presets of a program year: each phase that has started,
+   * plus everything since the org announcement.
+   *
+   * @param {number} year - Program year
+   * @returns {ProgramPreset[]} Presets in program order
+   */
+  getPresets(year: number): ProgramPreset[] {
+    const timeline = this.getTimeline(year);
+    if (!timeline) return [];
+
+    const today = DateUtils.toDateString(new Date());
+    const phases = (Object.keys(PROGRAM_PHASE_LABELS) as ProgramPhase[])
+      .map((phase) => ({
+        year,
+        phase,
+        label: PROGRAM_PHASE_LABELS[phase],
+        value: this.getPhaseRange(timeline, phase),
+      }))
+      .filter((preset) => DateUtils.getStartDate(preset.value) <= new Date());
+
+    if (timeline.orgsAnnounced > today) return phases;
+    return [
+      ...phases,
+      {
+        year,
+        phase: "sinceAnnouncement",
+        label: "Since org announcement",
+        value: DateUtils.toCustomRange(timeline.orgsAnnounced, today),
+      },
+    ];
+  },
+
+  /**
+   * Finds the preset a time filter corresponds to, for labelling selects.
+   *
+   * @param {TimeFilter} filter - Time filter
+   * @returns {ProgramPreset | null} The matching preset, or null
+   */
+  findPreset(filter: TimeFilter): ProgramPreset | null {
+    for (const year of this.getYears()) {
+      const preset = this.getPresets(year).find((p) => p.value === filter);
+      if (preset) return preset;
+    }
+    return null;
+  },
+
+  /**
+   * Splits pull requests by the program phase they were opened in, by
+   * calendar day in the given time zone. PRs opened outside every phase are
+   * left out.
+   *
+   * @param {PullRequest[]} prs - Pull requests
+   * @param {ProgramTimeline} timeline - Program year timeline
+   * @param {string} [timeZone="UTC"] - IANA time zone days are counted in
+   * @returns {Record<ProgramPhase, PullRequest[]>} PRs per phase
+   */
+  splitByPhase(
+    prs: PullRequest[],
+    timeline: ProgramTimeline,
+    timeZone: string = "UTC"
+  ): Record<ProgramPhase, PullRequest[]> {
+    const split: Record<ProgramPhase, PullRequest[]> = {
+      preApplication: [],
+      communityBonding: [],
+      coding: [],
+    };
+    const bounds = (Object.keys(split) as ProgramPhase[]).map((phase) => ({
+      phase,
+      ...DateUtils.parseCustomRange(this.getPhaseRange(timeline, phase))!,
+    }));
+
+    for (const pr of prs) {
+      const day = DateUtils.toDateString(new Date(pr.createdAt), timeZone);
+      const match = bounds.find(({ from, to }) => day >= from && day <= to);
+      if (match) split[match.phase].push(pr);
+    }
+
+    return split;
+  },
+};
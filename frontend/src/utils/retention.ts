@@ -0,0 +1,123 @@
+/**
+ * @fileoverview First-time contributor retention: how many contributors
+ * whose first PR to a repository falls in the analyzed window came back
+ * with a second one, overall and in monthly cohorts.
+ * @module utils/retention
+ */
+
+import {
+  ContributorStats,
+  PullRequest,
+  RetentionCohort,
+  RetentionCounts,
+  RetentionStats,
+} from "../types";
+import { DateUtils } from "./dateUtils";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * All-zero counts.
+ */
+function emptyCounts(): RetentionCounts {
+  return {
+    firstTimers: 0,
+    eligible30d: 0,
+    returned30d: 0,
+    eligible90d: 0,
+    returned90d: 0,
+  };
+}
+
+/**
+ * Adds one first-timer, given their PR creation times oldest first.
+ */
+function addFirstTimer(
+  counts: RetentionCounts,
+  createdAt: string[],
+  windowEnd: Date
+): void {
+  const first = new Date(createdAt[0]).getTime();
+  const second = createdAt[1] ? new Date(createdAt[1]).getTime() : null;
+  const observedDays = (windowEnd.getTime() - first) / MS_PER_DAY;
+  const returnDays = second !== null ? (second - first) / MS_PER_DAY : null;
+
+  counts.firstTimers++;
+  if (observedDays >= 30) {
+    counts.eligible30d++;
+    if (returnDays !== null && returnDays <= 30) counts.returned30d++;
+  }
+  if (observedDays >= 90) {
+    counts.eligible90d++;
+    if (returnDays !== null && returnDays <= 90) counts.returned90d++;
+  }
+}
+
+/**
+ * Retention calculations.
+ */
+export const Retention = {
+  /**
+   * Retention of a repository's first-timers, with cohorts by the month
+   * of their first PR in the given time zone.
+   *
+   * @param {PullRequest[]} prs - Pull requests of the window
+   * @param {ContributorStats[]} contributors - Contributors with
+   *        `isFirstTimer` resolved
+   * @param {Date} windowEnd - End of the analyzed window
+   * @param {string} [timeZone="UTC"] - IANA time zone of the months
+   * @returns {RetentionStats} Totals and monthly cohorts
+   *
+   * @example
+   * ```typescript
+   * const retention = Retention.getStats(prs, contributors, new Date());
+   * console.log(`${retention.returned30d}/${retention.eligible30d} came back`);
+   * ```
+   */
+  getStats(
+    prs: PullRequest[],
+    contributors: ContributorStats[],
+    windowEnd: Date,
+    timeZone: string = "UTC"
+  ): RetentionStats {
+    const firstTimers = new Set(
+      contributors
+        .filter((contributor) => contributor.isFirstTimer)
+        .map((contributor) => contributor.username)
+    );
+    const createdAt = new Map<string, string[]>();
+    for (const pr of prs) {
+      if (!firstTimers.has(pr.user.login)) continue;
+      const times = createdAt.get(pr.user.login);
+      if (times) times.push(pr.createdAt);
+      else createdAt.set(pr.user.login, [pr.createdAt]);
+    }
+
+    const totals = emptyCounts();
+    const cohorts = new Map<string, RetentionCohort>();
+
+    for (const times of createdAt.values()) {
+      times.sort();
+      const month = DateUtils.toDateString(new Date(times[0]), timeZone).slice(
+        0,
+        7
+      );
+      if (!cohorts.has(month)) {
+        cohorts.set(month, { month, ...emptyCounts() });
+      }
+
+      addFirstTimer(totals, times, windowEnd);
+      addFirstTimer(cohorts.get(month)!, times, windowEnd);
+    }
+
+    return {
+      ...totals,
+      available: contributors.every(
+        (contributor) => contributor.isFirstTimer !== null
+      ),
+      cohorts: Array.from(cohorts.values()).sort((a, b) =>
+        a.month.localeCompare(b.month)
+      ),
+    };
+  },
+};
@@ -35,6 +35,21 @@ const SSH_FORMAT_REGEX = new RegExp(
   `^git@github\\.com:(${GITHUB_NAME_PATTERN})\\/(${GITHUB_NAME_PATTERN})(?:\\.git)?$`
 );
 
+/**
+ * Regex for the "org:name" organization shorthand.
+ */
+const ORG_SHORTHAND_REGEX = new RegExp(
+  `^org:\\s*(${GITHUB_NAME_PATTERN})$`,
+  "i"
+);
+
+/**
+ * Regex for organization URLs: github.com/orgs/name
+ */
+const ORG_URL_REGEX = new RegExp(
+  `^(?:https?://)?(?:www\\.)?github\\.com/orgs/(${GITHUB_NAME_PATTERN})(?:/.*)?$`
+);
+
 // ============================================================================
 // Types & Interfaces
 // ============================================================================
@@ -229,13 +244,15 @@ export const GitHubUrlParser = {
   },
 
   /**
-   * Detects whether a GitHub URL points to a user profile or repository.
+   * Detects whether a GitHub URL points to a user profile, organization or
+   * repository.
    *
    * User profile URLs: github.com/username (single path segment)
+   * Organization URLs: github.com/orgs/name or the `org:name` shorthand
    * Repository URLs: github.com/owner/repo (two path segments)
    *
    * @param {string} url - The GitHub URL to analyze
-   * @returns {{ type: 'user' | 'repo' | 'unknown', username?: string, owner?: string, repo?: string }}
+   * @returns {{ type: 'user' | 'repo' | 'org' | 'unknown', username?: string, owner?: string, repo?: string, org?: string }}
    *
    * @example
    * ```typescript
@@ -244,13 +261,17 @@ export const GitHubUrlParser = {
    *
    * GitHubUrlParser.detectUrlType('facebook/react');
    * // Returns: { type: 'repo', owner: 'facebook', repo: 'react' }
+   *
+   * GitHubUrlParser.detectUrlType('org:52North');
+   * // Returns: { type: 'org', org: '52North' }
    * ```
    */
   detectUrlType(url: string): {
-    type: "user" | "repo" | "unknown";
+    type: "user" | "repo" | "org" | "unknown";
     username?: string;
     owner?: string;
     repo?: string;
+    org?: string;
   } {
     try {
       let normalizedUrl = url.trim();
@@ -262,6 +283,14 @@ export const GitHubUrlParser = {
       // Remove trailing slashes and .git extension
       normalizedUrl = normalizedUrl.replace(/\.git\/?$/, "").replace(/\/$/, "");
 
+      // Check for org:name shorthand and github.com/orgs/name URLs
+      const orgMatch =
+        normalizedUrl.match(ORG_SHORTHAND_REGEX) ||
+        normalizedUrl.match(ORG_URL_REGEX);
+      if (orgMatch) {
+        return { type: "org", org: orgMatch[1] };
+      }
+
       // Check for SSH format (always a repo)
       if (SSH_FORMAT_REGEX.test(normalizedUrl)) {
         const match = normalizedUrl.match(SSH_FORMAT_REGEX);
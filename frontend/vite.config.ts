@@ -24,6 +24,11 @@ export default defineConfig({
         // Split vendor libraries into separate cached chunks.
         // Users who revisit don't re-download react/recharts when only app code changes.
         manualChunks(id) {
+          // Rollup's CommonJS interop helpers are shared by react and recharts;
+          // keep them with react so the lazy chart chunk isn't preloaded.
+          if (id.includes('commonjsHelpers')) {
+            return 'react-vendor';
+          }
           if (id.includes('node_modules')) {
             if (
               id.includes('/react/') ||